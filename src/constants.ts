@@ -1,4 +1,11 @@
 import { t } from "./i18n";
+import type { ReasoningEffort, ResponseSchema } from "./llm/LLMProvider";
+import type { CustomProviderConfig } from "./llm/CustomEndpointProvider";
+import type { EndpointOverride } from "./llm/endpointOverride";
+import type { GenerationOverrides } from "./llm/generationParams";
+import { DEFAULT_AZURE_API_VERSION, type AzureOpenAIConfig } from "./llm/AzureOpenAIProvider";
+import { DEFAULT_REPLAY_CONFIG, type ReplayConfig } from "./llm/ReplayProvider";
+import { DEFAULT_OPENROUTER_CONFIG, type OpenRouterConfig } from "./llm/OpenRouterProvider";
 
 export const PLUGIN_ID = "llm-assistant";
 export const VIEW_TYPE_CHAT = "llm-assistant-chat-view";
@@ -8,17 +15,32 @@ export const DEFAULT_SETTINGS: LLMAssistantSettings = {
 	activeProvider: "gemini",
 	activeModel: "gemini-2.5-flash",
 	streamingEnabled: true,
+	promptCaching: true,
 	securityLevel: "secretstorage",
 	systemPrompt: "",
 	temperature: 0.7,
 	maxTokens: 4096,
-	customEndpoint: "",
-	customModelId: "",
+	reasoningEffort: "off",
+	generationOverrides: {},
+	fallbackChain: [],
+	compareTargets: [],
+	customProviders: [],
+	providerOverrides: {},
+	azure: { endpoint: "", apiVersion: DEFAULT_AZURE_API_VERSION, deployments: [] },
+	openaiResponsesModels: [],
+	toolSupportCache: {},
+	debugLogEnabled: false,
+	replay: { ...DEFAULT_REPLAY_CONFIG },
 	language: "auto",
 	fontSize: "medium",
 	// プロバイダー有効/無効
 	enableOpenRouter: false,
 	enableOllama: false,
+	enableAzure: false,
+	openRouter: { ...DEFAULT_OPENROUTER_CONFIG },
+	// Ollama（0 / 空 = サーバー既定）
+	ollamaNumCtx: 0,
+	ollamaKeepAlive: "",
 	// RAG設定
 	ragEnabled: false,
 	ragTopK: 5,
@@ -37,23 +59,59 @@ export const DEFAULT_SETTINGS: LLMAssistantSettings = {
 	ragProximityBoostFactor: 0.5,
 	// コンテキストスコープ
 	contextScope: "active" as "active" | "local" | "vault",
+	autoAttachEmbeddedImages: true,
+	contextTrimEnabled: true,
+	contextSummaryEnabled: false,
+	// コスト予算（USD、0 で無制限）
+	budgetMonthlyLimit: 0,
+	budgetConversationLimit: 0,
+	budgetWarnRatio: 0.8,
 };
 
 export interface LLMAssistantSettings {
 	activeProvider: string;
 	activeModel: string;
 	streamingEnabled: boolean;
+	/** Anthropic のプロンプトキャッシュ（cache_control の自動付与） */
+	promptCaching: boolean;
 	securityLevel: "secretstorage" | "webcrypto";
 	systemPrompt: string;
 	temperature: number;
 	maxTokens: number;
-	customEndpoint: string;
-	customModelId: string;
+	/** 推論（extended thinking / reasoning effort）レベル。"off" で要求しない */
+	reasoningEffort: "off" | ReasoningEffort;
+	/** 生成パラメータのプロバイダー・モデル単位の上書き（generationOverrideKey → 設定。チャット画面のモデル選択の横で編集） */
+	generationOverrides: Record<string, GenerationOverrides>;
+	/** 現在のプロバイダーが利用できない場合に順に試すプロバイダー/モデル */
+	fallbackChain: FallbackTarget[];
+	/** 比較モードで同時に送信するプロバイダー/モデル（前回の選択） */
+	compareTargets: FallbackTarget[];
+	/** ユーザー定義のプロバイダー（OpenAI / Anthropic / Gemini 互換エンドポイント） */
+	customProviders: CustomProviderConfig[];
+	/** 組み込みプロバイダーの接続先上書き（プロバイダーID → 設定。Embedding にも同じIDで適用） */
+	providerOverrides: Record<string, EndpointOverride>;
+	/** Azure OpenAI のリソース・デプロイメント（チャットと Embedding で共用） */
+	azure: AzureOpenAIConfig;
+	/** OpenAI で Responses API（/v1/responses）を使うモデルID（その他は Chat Completions） */
+	openaiResponsesModels: string[];
+	/** Tool Use 対応の判定結果（toolProbeKey → 対応可否） */
+	toolSupportCache: Record<string, boolean>;
+	/** リクエスト/レスポンスのデバッグログを記録（プラグインフォルダの debug-log*.jsonl） */
+	debugLogEnabled: boolean;
+	/** 記録・再生（オフライン開発・デモ・不具合再現用） */
+	replay: ReplayConfig;
 	language: "auto" | "en" | "ja";
 	fontSize: "small" | "medium" | "large";
 	// プロバイダー有効/無効
 	enableOpenRouter: boolean;
 	enableOllama: boolean;
+	enableAzure: boolean;
+	/** OpenRouter のルーティング・モデルのフォールバック・プロンプト変換 */
+	openRouter: OpenRouterConfig;
+	/** Ollama の options.num_ctx（0 = サーバー既定） */
+	ollamaNumCtx: number;
+	/** Ollama の keep_alive（空 = サーバー既定） */
+	ollamaKeepAlive: string;
 	// RAG設定
 	ragEnabled: boolean;
 	ragTopK: number;
@@ -73,6 +131,21 @@ export interface LLMAssistantSettings {
 	ragProximityBoostFactor: number;
 	// コンテキストスコープ
 	contextScope: "active" | "local" | "vault";
+	/** アクティブノートの埋め込み画像（![[image.png]]）を自動で添付 */
+	autoAttachEmbeddedImages: boolean;
+	/** 送信前にプロンプトをモデルのコンテキストウィンドウに収める（古いターン → RAG → リンク先ノートの順に省略） */
+	contextTrimEnabled: boolean;
+	/** 省略した古いターンを会話の要約に置き換える */
+	contextSummaryEnabled: boolean;
+	// コスト予算（USD、0 で無制限）
+	budgetMonthlyLimit: number;
+	budgetConversationLimit: number;
+	budgetWarnRatio: number;
+}
+
+export interface FallbackTarget {
+	provider: string;
+	model: string;
 }
 
 export interface ProviderConfig {
@@ -132,6 +205,49 @@ export function getQuickActions(): QuickAction[] {
 	];
 }
 
+/** タグ提案コマンドの出力スキーマ */
+export const SUGGEST_TAGS_SCHEMA: ResponseSchema = {
+	name: "suggest_tags",
+	description: "Tags that describe the note",
+	schema: {
+		type: "object",
+		properties: {
+			tags: {
+				type: "array",
+				items: { type: "string", minLength: 1 },
+				maxItems: 10,
+			},
+		},
+		required: ["tags"],
+		additionalProperties: false,
+	},
+};
+
+/** タスク抽出コマンドの出力スキーマ */
+export const EXTRACT_TASKS_SCHEMA: ResponseSchema = {
+	name: "extract_tasks",
+	description: "Action items found in the text",
+	schema: {
+		type: "object",
+		properties: {
+			tasks: {
+				type: "array",
+				items: {
+					type: "object",
+					properties: {
+						text: { type: "string", minLength: 1 },
+						due: { type: "string", description: "Due date as YYYY-MM-DD, or empty if none" },
+					},
+					required: ["text", "due"],
+					additionalProperties: false,
+				},
+			},
+		},
+		required: ["tasks"],
+		additionalProperties: false,
+	},
+};
+
 export interface SystemPromptPreset {
 	id: string;
 	name: string;
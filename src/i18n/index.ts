@@ -15,13 +15,20 @@ const translations: Record<Locale, Record<string, string>> = {
 	en: {
 		// Command palette
 		"command.openChat": "Open chat panel",
+		"command.suggestTags": "Suggest tags for current note",
+		"command.extractTasks": "Extract tasks from selection or note",
+		"command.detectLocalServers": "Detect local LLM servers",
 
 		// Header / toolbar
 		"header.history": "History",
 		"header.settings": "Settings",
 		"header.newChat": "New chat",
+		"header.compare": "Compare models",
+		"header.generationParams": "Generation parameters",
 		"toolbar.attachActive": "Attach active note",
 		"toolbar.pickFile": "Select note",
+		"toolbar.attachImage": "Attach image",
+		"toolbar.attachPdf": "Attach PDF",
 		"toolbar.copy": "Copy",
 		"toolbar.insertToNote": "Insert to note",
 
@@ -38,6 +45,7 @@ const translations: Record<Locale, Record<string, string>> = {
 
 		// Generating
 		"chat.generating": "Generating",
+		"chat.retrying": "Retrying in {seconds}s (attempt {attempt}/{max})",
 		"chat.stop": "Stop",
 		"chat.stopped": "(Generation stopped)",
 		"chat.regenerate": "Regenerate",
@@ -52,6 +60,18 @@ const translations: Record<Locale, Record<string, string>> = {
 		// Notices
 		"notice.noActiveNote": "No active note",
 		"notice.attached": "{name} attached",
+		"notice.imagesNotSupported": "{model} does not accept images. Images were not sent",
+		"notice.imagesTooLarge": "Images over the model's size limit were not sent: {names}",
+		"notice.imagesTooMany": "Only the latest {max} images can be sent. Skipped: {names}",
+		"notice.pdfReadFailed": "Failed to read PDF: {name}",
+		"notice.pdfAsText": "{model} cannot take these PDFs natively; sent as extracted text: {names}",
+		"notice.pdfTruncated": "PDF text was truncated to fit the context window: {names}",
+		"notice.pdfNoText": "No text could be extracted from these PDFs, so they were skipped: {names}",
+		"notice.compareNeedsModels": "Select at least two models to compare",
+		"notice.compareOn": "Comparison mode: messages are sent to {names}",
+		"notice.compareSkipped": "Skipped (disabled or API key not set): {names}",
+		"notice.compareSelectFirst": "Pick one of the answers to continue the conversation",
+		"notice.contextSummaryFailed": "Could not summarize the earlier messages; they were omitted without a summary",
 		"notice.alreadyAttachedOrLimit": "Already attached or token limit exceeded",
 		"notice.copied": "Copied",
 		"notice.noMessageToInsert": "No message to insert",
@@ -66,11 +86,56 @@ const translations: Record<Locale, Record<string, string>> = {
 		// Errors
 		"error.providerNotFound": "Provider not found",
 		"error.apiKeyNotSet": "{name} API key is not set. Please enter it in Settings.",
+		"error.compareNoTargets": "None of the models selected for comparison can be used. Check that the providers are enabled and their API keys are set.",
 		"error.occurred": "An error occurred: {message}",
+		"error.budgetExceeded.monthly": "Monthly budget exceeded ({spent} of {limit}). Raise the limit in Settings to continue sending.",
+		"error.budgetExceeded.conversation": "Budget for this conversation exceeded ({spent} of {limit}). Start a new chat or raise the limit in Settings.",
+		"notice.budgetWarning.monthly": "Approaching monthly budget: {spent} of {limit} used",
+		"notice.budgetWarning.conversation": "Approaching conversation budget: {spent} of {limit} used",
+		"notice.fallback": "{from} is unavailable. Switched to {to}",
 
 		// Conversation
 		"conversation.title": "History",
 		"conversation.empty": "No conversation history",
+		"debug.title": "Request inspector",
+		"compare.title": "Compare models",
+		"compare.desc": "Each message is sent to these models in parallel (up to {max}). Pick the best answer to continue the conversation with that model.",
+		"compare.column": "Model {n}",
+		"compare.remove": "Remove",
+		"compare.add": "Add model",
+		"compare.start": "Start comparison",
+		"compare.latency": "{seconds}s",
+		"compare.pick": "Use this answer",
+		"compare.selected": "Selected",
+		"params.title": "Generation parameters",
+		"params.scope": "Apply to",
+		"params.scopeModel": "This model ({name})",
+		"params.scopeProvider": "All {name} models",
+		"params.temperature": "Temperature",
+		"params.maxTokens": "Max output tokens",
+		"params.topP": "Top P",
+		"params.topK": "Top K",
+		"params.stop": "Stop sequences",
+		"params.stopPlaceholder": "One per line",
+		"params.reasoning": "Reasoning",
+		"params.reasoningBudget": "Reasoning budget (tokens)",
+		"params.seed": "Seed",
+		"params.inherit": "Inherit ({value})",
+		"params.default": "Model default",
+		"params.unsupported": "Not supported by this model (not sent)",
+		"params.desc": "Empty fields use the provider setting, then the global setting",
+		"params.reset": "Reset",
+		"debug.notFound": "No log entries for this reply. They may have been rotated out or cleared.",
+		"debug.partial": "Showing {found} of {total} requests (older entries were rotated out)",
+		"debug.copy": "Copy as JSON",
+		"debug.copied": "Copied",
+		"debug.noResponse": "No response",
+		"debug.firstByte": "headers {ms} ms",
+		"debug.latency": "total {ms} ms",
+		"debug.requestHeaders": "Request headers",
+		"debug.requestBody": "Request body",
+		"debug.events": "Stream events ({count})",
+		"debug.response": "Response",
 		"conversation.messages": "{count} messages",
 		"conversation.delete": "Delete",
 		"conversation.newChat": "New chat",
@@ -85,6 +150,34 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.ollamaMobileWarning": "Ollama is designed for desktop use only. On mobile, 'localhost' refers to your phone itself, so it cannot connect to Ollama running on your PC.",
 		"settings.model": "Model",
 		"settings.modelDesc": "Select the model to use",
+		"settings.modelCapabilities": "Capabilities: {list}",
+		"capability.tools": "Tools",
+		"capability.vision": "Images",
+		"capability.pdf": "PDF",
+		"capability.reasoning": "Reasoning",
+		"capability.jsonMode": "JSON mode",
+		"capability.maxOutput": "Max output {tokens} tokens",
+		"capability.none": "Text only",
+		"settings.ollama": "Ollama",
+		"settings.ollamaDesc": "Options for the native Ollama API and the models installed on this server",
+		"settings.ollamaNumCtx": "Context length (num_ctx)",
+		"settings.ollamaNumCtxDesc": "Tokens of context the server allocates per request. Leave empty for the server default. Capped at each model's maximum.",
+		"settings.ollamaKeepAlive": "Keep alive",
+		"settings.ollamaKeepAliveDesc": "How long the model stays loaded after a request (for example 10m, 1h, or -1 to keep it loaded). Leave empty for the server default.",
+		"settings.ollamaKeepAlivePlaceholder": "5m",
+		"settings.ollamaToolProbe": "Tool support",
+		"settings.ollamaToolProbeDesc": "Each model is tested once before its first chat. Models without tool calling use text tags for reading notes.",
+		"settings.ollamaInstalled": "Installed models",
+		"settings.ollamaInstalledEmpty": "No models installed.",
+		"settings.ollamaLoading": "Loading...",
+		"settings.ollamaListFailed": "Could not list models: {message}",
+		"settings.ollamaDeleteModel": "Delete",
+		"settings.ollamaPull": "Download model",
+		"settings.ollamaPullDesc": "Model name from the Ollama library",
+		"settings.ollamaPullPlaceholder": "qwen3:8b",
+		"settings.ollamaPullButton": "Download",
+		"settings.openaiResponsesApi": "Use Responses API",
+		"settings.openaiResponsesApiDesc": "Send {model} through /v1/responses (reasoning summaries, chained tool calls). Turn off to use chat completions.",
 		"settings.security": "Security",
 		"settings.securityAvailable": "SecretStorage API is available (recommended)",
 		"settings.securityUnavailable": "SecretStorage API is not available. WebCrypto will be used",
@@ -100,19 +193,120 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.apiKeyTesting": "Testing...",
 		"settings.apiKeyNotSet": "API key is not set",
 		"settings.apiKeyDelete": "Delete",
+		"settings.azure": "Azure OpenAI",
+		"settings.openRouter": "OpenRouter",
+		"settings.openRouterDesc": "Credits and how OpenRouter routes requests to upstream providers.",
+		"settings.openRouterCredits": "Credits",
+		"settings.openRouterCreditsDesc": "Check the remaining credits of your API key.",
+		"settings.openRouterCheckCredits": "Check",
+		"settings.openRouterCheckingCredits": "Checking...",
+		"settings.openRouterCreditsRemaining": "Remaining: {remaining} of {limit}",
+		"settings.openRouterCreditsUnlimited": "No credit limit",
+		"settings.openRouterCreditsUsage": "used: {usage}",
+		"settings.openRouterFreeTier": "free tier",
+		"settings.openRouterProviderOrder": "Provider order",
+		"settings.openRouterProviderOrderDesc": "Comma-separated upstream providers to try first (e.g. anthropic, openai). Leave empty to let OpenRouter choose.",
+		"settings.openRouterProviderOrderPlaceholder": "anthropic, openai",
+		"settings.openRouterAllowFallbacks": "Allow provider fallbacks",
+		"settings.openRouterAllowFallbacksDesc": "Let OpenRouter use other providers when the preferred ones are unavailable.",
+		"settings.openRouterDenyDataCollection": "Deny data collection",
+		"settings.openRouterDenyDataCollectionDesc": "Only route to providers that do not store or train on your prompts.",
+		"settings.openRouterFallbackModels": "Fallback models",
+		"settings.openRouterFallbackModelsDesc": "Models OpenRouter tries in order if the selected model fails (one per line).",
+		"settings.openRouterFallbackModelsPlaceholder": "anthropic/claude-sonnet-4.6\nopenai/gpt-5.2",
+		"settings.openRouterMiddleOut": "Compress long prompts",
+		"settings.openRouterMiddleOutDesc": "Apply the middle-out transform to trim prompts that exceed the model's context window.",
+		"settings.azureDesc": "Chat and embeddings through your own Azure OpenAI resource. Models are selected by deployment name.",
+		"settings.azureEndpoint": "Resource endpoint",
+		"settings.azureEndpointDesc": "The endpoint shown in the Azure portal under keys and endpoint",
+		"settings.azureEndpointPlaceholder": "https://my-resource.openai.azure.com",
+		"settings.azureApiVersion": "API version",
+		"settings.azureDeployments": "Deployments",
+		"settings.azureDeploymentsDesc": "One deployment per line, as deployment=model (for example chat=gpt-5-mini). The model is used for pricing and parameters. Embedding deployments are offered for vault search.",
+		"settings.azureDeploymentsPlaceholder": "chat=gpt-5-mini\nembed=text-embedding-3-small",
 		"settings.customEndpoint": "Custom endpoint",
+		"settings.customEndpointDesc": "Connect to any number of OpenAI, Anthropic or Gemini compatible servers (vLLM, LM Studio, LiteLLM, proxies). Each one appears in the model selector.",
+		"settings.detectLocalServers": "Detect local servers",
+		"settings.detectLocalServersDesc": "Look for Ollama, LM Studio, llama.cpp, vLLM and Jan on localhost (ports 11434, 1234, 8080, 8000, 1337) and add each one found with its models",
+		"settings.customProviderAdd": "Add endpoint",
+		"settings.customProviderDefaultName": "Custom endpoint {n}",
+		"settings.customProviderName": "Name",
+		"settings.customProviderDelete": "Delete",
+		"settings.customProviderProtocol": "API format",
+		"settings.customProtocolOpenAI": "OpenAI chat completions",
+		"settings.customProtocolAnthropic": "Anthropic messages",
+		"settings.customProtocolGemini": "Gemini generateContent",
+		"settings.customProviderAuth": "Authentication",
+		"settings.customProviderAuthDesc": "How the API key is sent. The key itself is entered in the API keys section.",
+		"settings.customAuthBearer": "Authorization: Bearer",
+		"settings.customAuthHeader": "API key header",
+		"settings.customAuthNone": "None",
+		"settings.customProviderHeaders": "Extra headers",
+		"settings.customProviderHeadersDesc": "One header per line, as name: value",
+		"settings.customProviderHeadersPlaceholder": "X-Team: notes",
+		"settings.customProviderModels": "Models",
+		"settings.customProviderModelsDesc": "One model ID per line, or fetch the list from the server's /models endpoint",
+		"settings.customProviderEmbeddingModels": "Embedding models",
+		"settings.customProviderEmbeddingModelsDesc": "Detected on /embeddings: {models}. Select this provider under RAG → Embedding Provider to use them.",
+		"settings.customProviderToolUse": "Tool use",
+		"settings.customProviderToolUseDesc": "Native function calling for reading and editing notes. Auto sends a small test request once per model and uses tools only if the server answers with a tool call.",
+		"settings.customToolUseAuto": "Auto-detect",
+		"settings.customToolUseOn": "Always",
+		"settings.customToolUseOff": "Never (text tags)",
+		"settings.toolProbeReset": "Re-check",
+		"settings.endpointOverrides": "Connection overrides",
+		"settings.endpointOverridesDesc": "Route built-in providers through a proxy or gateway. Applies to chat, model lists, key tests and embeddings.",
+		"settings.debugLog": "Debug log",
+		"settings.debugLogEnabled": "Record requests and responses",
+		"settings.debugLogEnabledDesc": "Log each API request (endpoint, headers with keys redacted, body), its status, latency, raw response or stream events, and retry/fallback decisions to debug-log.jsonl in the plugin folder. Open the log for a reply from the bug icon on the message. Request bodies include your note content.",
+		"settings.debugLogExport": "Export for bug reports",
+		"settings.debugLogExportDesc": "Write the recorded log to a note in the vault root. Review it before sharing.",
+		"settings.debugLogExportButton": "Export",
+		"settings.debugLogClear": "Clear log",
+		"settings.replay": "Record & replay",
+		"settings.replayDesc": "For offline development, demos and reproducing bugs. Adds a \"Replay\" provider to the model selector.",
+		"settings.replayMode": "Mode",
+		"settings.replayModeDesc": "Record: send to the target provider and save each request/response (streaming timing and tool-use rounds included) as a fixture. Replay: answer from saved fixtures with no network access or API cost.",
+		"settings.replayModeOff": "Off",
+		"settings.replayModeRecord": "Record",
+		"settings.replayModeReplay": "Replay",
+		"settings.replayTarget": "Target provider",
+		"settings.replayTargetDesc": "Provider whose models and message format are recorded and replayed",
+		"settings.replayFolder": "Fixtures folder",
+		"settings.replayFolderDesc": "Vault-relative folder for fixture files. Leave empty to use the plugin folder.",
+		"settings.replayFolderPlaceholder": "fixtures in the plugin folder",
+		"settings.replayTiming": "Replay with recorded timing",
+		"settings.replayTimingDesc": "Reproduce the original token intervals. Turn off to output replies instantly.",
+		"settings.replayFixtures": "Saved fixtures",
+		"settings.replayFixturesCount": "{count} fixtures",
+		"settings.replayFixturesClear": "Delete all",
+		"settings.endpointOverrideBaseUrl": "Base URL (leave empty for the default)",
+		"settings.endpointOverrideQuery": "Query parameters",
+		"settings.endpointOverrideQueryDesc": "One parameter per line, as name=value",
+		"settings.endpointOverrideQueryPlaceholder": "api-version=2024-10-21",
 		"settings.endpointUrl": "Endpoint URL",
-		"settings.endpointUrlDesc": "OpenAI-compatible API URL (e.g. http://localhost:8080/v1/chat/completions)",
-		"settings.endpointUrlPlaceholder": "Enter endpoint URL",
-		"settings.modelId": "Model ID",
-		"settings.modelIdDesc": "Identifier of the model to use",
+		"settings.endpointUrlDesc": "Base URL of the API, without the chat path (e.g. http://localhost:8000/v1)",
+		"settings.endpointUrlPlaceholder": "Enter base URL",
 		"settings.modelIdPlaceholder": "Enter model ID",
 		"settings.advanced": "Advanced settings",
 		"settings.advancedAccordion": "Advanced settings (RAG / Embedding)",
 		"settings.streaming": "Streaming mode",
 		"settings.streamingDesc": "Show response in real-time (supported providers only)",
+		"settings.promptCaching": "Prompt caching",
+		"settings.promptCachingDesc": "Cache instructions, attached notes and conversation history on Anthropic models so follow-up turns on long documents are cheaper and faster. Cache writes cost 25% more than normal input.",
 		"settings.temperature": "Temperature",
 		"settings.temperatureDesc": "Creativity of generation (0.0=deterministic, 1.0=creative). Default: 0.7",
+		"settings.temperatureUnsupported": "The selected model does not accept a temperature (reasoning models use a fixed value)",
+		"settings.reasoningEffort": "Reasoning",
+		"settings.reasoningEffortDesc": "Ask reasoning-capable models to think before answering (Claude extended thinking, OpenAI reasoning effort, Gemini thinking). Higher levels are slower and use more tokens",
+		"settings.reasoningUnsupported": "The selected model does not support reasoning",
+		"settings.reasoningOff": "Off",
+		"settings.reasoningLow": "Low",
+		"settings.reasoningMedium": "Medium",
+		"settings.reasoningHigh": "High",
+		"settings.fallbackChain": "Fallback models",
+		"settings.fallbackChainDesc": "Tried in order when the current provider is rate limited, overloaded or unavailable. One \"provider:model\" per line (provider IDs: anthropic, openai, gemini, openrouter, ollama, custom)",
+		"settings.fallbackChainPlaceholder": "openai:gpt-5.4\ngemini:gemini-2.5-pro",
 		"settings.preset": "Preset",
 		"settings.presetDesc": "Frequently used system prompt templates",
 		"settings.systemPrompt": "System prompt",
@@ -158,14 +352,29 @@ const translations: Record<Locale, Record<string, string>> = {
 		// Note context
 		"context.header": "The following notes are referenced from the user's Obsidian Vault:",
 		"context.activeNote": "Currently open note:",
+		"context.conversationSummary": "Summary of the earlier part of this conversation (older messages are omitted):",
+		"context.summaryInstruction": "Summarize the conversation below so it can replace the original messages. Keep facts, decisions, open questions, file names and user preferences. If a previous summary is included, merge it into the new one. Write in the language of the conversation and keep it under {tokens} tokens. Output only the summary.",
 		"context.vaultFiles": "Files in vault (user can reference any file using [[filename]] in their message and its content will be automatically loaded):",
 		"context.linkedFiles": "Referenced notes from user's message:",
 
 		// File picker
 		"filePicker.placeholder": "Search notes...",
+		"filePicker.imagePlaceholder": "Search images...",
+		"filePicker.pdfPlaceholder": "Search PDFs...",
 
 		// Message editing
 		"message.edit": "Edit",
+		"message.inspect": "Inspect request",
+		"message.contextTrimmed": "Context trimmed to fit the model (~{tokens} / {budget} tokens)",
+		"message.contextTrimMessages": "{count} earlier messages omitted",
+		"message.contextTrimMessagesSummarized": "{count} earlier messages replaced by a summary",
+		"message.contextTrimRag": "{count} RAG results dropped: {names}",
+		"message.contextTrimLinked": "{count} linked notes dropped: {names}",
+		"message.contextOverBudget": "Still over the context window after trimming — the request may fail. Remove attached notes or start a new chat.",
+		"message.reasoning": "Reasoning",
+		"message.usage": "Tokens — input: {input}, output: {output}",
+		"message.via": "{model} via {provider}",
+		"message.usageCache": "Cache — read: {read}, written: {write}",
 
 		// API key URLs
 		"settings.apiKeyUrl": "Get API key: {url}",
@@ -214,6 +423,22 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.refreshingModels": "Refreshing...",
 		"notice.modelsRefreshed": "Model list updated ({count} models)",
 		"notice.modelsRefreshFailed": "Failed to refresh models: {message}",
+		"notice.toolProbeRunning": "Checking tool support for {model}...",
+		"notice.debugLogEmpty": "The debug log is empty",
+		"notice.debugLogExported": "Debug log exported to {path}",
+		"notice.debugLogExportFailed": "Failed to export the debug log: {error}",
+		"notice.debugLogCleared": "Debug log cleared",
+		"notice.replayFixturesCleared": "Deleted {count} fixtures",
+		"notice.toolProbeReset": "Tool support for {name} will be checked again on the next message",
+		"notice.localDiscoveryRunning": "Scanning localhost for LLM servers...",
+		"notice.localDiscoveryNone": "No local LLM servers found",
+		"notice.localDiscoveryFound": "Found local servers (model count): {servers}",
+		"notice.ollamaPulled": "Downloaded {model}",
+		"notice.ollamaPullFailed": "Failed to download {model}: {message}",
+		"notice.ollamaDeleted": "Deleted {model}",
+		"notice.ollamaDeleteFailed": "Failed to delete {model}: {message}",
+		"notice.azureDeploymentsFailed": "Could not list deployments ({message}). Enter deployment names manually.",
+		"notice.openRouterCreditsFailed": "Could not check OpenRouter credits ({message})",
 		"notice.modelsRefreshNoKey": "API key required to refresh models",
 
 		// Rate limit (429)
@@ -263,6 +488,7 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.ragClearEmbeddingIndex": "Clear Embedding Index",
 		"settings.ragEmbeddingGeminiTip": "Gemini offers a free tier (100 RPM, 1000 RPD). Great for getting started.",
 		"settings.ragEmbeddingOllamaTip": "Ollama runs locally — no API key needed, no data sent externally.",
+		"settings.ragEmbeddingAzureTip": "Uses the embedding deployments (text-embedding-*) from the Azure OpenAI settings. Data stays in your Azure tenant.",
 		"settings.ragEmbeddingOllamaMobileTip": "On mobile, 'localhost' refers to your phone, not your PC. Use your PC's IP address (e.g. 192.168.x.x:11434) to connect to Ollama from mobile.",
 		"settings.ragEmbeddingCompactMode": "Compact mode (reduced dimensions)",
 		"settings.ragEmbeddingCompactModeDesc": "Reduces embedding dimensions to save ~66% memory and storage. Recommended for mobile and large vaults. Minimal impact on search quality.",
@@ -301,18 +527,52 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.contextScope": "Context Scope",
 		"settings.defaultScope": "Default scope",
 		"settings.defaultScopeDesc": "This Page: current note only (fastest). Linked Pages: + linked notes. Vault: full RAG search + file list",
+		"settings.autoAttachImages": "Send embedded images",
+		"settings.autoAttachImagesDesc": "Attach images embedded in the active note (![[image.png]]) when the model accepts image input",
+		"settings.contextTrim": "Fit conversation to context window",
+		"settings.contextTrimDesc": "Before sending, estimate the prompt size and, if it exceeds the model's context window, drop the oldest turns first, then RAG results, then linked notes. What was dropped is shown on the reply",
+		"settings.contextSummary": "Summarize omitted messages",
+		"settings.contextSummaryDesc": "Replace omitted turns with a running summary of the conversation (uses an extra request to the same model when turns are dropped)",
+
+		// Cost & budget
+		"settings.cost": "Usage cost",
+		"settings.costThisMonth": "This month: {cost}",
+		"settings.costThisMonthDesc": "Estimated from token usage and model pricing. Models without pricing data are counted as $0",
+		"settings.costBreakdownRow": "{provider} / {model}: {requests} requests, {cost}",
+		"settings.costReset": "Reset",
+		"settings.budgetMonthly": "Monthly budget (USD)",
+		"settings.budgetMonthlyDesc": "Block sending once this month's estimated cost reaches this amount. 0 or empty = unlimited",
+		"settings.budgetConversation": "Per-conversation budget (USD)",
+		"settings.budgetConversationDesc": "Block sending in a conversation once its estimated cost reaches this amount. 0 or empty = unlimited",
+		"settings.budgetWarnRatio": "Warning threshold",
+		"settings.budgetWarnRatioDesc": "Show a warning when this fraction of a budget has been used. Default: 0.8",
+		"notice.costLedgerReset": "Usage cost history reset",
+		"notice.structuredRunning": "Asking the model...",
+		"notice.structuredFailed": "Could not get a valid response: {error}",
+		"notice.tagsAdded": "Added {count} tag(s) to frontmatter",
+		"notice.tasksExtracted": "Inserted {count} task(s)",
+		"notice.noTasksFound": "No tasks found",
+		"structured.suggestTags.prompt": "Suggest up to 10 concise tags (lowercase, no spaces, no leading #) that describe the following note:\n\n",
+		"structured.extractTasks.prompt": "Extract the action items from the following text. Write each task as a short imperative sentence in the language of the text. Set due to a YYYY-MM-DD date only if one is stated, otherwise an empty string:\n\n",
 	},
 
 	ja: {
 		// Command palette
 		"command.openChat": "チャットパネルを開く",
+		"command.suggestTags": "現在のノートのタグを提案",
+		"command.extractTasks": "選択範囲またはノートからタスクを抽出",
+		"command.detectLocalServers": "ローカルLLMサーバーを検出",
 
 		// Header / toolbar
 		"header.history": "会話履歴",
 		"header.settings": "設定",
 		"header.newChat": "新規チャット",
+		"header.compare": "モデルを比較",
+		"header.generationParams": "生成パラメータ",
 		"toolbar.attachActive": "アクティブノートを添付",
 		"toolbar.pickFile": "ノートを選択",
+		"toolbar.attachImage": "画像を添付",
+		"toolbar.attachPdf": "PDFを添付",
 		"toolbar.copy": "コピー",
 		"toolbar.insertToNote": "ノートに挿入",
 
@@ -329,6 +589,7 @@ const translations: Record<Locale, Record<string, string>> = {
 
 		// Generating
 		"chat.generating": "生成中",
+		"chat.retrying": "{seconds}秒後に再試行（{attempt}/{max}回目）",
 		"chat.stop": "停止",
 		"chat.stopped": "（生成を停止しました）",
 		"chat.regenerate": "再生成",
@@ -343,6 +604,18 @@ const translations: Record<Locale, Record<string, string>> = {
 		// Notices
 		"notice.noActiveNote": "アクティブなノートがありません",
 		"notice.attached": "{name} を添付しました",
+		"notice.imagesNotSupported": "{model} は画像入力に対応していないため、画像は送信されませんでした",
+		"notice.imagesTooLarge": "モデルのサイズ上限を超える画像は送信されませんでした: {names}",
+		"notice.imagesTooMany": "送信できる画像は最新の{max}枚までです。除外: {names}",
+		"notice.pdfReadFailed": "PDFの読み込みに失敗しました: {name}",
+		"notice.pdfAsText": "{model} ではPDFを直接送信できないため、抽出テキストとして送信しました: {names}",
+		"notice.pdfTruncated": "コンテキストウィンドウに収めるため、PDFのテキストを切り詰めました: {names}",
+		"notice.pdfNoText": "テキストを抽出できなかったPDFは送信しませんでした: {names}",
+		"notice.compareNeedsModels": "比較するモデルを2つ以上選択してください",
+		"notice.compareOn": "比較モード: {names} に送信します",
+		"notice.compareSkipped": "無効またはAPIキー未設定のため除外しました: {names}",
+		"notice.compareSelectFirst": "会話を続ける応答を選んでください",
+		"notice.contextSummaryFailed": "以前のメッセージを要約できなかったため、要約なしで省略しました",
 		"notice.alreadyAttachedOrLimit": "既に添付済みか、トークン上限を超えています",
 		"notice.copied": "コピーしました",
 		"notice.noMessageToInsert": "挿入するメッセージがありません",
@@ -357,11 +630,56 @@ const translations: Record<Locale, Record<string, string>> = {
 		// Errors
 		"error.providerNotFound": "プロバイダーが見つかりません",
 		"error.apiKeyNotSet": "{name} のAPIキーが設定されていません。設定画面からAPIキーを入力してください。",
+		"error.compareNoTargets": "比較に選んだモデルを使用できません。プロバイダーが有効で、APIキーが設定されているか確認してください。",
 		"error.occurred": "エラーが発生しました: {message}",
+		"error.budgetExceeded.monthly": "月間予算を超過しました（{spent} / {limit}）。送信を続けるには設定画面で上限を引き上げてください。",
+		"error.budgetExceeded.conversation": "この会話の予算を超過しました（{spent} / {limit}）。新規チャットを開始するか、設定画面で上限を引き上げてください。",
+		"notice.budgetWarning.monthly": "月間予算に近づいています: {spent} / {limit} 使用済み",
+		"notice.budgetWarning.conversation": "会話の予算に近づいています: {spent} / {limit} 使用済み",
+		"notice.fallback": "{from} が利用できないため {to} に切り替えました",
 
 		// Conversation
 		"conversation.title": "会話履歴",
 		"conversation.empty": "会話履歴がありません",
+		"debug.title": "リクエストの確認",
+		"compare.title": "モデルを比較",
+		"compare.desc": "メッセージをこれらのモデルに並列に送信します（最大{max}件）。最も良い応答を選ぶと、そのモデルで会話を続けます。",
+		"compare.column": "モデル {n}",
+		"compare.remove": "削除",
+		"compare.add": "モデルを追加",
+		"compare.start": "比較を開始",
+		"compare.latency": "{seconds}秒",
+		"compare.pick": "この応答を使う",
+		"compare.selected": "選択済み",
+		"params.title": "生成パラメータ",
+		"params.scope": "適用先",
+		"params.scopeModel": "このモデル（{name}）",
+		"params.scopeProvider": "{name} の全モデル",
+		"params.temperature": "Temperature",
+		"params.maxTokens": "最大出力トークン数",
+		"params.topP": "Top P",
+		"params.topK": "Top K",
+		"params.stop": "停止シーケンス",
+		"params.stopPlaceholder": "1行に1つ",
+		"params.reasoning": "推論",
+		"params.reasoningBudget": "推論の予算（トークン）",
+		"params.seed": "シード",
+		"params.inherit": "継承（{value}）",
+		"params.default": "モデルの既定値",
+		"params.unsupported": "このモデルは非対応（送信しません）",
+		"params.desc": "空欄の項目はプロバイダーの設定、次に全体の設定を使います",
+		"params.reset": "リセット",
+		"debug.notFound": "この応答のログはありません。ファイルの切り替えまたは削除で消えた可能性があります。",
+		"debug.partial": "{total} 件中 {found} 件のリクエストを表示しています（古い記録は切り替えで削除済み）",
+		"debug.copy": "JSONでコピー",
+		"debug.copied": "コピーしました",
+		"debug.noResponse": "応答なし",
+		"debug.firstByte": "ヘッダー受信 {ms} ms",
+		"debug.latency": "合計 {ms} ms",
+		"debug.requestHeaders": "リクエストヘッダー",
+		"debug.requestBody": "リクエストボディ",
+		"debug.events": "ストリームのイベント（{count}）",
+		"debug.response": "レスポンス",
 		"conversation.messages": "{count}メッセージ",
 		"conversation.delete": "削除",
 		"conversation.newChat": "新しいチャット",
@@ -376,6 +694,34 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.ollamaMobileWarning": "OllamaはPC環境専用です。モバイルでは「localhost」はスマホ自身を指すため、PC上のOllamaには接続できません。",
 		"settings.model": "モデル",
 		"settings.modelDesc": "使用するモデルを選択",
+		"settings.modelCapabilities": "対応機能: {list}",
+		"capability.tools": "ツール",
+		"capability.vision": "画像",
+		"capability.pdf": "PDF",
+		"capability.reasoning": "推論",
+		"capability.jsonMode": "JSON モード",
+		"capability.maxOutput": "最大出力 {tokens} トークン",
+		"capability.none": "テキストのみ",
+		"settings.ollama": "Ollama",
+		"settings.ollamaDesc": "ネイティブ Ollama API のオプションと、サーバーにインストールされたモデルの管理",
+		"settings.ollamaNumCtx": "コンテキスト長（num_ctx）",
+		"settings.ollamaNumCtxDesc": "リクエストごとにサーバーが確保するコンテキストのトークン数。空欄でサーバー既定。各モデルの最大長が上限です。",
+		"settings.ollamaKeepAlive": "モデルの保持時間",
+		"settings.ollamaKeepAliveDesc": "リクエスト後にモデルをメモリに保持する時間（例: 10m、1h、-1 で常駐）。空欄でサーバー既定。",
+		"settings.ollamaKeepAlivePlaceholder": "5m",
+		"settings.ollamaToolProbe": "Tool Use の対応",
+		"settings.ollamaToolProbeDesc": "各モデルの初回送信前に一度だけ確認します。ツール呼び出し非対応のモデルはテキストタグ方式でノートを読み込みます。",
+		"settings.ollamaInstalled": "インストール済みモデル",
+		"settings.ollamaInstalledEmpty": "モデルがインストールされていません。",
+		"settings.ollamaLoading": "読み込み中...",
+		"settings.ollamaListFailed": "モデル一覧を取得できませんでした: {message}",
+		"settings.ollamaDeleteModel": "削除",
+		"settings.ollamaPull": "モデルをダウンロード",
+		"settings.ollamaPullDesc": "Ollama ライブラリのモデル名",
+		"settings.ollamaPullPlaceholder": "qwen3:8b",
+		"settings.ollamaPullButton": "ダウンロード",
+		"settings.openaiResponsesApi": "Responses API を使用",
+		"settings.openaiResponsesApiDesc": "{model} を /v1/responses で送信します（推論の要約、ツール呼び出しの連結）。OFF の場合は Chat Completions を使用します。",
 		"settings.security": "セキュリティ",
 		"settings.securityAvailable": "SecretStorage APIが利用可能です（推奨）",
 		"settings.securityUnavailable": "SecretStorage APIは利用できません。WebCryptoが使用されます",
@@ -391,19 +737,120 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.apiKeyTesting": "検証中...",
 		"settings.apiKeyNotSet": "APIキーが設定されていません",
 		"settings.apiKeyDelete": "削除",
+		"settings.azure": "Azure OpenAI",
+		"settings.openRouter": "OpenRouter",
+		"settings.openRouterDesc": "クレジット残高と、上流プロバイダーへのルーティング",
+		"settings.openRouterCredits": "クレジット",
+		"settings.openRouterCreditsDesc": "API キーのクレジット残高を確認します。",
+		"settings.openRouterCheckCredits": "確認",
+		"settings.openRouterCheckingCredits": "確認中...",
+		"settings.openRouterCreditsRemaining": "残高: {remaining}（上限 {limit}）",
+		"settings.openRouterCreditsUnlimited": "上限なし",
+		"settings.openRouterCreditsUsage": "使用量: {usage}",
+		"settings.openRouterFreeTier": "無料枠",
+		"settings.openRouterProviderOrder": "プロバイダーの優先順",
+		"settings.openRouterProviderOrderDesc": "優先する上流プロバイダーをカンマ区切りで指定します（例: anthropic, openai）。空欄の場合は OpenRouter が選びます。",
+		"settings.openRouterProviderOrderPlaceholder": "anthropic, openai",
+		"settings.openRouterAllowFallbacks": "他のプロバイダーへのフォールバックを許可",
+		"settings.openRouterAllowFallbacksDesc": "優先するプロバイダーが利用できない場合に他のプロバイダーを使います。",
+		"settings.openRouterDenyDataCollection": "データ収集を拒否",
+		"settings.openRouterDenyDataCollectionDesc": "プロンプトを保存・学習に使わないプロバイダーにのみルーティングします。",
+		"settings.openRouterFallbackModels": "フォールバックモデル",
+		"settings.openRouterFallbackModelsDesc": "選択中のモデルが失敗した場合に順に試すモデル（1行に1つ）",
+		"settings.openRouterFallbackModelsPlaceholder": "anthropic/claude-sonnet-4.6\nopenai/gpt-5.2",
+		"settings.openRouterMiddleOut": "長いプロンプトを圧縮",
+		"settings.openRouterMiddleOutDesc": "コンテキストウィンドウを超えるプロンプトを middle-out 変換で中間から削ります。",
+		"settings.azureDesc": "自組織の Azure OpenAI リソースでチャットと Embedding を利用します。モデルはデプロイ名で選択します。",
+		"settings.azureEndpoint": "リソースのエンドポイント",
+		"settings.azureEndpointDesc": "Azure ポータルの「キーとエンドポイント」に表示されるURL",
+		"settings.azureEndpointPlaceholder": "https://my-resource.openai.azure.com",
+		"settings.azureApiVersion": "APIバージョン",
+		"settings.azureDeployments": "デプロイメント",
+		"settings.azureDeploymentsDesc": "1行に1つ、デプロイ名=モデル の形式で入力（例: chat=gpt-5-mini）。モデル名は料金とパラメータの判定に使います。Embedding のデプロイメントはVault検索で選択できます。",
+		"settings.azureDeploymentsPlaceholder": "chat=gpt-5-mini\nembed=text-embedding-3-small",
 		"settings.customEndpoint": "カスタムエンドポイント",
+		"settings.customEndpointDesc": "OpenAI・Anthropic・Gemini 互換のサーバー（vLLM、LM Studio、LiteLLM、プロキシ等）をいくつでも追加できます。追加したものはモデル選択に表示されます。",
+		"settings.detectLocalServers": "ローカルサーバーを検出",
+		"settings.detectLocalServersDesc": "localhost で動作中の Ollama・LM Studio・llama.cpp・vLLM・Jan（ポート 11434, 1234, 8080, 8000, 1337）を探し、見つかったものをモデル一覧ごと追加します",
+		"settings.customProviderAdd": "エンドポイントを追加",
+		"settings.customProviderDefaultName": "カスタムエンドポイント {n}",
+		"settings.customProviderName": "名前",
+		"settings.customProviderDelete": "削除",
+		"settings.customProviderProtocol": "API形式",
+		"settings.customProtocolOpenAI": "OpenAI chat completions",
+		"settings.customProtocolAnthropic": "Anthropic messages",
+		"settings.customProtocolGemini": "Gemini generateContent",
+		"settings.customProviderAuth": "認証方式",
+		"settings.customProviderAuthDesc": "API鍵の送り方。鍵はAPI鍵セクションで入力します。",
+		"settings.customAuthBearer": "Authorization: Bearer",
+		"settings.customAuthHeader": "API鍵ヘッダー",
+		"settings.customAuthNone": "なし",
+		"settings.customProviderHeaders": "追加ヘッダー",
+		"settings.customProviderHeadersDesc": "1行に1つ、名前: 値 の形式で入力",
+		"settings.customProviderHeadersPlaceholder": "X-Team: notes",
+		"settings.customProviderModels": "モデル",
+		"settings.customProviderModelsDesc": "1行に1つモデルIDを入力するか、サーバーの /models から一覧を取得します",
+		"settings.customProviderEmbeddingModels": "Embeddingモデル",
+		"settings.customProviderEmbeddingModelsDesc": "/embeddings で確認済み: {models}。RAG の Embeddingプロバイダーでこのプロバイダーを選択すると使用できます。",
+		"settings.customProviderToolUse": "Tool Use",
+		"settings.customProviderToolUseDesc": "ネイティブの関数呼び出しでノートの読み込み・編集を行います。自動判定ではモデルごとに一度だけ小さな試験リクエストを送り、ツール呼び出しが返った場合のみ使用します。",
+		"settings.customToolUseAuto": "自動判定",
+		"settings.customToolUseOn": "常に使用",
+		"settings.customToolUseOff": "使用しない（テキストタグ）",
+		"settings.toolProbeReset": "再判定",
+		"settings.endpointOverrides": "接続先の上書き",
+		"settings.endpointOverridesDesc": "組み込みプロバイダーをプロキシやゲートウェイ経由で利用します。チャット・モデル一覧・API鍵テスト・Embedding に適用されます。",
+		"settings.debugLog": "デバッグログ",
+		"settings.debugLogEnabled": "リクエストとレスポンスを記録",
+		"settings.debugLogEnabledDesc": "APIリクエストごとに接続先・ヘッダー（API鍵はマスク）・ボディ、ステータス・所要時間・生のレスポンスまたはストリームのイベント、リトライ・フォールバックの判断をプラグインフォルダの debug-log.jsonl に記録します。各応答のログはメッセージの虫アイコンから開けます。リクエストボディにはノートの内容が含まれます。",
+		"settings.debugLogExport": "不具合報告用に書き出し",
+		"settings.debugLogExportDesc": "記録したログを Vault 直下のノートに書き出します。共有する前に内容を確認してください。",
+		"settings.debugLogExportButton": "書き出し",
+		"settings.debugLogClear": "ログを削除",
+		"settings.replay": "記録・再生",
+		"settings.replayDesc": "オフラインでの開発・デモ・不具合の再現用です。モデル選択に「Replay」プロバイダーが追加されます。",
+		"settings.replayMode": "モード",
+		"settings.replayModeDesc": "記録: 対象プロバイダーに送信し、リクエストと応答（ストリーミングのタイミング・Tool Use の各ラウンドを含む）をフィクスチャとして保存します。再生: 保存済みのフィクスチャから応答し、通信・API料金は発生しません。",
+		"settings.replayModeOff": "オフ",
+		"settings.replayModeRecord": "記録",
+		"settings.replayModeReplay": "再生",
+		"settings.replayTarget": "対象プロバイダー",
+		"settings.replayTargetDesc": "記録・再生するプロバイダー（モデル一覧とメッセージ形式に使用）",
+		"settings.replayFolder": "フィクスチャの保存先",
+		"settings.replayFolderDesc": "Vault からの相対パス。空欄の場合はプラグインフォルダに保存します。",
+		"settings.replayFolderPlaceholder": "プラグインフォルダの fixtures",
+		"settings.replayTiming": "記録時のタイミングで再生",
+		"settings.replayTimingDesc": "トークンの出力間隔を再現します。オフにすると応答を即座に出力します。",
+		"settings.replayFixtures": "保存済みのフィクスチャ",
+		"settings.replayFixturesCount": "{count} 件",
+		"settings.replayFixturesClear": "すべて削除",
+		"settings.endpointOverrideBaseUrl": "ベースURL（空欄で既定）",
+		"settings.endpointOverrideQuery": "クエリパラメータ",
+		"settings.endpointOverrideQueryDesc": "1行に1つ、名前=値 の形式で入力",
+		"settings.endpointOverrideQueryPlaceholder": "api-version=2024-10-21",
 		"settings.endpointUrl": "エンドポイントURL",
-		"settings.endpointUrlDesc": "OpenAI互換APIのURL（例: http://localhost:8080/v1/chat/completions）",
-		"settings.endpointUrlPlaceholder": "エンドポイントURLを入力",
-		"settings.modelId": "モデルID",
-		"settings.modelIdDesc": "使用するモデルの識別子",
+		"settings.endpointUrlDesc": "APIのベースURL（チャットのパスは含めない。例: http://localhost:8000/v1）",
+		"settings.endpointUrlPlaceholder": "ベースURLを入力",
 		"settings.modelIdPlaceholder": "モデルIDを入力",
 		"settings.advanced": "詳細設定",
 		"settings.advancedAccordion": "高度な設定（RAG / Embedding）",
 		"settings.streaming": "ストリーミングモード",
 		"settings.streamingDesc": "レスポンスをリアルタイムで表示（対応プロバイダーのみ）",
+		"settings.promptCaching": "プロンプトキャッシュ",
+		"settings.promptCachingDesc": "Anthropic のモデルで指示・添付ノート・会話履歴をキャッシュし、長い文書での2回目以降の応答を安く・速くします。キャッシュへの書き込みは通常の入力より25%割高です。",
 		"settings.temperature": "Temperature",
 		"settings.temperatureDesc": "生成の創造性（0.0=確定的、1.0=創造的）。初期値: 0.7",
+		"settings.temperatureUnsupported": "選択中のモデルは temperature を指定できません（推論モデルは固定値を使用します）",
+		"settings.reasoningEffort": "推論",
+		"settings.reasoningEffortDesc": "推論対応モデルに回答前の思考を要求します（Claude extended thinking、OpenAI reasoning effort、Gemini thinking）。レベルが高いほど時間とトークンを消費します",
+		"settings.reasoningUnsupported": "選択中のモデルは推論に対応していません",
+		"settings.reasoningOff": "オフ",
+		"settings.reasoningLow": "低",
+		"settings.reasoningMedium": "中",
+		"settings.reasoningHigh": "高",
+		"settings.fallbackChain": "フォールバックモデル",
+		"settings.fallbackChainDesc": "現在のプロバイダーがレート制限・過負荷・障害で利用できない場合に順に試します。1行に1件「provider:model」の形式で指定（プロバイダーID: anthropic, openai, gemini, openrouter, ollama, custom）",
+		"settings.fallbackChainPlaceholder": "openai:gpt-5.4\ngemini:gemini-2.5-pro",
 		"settings.preset": "プリセット",
 		"settings.presetDesc": "よく使うシステムプロンプトのテンプレート",
 		"settings.systemPrompt": "システムプロンプト",
@@ -449,14 +896,29 @@ const translations: Record<Locale, Record<string, string>> = {
 		// Note context
 		"context.header": "以下はユーザーのObsidian Vaultから参照されたノートです:",
 		"context.activeNote": "現在開いているノート:",
+		"context.conversationSummary": "この会話の前半の要約（古いメッセージは省略しています）:",
+		"context.summaryInstruction": "以下の会話を、元のメッセージの代わりに使える要約にしてください。事実・決定事項・未解決の質問・ファイル名・ユーザーの好みを残してください。以前の要約が含まれている場合は新しい要約に統合してください。会話と同じ言語で、{tokens}トークン以内に収め、要約だけを出力してください。",
 		"context.vaultFiles": "Vault内のファイル一覧（ユーザーはメッセージ中に[[ファイル名]]と書くことで、そのファイルの内容が自動的に読み込まれます）:",
 		"context.linkedFiles": "ユーザーのメッセージから参照されたノート:",
 
 		// File picker
 		"filePicker.placeholder": "ノートを検索...",
+		"filePicker.imagePlaceholder": "画像を検索...",
+		"filePicker.pdfPlaceholder": "PDFを検索...",
 
 		// Message editing
 		"message.edit": "編集",
+		"message.inspect": "リクエストを確認",
+		"message.contextTrimmed": "モデルのコンテキストに収めるため一部を省略（約{tokens} / {budget}トークン）",
+		"message.contextTrimMessages": "以前のメッセージ{count}件を省略",
+		"message.contextTrimMessagesSummarized": "以前のメッセージ{count}件を要約に置き換え",
+		"message.contextTrimRag": "RAG検索結果{count}件を省略: {names}",
+		"message.contextTrimLinked": "リンク先ノート{count}件を省略: {names}",
+		"message.contextOverBudget": "省略後もコンテキストウィンドウを超えています。リクエストが失敗する可能性があります。添付ノートを外すか、新しいチャットを開始してください。",
+		"message.reasoning": "推論",
+		"message.usage": "トークン — 入力: {input}、出力: {output}",
+		"message.via": "{model}（{provider} 経由）",
+		"message.usageCache": "キャッシュ — 読み込み: {read}、書き込み: {write}",
 
 		// API key URLs
 		"settings.apiKeyUrl": "APIキー取得: {url}",
@@ -505,6 +967,22 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.refreshingModels": "更新中...",
 		"notice.modelsRefreshed": "モデル一覧を更新しました（{count}件）",
 		"notice.modelsRefreshFailed": "モデル一覧の更新に失敗: {message}",
+		"notice.toolProbeRunning": "{model} の Tool Use 対応を確認中...",
+		"notice.debugLogEmpty": "デバッグログは空です",
+		"notice.debugLogExported": "デバッグログを {path} に書き出しました",
+		"notice.debugLogExportFailed": "デバッグログの書き出しに失敗しました: {error}",
+		"notice.debugLogCleared": "デバッグログを削除しました",
+		"notice.replayFixturesCleared": "フィクスチャを {count} 件削除しました",
+		"notice.toolProbeReset": "{name} の Tool Use 対応は次回送信時に再確認されます",
+		"notice.localDiscoveryRunning": "localhost のLLMサーバーを検索中...",
+		"notice.localDiscoveryNone": "ローカルLLMサーバーは見つかりませんでした",
+		"notice.localDiscoveryFound": "ローカルサーバーを検出しました（モデル数）: {servers}",
+		"notice.ollamaPulled": "{model} をダウンロードしました",
+		"notice.ollamaPullFailed": "{model} のダウンロードに失敗: {message}",
+		"notice.ollamaDeleted": "{model} を削除しました",
+		"notice.ollamaDeleteFailed": "{model} の削除に失敗: {message}",
+		"notice.azureDeploymentsFailed": "デプロイメント一覧を取得できませんでした（{message}）。デプロイ名を手入力してください。",
+		"notice.openRouterCreditsFailed": "OpenRouter のクレジットを確認できませんでした（{message}）",
 		"notice.modelsRefreshNoKey": "モデル一覧の更新にはAPIキーが必要です",
 
 		// Rate limit (429)
@@ -554,6 +1032,7 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.ragClearEmbeddingIndex": "Embeddingインデックスをクリア",
 		"settings.ragEmbeddingGeminiTip": "Geminiには無料枠（100リクエスト/分, 1000リクエスト/日）があります。お試しに最適です。",
 		"settings.ragEmbeddingOllamaTip": "Ollamaはローカル実行 — APIキー不要、データは外部に送信されません。",
+		"settings.ragEmbeddingAzureTip": "Azure OpenAI 設定の Embedding デプロイメント（text-embedding-*）を使用します。データは自組織の Azure テナント内で処理されます。",
 		"settings.ragEmbeddingOllamaMobileTip": "モバイルでは「localhost」はスマホ自身を指します。PCのIPアドレス（例: 192.168.x.x:11434）を指定してOllamaに接続してください。",
 		"settings.ragEmbeddingCompactMode": "省メモリモード（次元削減）",
 		"settings.ragEmbeddingCompactModeDesc": "Embeddingの次元数を削減し、メモリとストレージを約66%節約します。モバイルや大規模Vaultで推奨。検索精度への影響は軽微です。",
@@ -592,6 +1071,33 @@ const translations: Record<Locale, Record<string, string>> = {
 		"settings.contextScope": "コンテキストスコープ",
 		"settings.defaultScope": "デフォルトスコープ",
 		"settings.defaultScopeDesc": "このページ: 現在のノートのみ（最速）。隣接ページ: ＋リンク先ノート。Vault全体: RAG検索＋ファイル一覧",
+		"settings.autoAttachImages": "埋め込み画像を送信",
+		"settings.autoAttachImagesDesc": "モデルが画像入力に対応している場合、アクティブノートに埋め込まれた画像（![[image.png]]）を添付します",
+		"settings.contextTrim": "コンテキストウィンドウに収める",
+		"settings.contextTrimDesc": "送信前にプロンプトのサイズを概算し、モデルのコンテキストウィンドウを超える場合は古いターン → RAG検索結果 → リンク先ノートの順に省略します。省略した内容は応答に表示されます",
+		"settings.contextSummary": "省略したメッセージを要約",
+		"settings.contextSummaryDesc": "省略したターンを会話の要約に置き換えます（省略が発生したときに同じモデルへ追加のリクエストを送ります）",
+
+		// コスト・予算
+		"settings.cost": "利用コスト",
+		"settings.costThisMonth": "今月: {cost}",
+		"settings.costThisMonthDesc": "トークン使用量とモデル価格からの推定値です。価格情報のないモデルは $0 として集計されます",
+		"settings.costBreakdownRow": "{provider} / {model}: {requests} リクエスト、{cost}",
+		"settings.costReset": "リセット",
+		"settings.budgetMonthly": "月間予算（USD）",
+		"settings.budgetMonthlyDesc": "今月の推定コストがこの金額に達すると送信をブロックします。0または空欄で無制限",
+		"settings.budgetConversation": "会話ごとの予算（USD）",
+		"settings.budgetConversationDesc": "会話の推定コストがこの金額に達すると、その会話での送信をブロックします。0または空欄で無制限",
+		"settings.budgetWarnRatio": "警告の閾値",
+		"settings.budgetWarnRatioDesc": "予算のこの割合を使用した時点で警告を表示します。初期値: 0.8",
+		"notice.costLedgerReset": "利用コストの履歴をリセットしました",
+		"notice.structuredRunning": "モデルに問い合わせ中...",
+		"notice.structuredFailed": "有効な応答を取得できませんでした: {error}",
+		"notice.tagsAdded": "frontmatter に {count} 件のタグを追加しました",
+		"notice.tasksExtracted": "{count} 件のタスクを挿入しました",
+		"notice.noTasksFound": "タスクは見つかりませんでした",
+		"structured.suggestTags.prompt": "以下のノートの内容を表すタグを最大10個提案してください（小文字、空白なし、先頭の # なし）:\n\n",
+		"structured.extractTasks.prompt": "以下のテキストからやるべきことを抽出してください。各タスクはテキストと同じ言語の短い文で書き、期限が明記されている場合のみ due に YYYY-MM-DD 形式で設定し、それ以外は空文字にしてください:\n\n",
 	},
 };
 
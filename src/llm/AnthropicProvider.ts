@@ -1,5 +1,35 @@
 import { requestUrl } from "obsidian";
-import type { LLMProvider, ChatRequest, ChatResponse, ModelInfo, Message, ToolUseBlock, ToolResult } from "./LLMProvider";
+import type { LLMProvider, ChatRequest, ChatResponse, ImageLimits, ModelInfo, PdfLimits, SamplingParam, Message, StreamAccumulator, StreamDelta, TokenUsage, ToolUseBlock, ToolResult } from "./LLMProvider";
+import { resolveReasoningBudget } from "./LLMProvider";
+import { findModelPricing } from "./pricing";
+import { ProviderEndpoint } from "./endpointOverride";
+import { acceptsParam, clampMaxTokens, getModelCapabilities } from "./capabilities";
+import { withSchemaInstruction } from "./structuredOutput";
+
+/** Claude の画像入力上限（1リクエスト100枚・1枚5MB） */
+const CLAUDE_VISION: ImageLimits = { maxImages: 100, maxImageBytes: 5 * 1024 * 1024 };
+
+
+/** Claude のPDF入力上限（リクエスト32MB・100ページ） */
+const CLAUDE_PDF: PdfLimits = { maxBytes: 32 * 1024 * 1024, maxPages: 100 };
+
+/** Claude が受け付けるサンプリングパラメータ（seed は非対応） */
+const CLAUDE_SAMPLING: SamplingParam[] = ["temperature", "top_p", "top_k", "stop"];
+
+/**
+ * モデル名から機能を推定（Claude 3.7 以降は extended thinking に対応）
+ */
+function inferClaudeCapabilities(model: string): Partial<ModelInfo> {
+	const reasoning = /claude-(3-7|(opus|sonnet|haiku)-4)/.test(model);
+	let maxOutputTokens = 8192;
+	if (/opus-4-6/.test(model)) maxOutputTokens = 128000;
+	else if (/opus-4(-1)?(-\d{8})?$/.test(model)) maxOutputTokens = 32000;
+	else if (reasoning) maxOutputTokens = 64000;
+	return { reasoning, maxOutputTokens, samplingParams: CLAUDE_SAMPLING };
+}
+
+/** キャッシュの区切り（5分間保持。区切りはリクエストあたり最大4つ） */
+const CACHE_CONTROL = { type: "ephemeral" };
 
 /**
  * Anthropic (Claude) プロバイダー
@@ -14,15 +44,22 @@ export class AnthropicProvider implements LLMProvider {
 	requiresApiKey = true;
 	supportsCORS = true; // anthropic-dangerous-direct-browser-access ヘッダーでCORS有効化
 	supportsToolUse = true;
-	apiEndpoint = "https://api.anthropic.com/v1/messages";
+	endpoint = new ProviderEndpoint("https://api.anthropic.com/v1");
+	get apiEndpoint(): string {
+		return this.endpoint.url("/messages");
+	}
 	apiKeyUrl = "https://console.anthropic.com/settings/keys";
 
 	models: ModelInfo[] = [
-		{ id: "claude-opus-4-6", name: "Claude Opus 4.6", contextWindow: 200000 },
-		{ id: "claude-sonnet-4-6", name: "Claude Sonnet 4.6", contextWindow: 200000 },
-		{ id: "claude-haiku-4-5", name: "Claude Haiku 4.5", contextWindow: 200000 },
+		{ id: "claude-opus-4-6", name: "Claude Opus 4.6", contextWindow: 200000, pricing: { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 }, vision: CLAUDE_VISION, pdf: CLAUDE_PDF, reasoning: true, maxOutputTokens: 128000, samplingParams: CLAUDE_SAMPLING },
+		{ id: "claude-sonnet-4-6", name: "Claude Sonnet 4.6", contextWindow: 200000, pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 }, vision: CLAUDE_VISION, pdf: CLAUDE_PDF, reasoning: true, maxOutputTokens: 64000, samplingParams: CLAUDE_SAMPLING },
+		{ id: "claude-haiku-4-5", name: "Claude Haiku 4.5", contextWindow: 200000, pricing: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 }, vision: CLAUDE_VISION, pdf: CLAUDE_PDF, reasoning: true, maxOutputTokens: 64000, samplingParams: CLAUDE_SAMPLING },
 	];
 
+	getEndpointUrl(_params: ChatRequest, _apiKey: string, _stream: boolean): string {
+		return this.apiEndpoint;
+	}
+
 	buildRequestBody(params: ChatRequest): Record<string, unknown> {
 		const messages: Array<Record<string, unknown>> = [];
 
@@ -31,31 +68,97 @@ export class AnthropicProvider implements LLMProvider {
 				// rawContent があれば content 配列として使用（Tool Use対応）
 				if (msg.rawContent) {
 					messages.push({ role: msg.role, content: msg.rawContent });
+				} else if (msg.attachments && msg.attachments.length > 0) {
+					// 画像は image、PDFは document ブロックとしてテキストの前に配置
+					messages.push({
+						role: msg.role,
+						content: [
+							...msg.attachments.map((a) => ({
+								type: a.type === "pdf" ? "document" : "image",
+								source: { type: "base64", media_type: a.mimeType, data: a.data },
+							})),
+							{ type: "text", text: msg.content },
+						],
+					});
 				} else {
 					messages.push({ role: msg.role, content: msg.content });
 				}
 			}
 		}
 
+		// プロンプトキャッシュ: 会話履歴の末尾に区切りを置き、次のターンで履歴全体を再利用する
+		if (params.promptCaching && messages.length > 0) {
+			markCacheBreakpoint(messages[messages.length - 1]);
+		}
+
+		const caps = getModelCapabilities(this, params.model);
+		// 構造化出力はツール呼び出しの強制で実現するため、Tool Use 非対応のモデルではスキーマをシステムプロンプトで指示する
+		if (params.responseSchema && !caps.tools) {
+			params = withSchemaInstruction({ ...params, responseSchema: params.responseSchema });
+		}
+		const maxTokens = clampMaxTokens(params.maxTokens || 4096, caps) ?? 4096;
 		const body: Record<string, unknown> = {
 			model: params.model,
 			messages,
-			max_tokens: params.maxTokens || 4096,
+			max_tokens: maxTokens,
 		};
 
 		// Anthropicはsystemプロンプトをトップレベルに配置
-		if (params.systemPrompt) {
+		// キャッシュ有効時はブロックに分け、安定した前半（指示・添付ノート）の末尾に区切りを置く
+		if (params.promptCaching && params.systemBlocks) {
+			const blocks = params.systemBlocks.filter((b) => b.text.length > 0);
+			if (blocks.length > 0) {
+				body.system = blocks.map((b) => ({
+					type: "text",
+					text: b.text,
+					...(b.cache ? { cache_control: CACHE_CONTROL } : {}),
+				}));
+			}
+		} else if (params.systemPrompt) {
 			body.system = params.systemPrompt;
 		}
 
 		// Tool Use definitions
-		if (params.tools && params.tools.length > 0) {
+		if (params.tools && params.tools.length > 0 && caps.tools) {
 			body.tools = params.tools;
 		}
 
-		if (params.temperature !== undefined) {
+		// 構造化出力: スキーマを入力とするツールの呼び出しを強制し、その入力をJSONとして受け取る
+		if (params.responseSchema) {
+			const { name, description, schema } = params.responseSchema;
+			body.tools = [
+				...(params.tools ?? []),
+				{ name, description: description ?? "Return the response as structured JSON.", input_schema: schema },
+			];
+			body.tool_choice = { type: "tool", name };
+		}
+
+		// Extended thinking: max_tokens は思考予算を上回る必要があり、temperature / top_k は指定不可
+		// （ツール呼び出しを強制する構造化出力とは併用できない）
+		const thinking = params.reasoning && caps.reasoning && !params.responseSchema ? params.reasoning : undefined;
+		if (thinking) {
+			let budget = Math.max(1024, resolveReasoningBudget(thinking));
+			if (maxTokens <= budget) {
+				// 最大出力トークン数を超える場合は思考予算を削って応答の分を残す
+				const total = clampMaxTokens(budget + maxTokens, caps) ?? budget + maxTokens;
+				budget = Math.max(1024, Math.min(budget, total - maxTokens, total - 1024));
+				body.max_tokens = total;
+			}
+			body.thinking = { type: "enabled", budget_tokens: budget };
+		}
+		// 新しいモデルは temperature と top_p の併用を受け付けないため、top_p を指定した場合は temperature を送らない
+		// （thinking 中の top_p は 0.95 以上のみ）
+		if (params.topP !== undefined && acceptsParam(caps, "top_p") && (!thinking || params.topP >= 0.95)) {
+			body.top_p = params.topP;
+		} else if (!thinking && params.temperature !== undefined && acceptsParam(caps, "temperature")) {
 			body.temperature = params.temperature;
 		}
+		if (!thinking && params.topK !== undefined && acceptsParam(caps, "top_k")) {
+			body.top_k = params.topK;
+		}
+		if (params.stop && acceptsParam(caps, "stop")) {
+			body.stop_sequences = params.stop;
+		}
 		if (params.stream) {
 			body.stream = true;
 		}
@@ -64,14 +167,118 @@ export class AnthropicProvider implements LLMProvider {
 	}
 
 	buildHeaders(apiKey: string): Record<string, string> {
-		return {
+		return this.endpoint.headers({
 			"x-api-key": apiKey,
 			"anthropic-version": "2023-06-01",
 			"anthropic-dangerous-direct-browser-access": "true",
+		});
+	}
+
+	/**
+	 * Messages API のSSEイベントを解釈
+	 * thinking の signature・tool_use の input を content block 単位で rawParts に組み立てる
+	 */
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		const delta: StreamDelta = { text: "", reasoning: "" };
+		// Anthropic形式: content_block_start / content_block_delta / content_block_stop / message_delta
+		const type = json.type as string;
+		const index = json.index as number;
+		if (type === "message_start") {
+			const message = json.message as Record<string, unknown> | undefined;
+			if (message?.model) acc.model = message.model as string;
+			mergeAnthropicUsage(acc, message?.usage as Record<string, unknown> | undefined);
+		} else if (type === "content_block_start") {
+			const block = { ...(json.content_block as Record<string, unknown> | undefined) };
+			acc.rawParts[index] = block;
+			if (block.type === "tool_use") {
+				acc.toolCalls.set(index, {
+					id: (block.id as string) || "",
+					name: (block.name as string) || "",
+					arguments: "",
+				});
+			}
+		} else if (type === "content_block_delta") {
+			const blockDelta = json.delta as Record<string, unknown> | undefined;
+			const block = acc.rawParts[index];
+			if (blockDelta?.type === "input_json_delta") {
+				const entry = acc.toolCalls.get(index);
+				if (entry) entry.arguments += (blockDelta.partial_json as string) || "";
+			} else if (blockDelta?.type === "thinking_delta") {
+				delta.reasoning = (blockDelta.thinking as string) || "";
+				if (block) block.thinking = ((block.thinking as string) || "") + delta.reasoning;
+			} else if (blockDelta?.type === "signature_delta") {
+				if (block) block.signature = blockDelta.signature;
+			} else {
+				delta.text = (blockDelta?.text as string) || "";
+				if (block) block.text = ((block.text as string) || "") + delta.text;
+			}
+		} else if (type === "content_block_stop") {
+			// tool_use ブロックの input を組み立て済みの JSON で確定
+			const block = acc.rawParts[index];
+			const entry = acc.toolCalls.get(index);
+			if (block && entry) {
+				try {
+					block.input = entry.arguments ? JSON.parse(entry.arguments) : {};
+				} catch {
+					// 不完全なJSON → finalizeStream でスキップされる
+				}
+			}
+		} else if (type === "message_delta") {
+			const messageDelta = json.delta as Record<string, unknown> | undefined;
+			if (messageDelta?.stop_reason) acc.finishReason = messageDelta.stop_reason as string;
+			mergeAnthropicUsage(acc, json.usage as Record<string, unknown> | undefined);
+		}
+		return delta;
+	}
+
+	/**
+	 * Messages API の一括レスポンスを解析
+	 */
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		const content = json.content as Array<Record<string, unknown>>;
+		const usage = json.usage as Record<string, unknown> | undefined;
+
+		const textParts: string[] = [];
+		const thinkingParts: string[] = [];
+		const toolUses: ToolUseBlock[] = [];
+
+		if (content) {
+			for (const block of content) {
+				if (block.type === "text") {
+					textParts.push(block.text as string);
+				} else if (block.type === "thinking") {
+					thinkingParts.push(block.thinking as string);
+				} else if (block.type === "tool_use") {
+					toolUses.push({
+						id: block.id as string,
+						name: block.name as string,
+						input: block.input as Record<string, unknown>,
+					});
+				}
+			}
+		}
+
+		return {
+			content: textParts.join(""),
+			model: (json.model as string) || "",
+			usage: usage ? parseAnthropicUsage(usage) : undefined,
+			finishReason: (json.stop_reason as string) || undefined,
+			reasoning: thinkingParts.length > 0 ? thinkingParts.join("\n\n") : undefined,
+			toolUses: toolUses.length > 0 ? toolUses : undefined,
+			// thinking ブロック（signature 付き）を Tool Use 履歴に含めるため保持
+			rawAssistantParts: content ? [...content] : undefined,
 		};
 	}
 
-	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[]): Message {
+	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[], rawParts?: unknown[]): Message {
+		// thinking ブロック（signature 付き）を含む場合は受信した content をそのまま返送する必要がある
+		const blocks = (rawParts ?? []) as Array<Record<string, unknown>>;
+		if (blocks.some(b => b.type === "thinking" || b.type === "redacted_thinking")) {
+			// 空の text ブロックはAPIが拒否するため除外
+			const rawContent = blocks.filter(b => !(b.type === "text" && !b.text));
+			return { role: "assistant", content: content || "", rawContent };
+		}
+
 		const rawContent: unknown[] = [];
 		if (content) rawContent.push({ type: "text", text: content });
 		for (const tu of toolUses) {
@@ -100,10 +307,14 @@ export class AnthropicProvider implements LLMProvider {
 		throw new Error("Use sendRequest() from streaming.ts instead of calling chatComplete directly");
 	}
 
+	inferCapabilities(model: string): Partial<ModelInfo> {
+		return inferClaudeCapabilities(model);
+	}
+
 	async fetchModels(apiKey: string): Promise<ModelInfo[]> {
 		const trimmed = apiKey.trim();
 		const response = await requestUrl({
-			url: "https://api.anthropic.com/v1/models?limit=100",
+			url: this.endpoint.url("/models", { limit: "100" }),
 			method: "GET",
 			headers: this.buildHeaders(trimmed),
 			throw: false,
@@ -116,7 +327,13 @@ export class AnthropicProvider implements LLMProvider {
 			.map(m => ({
 				id: m.id as string,
 				name: (m.display_name as string) || (m.id as string),
-				contextWindow: 200000,
+				// max_input_tokens / max_tokens は返さない API バージョンもある
+				contextWindow: (m.max_input_tokens as number | undefined) ?? 200000,
+				pricing: findModelPricing(this.models, m.id as string),
+				vision: CLAUDE_VISION,
+				pdf: CLAUDE_PDF,
+				...inferClaudeCapabilities(m.id as string),
+				...(typeof m.max_tokens === "number" ? { maxOutputTokens: m.max_tokens } : {}),
 			}));
 
 		// 各ティア(opus/sonnet/haiku)から最新1つだけ選出
@@ -141,7 +358,7 @@ export class AnthropicProvider implements LLMProvider {
 	async validateApiKey(apiKey: string): Promise<boolean> {
 		const trimmed = apiKey.trim();
 		const response = await requestUrl({
-			url: "https://api.anthropic.com/v1/messages",
+			url: this.apiEndpoint,
 			method: "POST",
 			headers: {
 				...this.buildHeaders(trimmed),
@@ -160,3 +377,50 @@ export class AnthropicProvider implements LLMProvider {
 		return true;
 	}
 }
+
+/**
+ * メッセージ末尾の content block に cache_control を付与
+ * （文字列の content はテキストブロックに変換。thinking ブロックには付与できないため対象外）
+ */
+function markCacheBreakpoint(message: Record<string, unknown>): void {
+	const blocks = typeof message.content === "string"
+		? [{ type: "text", text: message.content }]
+		: [...(message.content as Array<Record<string, unknown>>)];
+	const last = blocks[blocks.length - 1] as Record<string, unknown> | undefined;
+	if (!last || last.type === "thinking" || last.type === "redacted_thinking") return;
+	if (last.type === "text" && !last.text) return;
+	blocks[blocks.length - 1] = { ...last, cache_control: CACHE_CONTROL };
+	message.content = blocks;
+}
+
+/**
+ * Anthropic の usage を統合
+ * message_start で入力トークン、message_delta で累積出力トークンが届く
+ */
+function mergeAnthropicUsage(acc: StreamAccumulator, usage: Record<string, unknown> | undefined): void {
+	if (!usage) return;
+	const current = acc.usage ?? { inputTokens: 0, outputTokens: 0 };
+	const next = parseAnthropicUsage({
+		input_tokens: current.inputTokens - (current.cacheReadTokens ?? 0) - (current.cacheWriteTokens ?? 0),
+		output_tokens: current.outputTokens,
+		cache_read_input_tokens: current.cacheReadTokens,
+		cache_creation_input_tokens: current.cacheWriteTokens,
+		...Object.fromEntries(Object.entries(usage).filter(([, v]) => v !== undefined && v !== null)),
+	});
+	acc.usage = next;
+}
+
+/**
+ * usage を共通形式に変換
+ * Anthropic の input_tokens はキャッシュ読み込み/書き込み分を含まないため合算する
+ */
+function parseAnthropicUsage(usage: Record<string, unknown>): TokenUsage {
+	const cacheRead = (usage.cache_read_input_tokens as number | undefined) ?? 0;
+	const cacheWrite = (usage.cache_creation_input_tokens as number | undefined) ?? 0;
+	return {
+		inputTokens: ((usage.input_tokens as number) || 0) + cacheRead + cacheWrite,
+		outputTokens: (usage.output_tokens as number) || 0,
+		cacheReadTokens: cacheRead,
+		cacheWriteTokens: cacheWrite,
+	};
+}
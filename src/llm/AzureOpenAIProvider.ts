@@ -0,0 +1,188 @@
+import { requestUrl } from "obsidian";
+import type { LLMProvider, ChatRequest, ChatResponse, Message, ModelInfo, StreamAccumulator, StreamDelta, ToolResult, ToolUseBlock } from "./LLMProvider";
+import { inferOpenAICapabilities, OpenAIProvider } from "./OpenAIProvider";
+import { findModelPricing } from "./pricing";
+
+/**
+ * Azure OpenAI のデプロイメント（デプロイ名 → 基になるモデル）
+ * チャット・Embedding ともにURLにはデプロイ名を使い、
+ * 料金・コンテキスト長・推論パラメータの判定には基になるモデルを使う
+ */
+export interface AzureDeployment {
+	name: string;
+	model: string;
+}
+
+/**
+ * Azure OpenAI の接続設定（settings.azure に保存）
+ */
+export interface AzureOpenAIConfig {
+	/** リソースのエンドポイント（例: https://my-resource.openai.azure.com） */
+	endpoint: string;
+	/** api-version クエリパラメータ */
+	apiVersion: string;
+	deployments: AzureDeployment[];
+}
+
+export const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+/** デプロイメント一覧APIは新しい api-version では提供されないため、この版で固定して呼び出す */
+const DEPLOYMENTS_LIST_API_VERSION = "2022-12-01";
+
+/** Embedding 用モデルの判定 */
+export function isAzureEmbeddingModel(model: string): boolean {
+	return /embedding/i.test(model);
+}
+
+/**
+ * Azure OpenAI のベースURL（末尾スラッシュを除去）
+ */
+export function azureBaseUrl(config: AzureOpenAIConfig): string {
+	return config.endpoint.trim().replace(/\/+$/, "");
+}
+
+/**
+ * リソースのデプロイメント一覧を取得（api-key 認証）
+ * 一覧APIが使えないリソース（権限不足・廃止済み）では例外を投げる
+ */
+export async function listAzureDeployments(config: AzureOpenAIConfig, apiKey: string): Promise<AzureDeployment[]> {
+	const response = await requestUrl({
+		url: `${azureBaseUrl(config)}/openai/deployments?api-version=${DEPLOYMENTS_LIST_API_VERSION}`,
+		method: "GET",
+		headers: { "api-key": apiKey.trim() },
+		throw: false,
+	});
+	if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
+
+	const data = ((response.json as Record<string, unknown>).data ?? []) as Array<Record<string, unknown>>;
+	return data
+		.filter((d) => typeof d.id === "string" && d.id.length > 0)
+		.map((d) => ({ name: d.id as string, model: typeof d.model === "string" ? d.model : d.id as string }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Azure OpenAI プロバイダー
+ * リソースのエンドポイント + デプロイ名 + api-version でURLを組み立て、api-key ヘッダーで認証する。
+ * リクエストボディ・レスポンス・Tool Use のメッセージ形式は OpenAIProvider に委譲する。
+ */
+export class AzureOpenAIProvider implements LLMProvider {
+	id = "azure";
+	name = "Azure OpenAI";
+	requiresApiKey = true;
+	supportsCORS = true;
+	supportsToolUse = true;
+	apiEndpoint = "";
+	apiKeyUrl = "https://portal.azure.com/#view/Microsoft_Azure_ProjectOxford/CognitiveServicesHub/~/OpenAI";
+
+	models: ModelInfo[] = [];
+
+	private config: AzureOpenAIConfig = { endpoint: "", apiVersion: DEFAULT_AZURE_API_VERSION, deployments: [] };
+	/** ボディ構築・レスポンス解析と、基になるモデルの料金・画像入力上限の参照に使う */
+	private format = new OpenAIProvider();
+
+	/**
+	 * Azure 設定を適用（Embedding 用デプロイメントはチャットのモデル一覧から除外）
+	 */
+	configure(config: AzureOpenAIConfig): void {
+		this.config = config;
+		this.apiEndpoint = azureBaseUrl(config);
+		this.models = this.toModels(config.deployments);
+	}
+
+	getConfig(): AzureOpenAIConfig {
+		return this.config;
+	}
+
+	private toModels(deployments: AzureDeployment[]): ModelInfo[] {
+		return deployments
+			.filter((d) => !isAzureEmbeddingModel(d.model))
+			.map((d) => {
+				const known = this.format.models.find((m) => m.id === d.model);
+				return {
+					id: d.name,
+					name: d.name === d.model ? d.name : `${d.name} (${d.model})`,
+					contextWindow: known?.contextWindow ?? 128000,
+					pricing: findModelPricing(this.format.models, d.model),
+					vision: known?.vision,
+					...inferOpenAICapabilities(d.model),
+				};
+			});
+	}
+
+	/** デプロイ名の機能は基になるモデル名から推定 */
+	inferCapabilities(model: string): Partial<ModelInfo> {
+		return inferOpenAICapabilities(this.resolveModel(model));
+	}
+
+	/** デプロイ名から基になるモデル名を解決（未登録ならデプロイ名をそのまま使う） */
+	private resolveModel(deployment: string): string {
+		return this.config.deployments.find((d) => d.name === deployment)?.model ?? deployment;
+	}
+
+	getEndpointUrl(params: ChatRequest, _apiKey: string, _stream: boolean): string {
+		const deployment = encodeURIComponent(params.model);
+		const apiVersion = encodeURIComponent(this.config.apiVersion || DEFAULT_AZURE_API_VERSION);
+		return `${azureBaseUrl(this.config)}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`;
+	}
+
+	buildRequestBody(params: ChatRequest): Record<string, unknown> {
+		// 機能の判定（max_completion_tokens / reasoning_effort 等）は基になるモデル名で行う
+		const body = this.format.buildRequestBody({ ...params, model: this.resolveModel(params.model) });
+		// デプロイ名がURLでモデルを決めるため model は送らない
+		delete body.model;
+		return body;
+	}
+
+	buildHeaders(apiKey: string): Record<string, string> {
+		return { "api-key": apiKey };
+	}
+
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		return this.format.parseStreamEvent(json, acc);
+	}
+
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		return this.format.parseResponse(json);
+	}
+
+	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[]): Message {
+		return this.format.buildAssistantToolUseMessage(content, toolUses);
+	}
+
+	buildToolResultMessages(results: ToolResult[]): Message[] {
+		return this.format.buildToolResultMessages(results);
+	}
+
+	async *chat(params: ChatRequest, apiKey: string): AsyncGenerator<string, ChatResponse, unknown> {
+		const response = await this.chatComplete(params, apiKey);
+		yield response.content;
+		return response;
+	}
+
+	chatComplete(_params: ChatRequest, _apiKey: string): Promise<ChatResponse> {
+		throw new Error("Use sendRequest() from streaming.ts instead of calling chatComplete directly");
+	}
+
+	async validateApiKey(apiKey: string): Promise<boolean> {
+		if (!this.config.endpoint.trim()) return false;
+
+		const response = await requestUrl({
+			url: `${azureBaseUrl(this.config)}/openai/deployments?api-version=${DEPLOYMENTS_LIST_API_VERSION}`,
+			method: "GET",
+			headers: this.buildHeaders(apiKey.trim()),
+			throw: false,
+		});
+		if (response.status === 200) return true;
+		if (response.status === 401 || response.status === 403) return false;
+		throw new Error(`HTTP ${response.status}`);
+	}
+
+	/**
+	 * デプロイメント一覧からチャット用のモデル一覧を構築
+	 * （設定画面からはデプロイメントを settings.azure に保存する経路で呼ぶ）
+	 */
+	async fetchModels(apiKey: string): Promise<ModelInfo[]> {
+		return this.toModels(await listAzureDeployments(this.config, apiKey));
+	}
+}
@@ -0,0 +1,166 @@
+import type { App } from "obsidian";
+
+/** リクエスト1件分のコスト記録 */
+export interface CostEntry {
+	timestamp: number;
+	provider: string;
+	model: string;
+	conversationId: string;
+	inputTokens: number;
+	outputTokens: number;
+	/** USD（価格情報のないモデルは 0） */
+	cost: number;
+}
+
+interface CostLedgerData {
+	/** 直近のリクエスト記録（MAX_ENTRIES 件まで保持） */
+	entries: CostEntry[];
+	/** "YYYY-MM" → USD 合計 */
+	monthly: Record<string, number>;
+	/** 会話ID → USD 合計 */
+	conversations: Record<string, number>;
+}
+
+export interface BudgetLimits {
+	/** 月間上限（USD、0 で無制限） */
+	monthly: number;
+	/** 会話ごとの上限（USD、0 で無制限） */
+	conversation: number;
+	/** 警告を出す割合（0〜1） */
+	warnRatio: number;
+}
+
+export interface BudgetStatus {
+	state: "ok" | "warn" | "exceeded";
+	scope?: "monthly" | "conversation";
+	spent?: number;
+	limit?: number;
+}
+
+const MAX_ENTRIES = 2000;
+
+/** タイムスタンプから月キー（YYYY-MM、ローカル時刻）を生成 */
+export function monthKey(timestamp: number): string {
+	const d = new Date(timestamp);
+	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * API利用コストの台帳
+ * リクエスト単位・会話単位・月単位のコストを集計し、プラグインフォルダ内のJSONに永続化する
+ */
+export class CostLedger {
+	private app: App;
+	private data: CostLedgerData = { entries: [], monthly: {}, conversations: {} };
+
+	private get ledgerFile(): string {
+		return `${this.app.vault.configDir}/plugins/llm-assistant/cost-ledger.json`;
+	}
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * 台帳を読み込み（存在しない・破損時は空で開始）
+	 */
+	async load(): Promise<void> {
+		try {
+			const exists = await this.app.vault.adapter.exists(this.ledgerFile);
+			if (!exists) return;
+			const content = await this.app.vault.adapter.read(this.ledgerFile);
+			const parsed = JSON.parse(content) as Partial<CostLedgerData>;
+			this.data = {
+				entries: parsed.entries ?? [],
+				monthly: parsed.monthly ?? {},
+				conversations: parsed.conversations ?? {},
+			};
+		} catch (e) {
+			console.warn("Failed to load cost ledger:", e);
+		}
+	}
+
+	/**
+	 * リクエストのコストを記録
+	 */
+	async record(entry: CostEntry): Promise<void> {
+		this.data.entries.push(entry);
+		if (this.data.entries.length > MAX_ENTRIES) {
+			this.data.entries = this.data.entries.slice(-MAX_ENTRIES);
+		}
+		const month = monthKey(entry.timestamp);
+		this.data.monthly[month] = (this.data.monthly[month] ?? 0) + entry.cost;
+		this.data.conversations[entry.conversationId] =
+			(this.data.conversations[entry.conversationId] ?? 0) + entry.cost;
+		await this.save();
+	}
+
+	/**
+	 * 月間合計（USD）
+	 */
+	getMonthlyTotal(month = monthKey(Date.now())): number {
+		return this.data.monthly[month] ?? 0;
+	}
+
+	/**
+	 * 会話ごとの合計（USD）
+	 */
+	getConversationTotal(conversationId: string | null): number {
+		if (!conversationId) return 0;
+		return this.data.conversations[conversationId] ?? 0;
+	}
+
+	/**
+	 * 指定月のプロバイダー/モデル別内訳（保持中の記録から集計、コスト降順）
+	 */
+	getMonthlyBreakdown(month = monthKey(Date.now())): Array<{ provider: string; model: string; requests: number; cost: number }> {
+		const byModel = new Map<string, { provider: string; model: string; requests: number; cost: number }>();
+		for (const e of this.data.entries) {
+			if (monthKey(e.timestamp) !== month) continue;
+			const key = `${e.provider}::${e.model}`;
+			const row = byModel.get(key) ?? { provider: e.provider, model: e.model, requests: 0, cost: 0 };
+			row.requests++;
+			row.cost += e.cost;
+			byModel.set(key, row);
+		}
+		return [...byModel.values()].sort((a, b) => b.cost - a.cost);
+	}
+
+	/**
+	 * 予算状況を判定（月間 → 会話の順に、より深刻な状態を返す）
+	 */
+	checkBudget(conversationId: string | null, limits: BudgetLimits): BudgetStatus {
+		const checks: Array<{ scope: "monthly" | "conversation"; spent: number; limit: number }> = [
+			{ scope: "monthly", spent: this.getMonthlyTotal(), limit: limits.monthly },
+			{ scope: "conversation", spent: this.getConversationTotal(conversationId), limit: limits.conversation },
+		];
+
+		let warning: BudgetStatus | null = null;
+		for (const c of checks) {
+			if (c.limit <= 0) continue;
+			if (c.spent >= c.limit) {
+				return { state: "exceeded", ...c };
+			}
+			if (!warning && c.spent >= c.limit * limits.warnRatio) {
+				warning = { state: "warn", ...c };
+			}
+		}
+		return warning ?? { state: "ok" };
+	}
+
+	/**
+	 * 台帳をリセット
+	 */
+	async reset(): Promise<void> {
+		this.data = { entries: [], monthly: {}, conversations: {} };
+		await this.save();
+	}
+
+	private async save(): Promise<void> {
+		const folder = this.ledgerFile.substring(0, this.ledgerFile.lastIndexOf("/"));
+		if (!(await this.app.vault.adapter.exists(folder))) {
+			await this.app.vault.adapter.mkdir(folder);
+		}
+		await this.app.vault.adapter.write(this.ledgerFile, JSON.stringify(this.data));
+	}
+}
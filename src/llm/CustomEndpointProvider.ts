@@ -1,83 +1,183 @@
 import { requestUrl } from "obsidian";
-import type { LLMProvider, ChatRequest, ChatResponse, ModelInfo } from "./LLMProvider";
+import type { LLMProvider, ChatRequest, ChatResponse, Message, ModelInfo, StreamAccumulator, StreamDelta, ToolResult, ToolUseBlock } from "./LLMProvider";
+import { OpenAIProvider } from "./OpenAIProvider";
+import { AnthropicProvider } from "./AnthropicProvider";
+import { GeminiProvider } from "./GeminiProvider";
+
+/** カスタムエンドポイントが話すAPI形式 */
+export type CustomProtocol = "openai" | "anthropic" | "gemini";
+
+/**
+ * API鍵の渡し方
+ *   bearer: Authorization: Bearer <key>
+ *   header: 任意のヘッダー名にキーをそのまま設定（x-api-key, api-key 等）
+ *   none:   送信しない（ローカルサーバー等）
+ */
+export type CustomAuthScheme = "bearer" | "header" | "none";
+
+/**
+ * Tool Use の使い方
+ *   auto: 試験リクエストで対応を確認し、対応モデルのみ使用
+ *   on:   常に使用
+ *   off:  使用しない（テキストタグ方式）
+ */
+export type CustomToolUseMode = "auto" | "on" | "off";
+
+/**
+ * ユーザー定義プロバイダーの設定（settings.customProviders に保存）
+ */
+export interface CustomProviderConfig {
+	/** プロバイダーID（API鍵の保存キーにも使用） */
+	id: string;
+	name: string;
+	protocol: CustomProtocol;
+	/** ベースURL（例: http://localhost:8000/v1）。チャット・モデル一覧のパスはプロトコルに応じて付加する */
+	baseUrl: string;
+	authScheme: CustomAuthScheme;
+	/** authScheme が "header" の場合のヘッダー名 */
+	authHeaderName: string;
+	/** 追加のリクエストヘッダー */
+	headers: Record<string, string>;
+	/** モデルID一覧（手入力または /models から取得） */
+	models: string[];
+	toolUse: CustomToolUseMode;
+	/** /v1/embeddings で使える Embedding モデル（ローカルサーバー検出時に確認済みのもの） */
+	embeddingModels?: CustomEmbeddingModel[];
+}
+
+/** Embedding モデルと次元数（試験リクエストで得たベクトル長） */
+export interface CustomEmbeddingModel {
+	id: string;
+	dimensions: number;
+}
+
+/** プロトコルごとに authScheme "header" で使う既定のヘッダー名 */
+export const DEFAULT_AUTH_HEADERS: Record<CustomProtocol, string> = {
+	openai: "api-key",
+	anthropic: "x-api-key",
+	gemini: "x-goog-api-key",
+};
+
+/** 新規作成時の既定設定 */
+export function createCustomProviderConfig(name: string): CustomProviderConfig {
+	return {
+		id: `custom-${Date.now().toString(36)}`,
+		name,
+		protocol: "openai",
+		baseUrl: "",
+		authScheme: "bearer",
+		authHeaderName: "",
+		headers: {},
+		models: [],
+		toolUse: "auto",
+	};
+}
 
 /**
  * カスタムエンドポイントプロバイダー
- * OpenAI互換APIの任意URLに接続可能
- * ユーザーが自分のvLLM, text-generation-webui, LocalAI等に接続できる
+ * OpenAI / Anthropic / Gemini 互換APIの任意URLに接続可能
+ * （vLLM, LM Studio, LiteLLM, Anthropic互換プロキシ等）
+ *
+ * リクエストボディ・レスポンスの形式は同じプロトコルの組み込みプロバイダーに委譲し、
+ * URL・認証ヘッダー・モデル一覧のみを設定に従って扱う。
  */
 export class CustomEndpointProvider implements LLMProvider {
-	id = "custom";
-	name = "カスタムエンドポイント";
-	requiresApiKey = false; // ユーザー設定による
+	id: string;
+	name: string;
+	requiresApiKey = false;
 	supportsCORS = true;
-	apiEndpoint = ""; // ユーザーが設定
+	supportsToolUse = false;
+	probeToolUse = false;
+	apiEndpoint = "";
 
 	models: ModelInfo[] = [];
 
-	private _customEndpoint = "";
-	private _customModelId = "";
+	private config: CustomProviderConfig;
+	/** 同じプロトコルの組み込みプロバイダー（ボディ構築・レスポンス解析用） */
+	private format: FormatProvider;
+
+	constructor(config: CustomProviderConfig) {
+		this.id = config.id;
+		this.name = config.name;
+		this.config = config;
+		this.format = createFormatProvider(config.protocol);
+		this.configure(config);
+	}
 
 	/**
 	 * カスタム設定を適用
 	 */
-	configure(endpoint: string, modelId: string): void {
-		this._customEndpoint = endpoint;
-		this._customModelId = modelId;
-		this.apiEndpoint = endpoint;
-
-		// モデル一覧を更新
-		if (modelId) {
-			this.models = [
-				{ id: modelId, name: modelId, contextWindow: 128000 },
-			];
+	configure(config: CustomProviderConfig): void {
+		if (config.protocol !== this.config.protocol) {
+			this.format = createFormatProvider(config.protocol);
 		}
+		this.config = config;
+		this.name = config.name || config.id;
+		this.requiresApiKey = config.authScheme !== "none";
+		this.supportsToolUse = config.toolUse !== "off";
+		this.probeToolUse = config.toolUse === "auto";
+		this.apiEndpoint = this.getBaseUrl();
+		this.models = config.models.map((id) => ({ id, name: id, contextWindow: 128000 }));
+	}
+
+	getConfig(): CustomProviderConfig {
+		return this.config;
+	}
+
+	private getBaseUrl(): string {
+		return this.config.baseUrl.trim().replace(/\/+$/, "");
 	}
 
-	getCustomEndpoint(): string {
-		return this._customEndpoint;
+	getEndpointUrl(params: ChatRequest, _apiKey: string, stream: boolean): string {
+		const base = this.getBaseUrl();
+		switch (this.config.protocol) {
+			case "anthropic":
+				return `${base}/messages`;
+			case "gemini":
+				// キーはURLではなくヘッダーで渡す
+				return stream
+					? `${base}/models/${params.model}:streamGenerateContent?alt=sse`
+					: `${base}/models/${params.model}:generateContent`;
+			default:
+				return `${base}/chat/completions`;
+		}
 	}
 
-	getCustomModelId(): string {
-		return this._customModelId;
+	inferCapabilities(model: string): Partial<ModelInfo> {
+		return this.format.inferCapabilities?.(model) ?? {};
 	}
 
 	buildRequestBody(params: ChatRequest): Record<string, unknown> {
-		const messages: Array<Record<string, string>> = [];
+		return this.format.buildRequestBody(params);
+	}
 
-		if (params.systemPrompt) {
-			messages.push({ role: "system", content: params.systemPrompt });
+	buildHeaders(apiKey: string): Record<string, string> {
+		const headers: Record<string, string> = {};
+		if (this.config.protocol === "anthropic") {
+			headers["anthropic-version"] = "2023-06-01";
 		}
+		return { ...headers, ...buildCustomAuthHeaders(this.config, apiKey) };
+	}
 
-		for (const msg of params.messages) {
-			messages.push({ role: msg.role, content: msg.content });
-		}
+	/** ユーザー指定のヘッダーは認証用かどうか判別できないため全てマスク */
+	debugSecrets(): string[] {
+		return Object.values(this.config.headers);
+	}
 
-		const body: Record<string, unknown> = {
-			model: params.model || this._customModelId,
-			messages,
-		};
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		return this.format.parseStreamEvent(json, acc);
+	}
 
-		if (params.temperature !== undefined) {
-			body.temperature = params.temperature;
-		}
-		if (params.maxTokens !== undefined) {
-			body.max_tokens = params.maxTokens;
-		}
-		if (params.stream) {
-			body.stream = true;
-		}
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		return this.format.parseResponse(json);
+	}
 
-		return body;
+	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[], rawParts?: unknown[]): Message {
+		return this.format.buildAssistantToolUseMessage(content, toolUses, rawParts);
 	}
 
-	buildHeaders(apiKey: string): Record<string, string> {
-		if (apiKey) {
-			return {
-				Authorization: `Bearer ${apiKey}`,
-			};
-		}
-		return {};
+	buildToolResultMessages(results: ToolResult[]): Message[] {
+		return this.format.buildToolResultMessages(results);
 	}
 
 	async *chat(params: ChatRequest, apiKey: string): AsyncGenerator<string, ChatResponse, unknown> {
@@ -91,26 +191,64 @@ export class CustomEndpointProvider implements LLMProvider {
 	}
 
 	async validateApiKey(apiKey: string): Promise<boolean> {
-		if (!this._customEndpoint) return false;
-
-		try {
-			// モデル一覧エンドポイントで接続テスト
-			const baseUrl = this._customEndpoint.replace(/\/chat\/completions\/?$/, "");
-			const modelsUrl = `${baseUrl}/models`;
-			const headers: Record<string, string> = {};
-			if (apiKey) {
-				headers.Authorization = `Bearer ${apiKey}`;
-			}
-
-			const response = await requestUrl({
-				url: modelsUrl,
-				method: "GET",
-				headers,
-				throw: false,
-			});
-			return response.status === 200;
-		} catch {
-			return false;
-		}
+		if (!this.config.baseUrl) return false;
+
+		// モデル一覧エンドポイントで接続テスト
+		const response = await requestUrl({
+			url: `${this.getBaseUrl()}/models`,
+			method: "GET",
+			headers: this.buildHeaders(apiKey.trim()),
+			throw: false,
+		});
+		if (response.status === 200) return true;
+		if (response.status === 401 || response.status === 403) return false;
+		throw new Error(`HTTP ${response.status}`);
+	}
+
+	/**
+	 * /models からモデル一覧を取得
+	 * OpenAI / Anthropic 形式: { data: [{ id }] }、Gemini 形式: { models: [{ name: "models/..." }] }
+	 */
+	async fetchModels(apiKey: string): Promise<ModelInfo[]> {
+		const response = await requestUrl({
+			url: `${this.getBaseUrl()}/models`,
+			method: "GET",
+			headers: this.buildHeaders(apiKey.trim()),
+			throw: false,
+		});
+		if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
+
+		const json = response.json as Record<string, unknown>;
+		const ids = Array.isArray(json.models)
+			? (json.models as Array<Record<string, unknown>>).map((m) => String(m.name ?? "").replace(/^models\//, ""))
+			: ((json.data ?? []) as Array<Record<string, unknown>>).map((m) => String(m.id ?? ""));
+		return ids
+			.filter((id) => id.length > 0)
+			.sort((a, b) => a.localeCompare(b))
+			.map((id) => ({ id, name: id, contextWindow: 128000 }));
+	}
+}
+
+/**
+ * 認証ヘッダー + ユーザー指定のヘッダー（ユーザー指定を最優先。Embedding プロバイダーと共用）
+ */
+export function buildCustomAuthHeaders(config: CustomProviderConfig, apiKey: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	if (apiKey && config.authScheme === "bearer") {
+		headers.Authorization = `Bearer ${apiKey}`;
+	} else if (apiKey && config.authScheme === "header") {
+		headers[config.authHeaderName || DEFAULT_AUTH_HEADERS[config.protocol]] = apiKey;
+	}
+	return { ...headers, ...config.headers };
+}
+
+/** プロトコルごとのリクエスト・レスポンス形式の委譲先（Tool Use のメッセージ形式を必ず持つ） */
+type FormatProvider = AnthropicProvider | GeminiProvider | OpenAIProvider;
+
+function createFormatProvider(protocol: CustomProtocol): FormatProvider {
+	switch (protocol) {
+		case "anthropic": return new AnthropicProvider();
+		case "gemini": return new GeminiProvider();
+		default: return new OpenAIProvider();
 	}
 }
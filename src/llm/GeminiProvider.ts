@@ -1,5 +1,19 @@
 import { requestUrl } from "obsidian";
-import type { LLMProvider, ChatRequest, ChatResponse, ModelInfo, Message, ToolUseBlock, ToolResult } from "./LLMProvider";
+import type { LLMProvider, ChatRequest, ChatResponse, ImageLimits, ModelInfo, PdfLimits, Message, StreamAccumulator, StreamDelta, TokenUsage, ToolUseBlock, ToolResult } from "./LLMProvider";
+import { resolveReasoningBudget, resolveReasoningEffort } from "./LLMProvider";
+import { findModelPricing } from "./pricing";
+import { ProviderEndpoint } from "./endpointOverride";
+import { acceptsParam, clampMaxTokens, getModelCapabilities } from "./capabilities";
+
+/** Gemini の inlineData 画像入力上限（1枚7MB、リクエスト全体は20MBまで） */
+const GEMINI_VISION: ImageLimits = { maxImages: 3000, maxImageBytes: 7 * 1024 * 1024 };
+
+
+/** Gemini の inlineData PDF入力上限（リクエスト20MB・1000ページ） */
+const GEMINI_PDF: PdfLimits = { maxBytes: 20 * 1024 * 1024, maxPages: 1000 };
+
+/** Gemini 2.5 以降の思考モデル（最大出力 65,536 トークン） */
+const GEMINI_THINKING: Partial<ModelInfo> = { reasoning: true, maxOutputTokens: 65536 };
 
 /**
  * Google Gemini プロバイダー
@@ -13,26 +27,28 @@ export class GeminiProvider implements LLMProvider {
 	requiresApiKey = true;
 	supportsCORS = true;
 	supportsToolUse = true;
-	apiEndpoint = "https://generativelanguage.googleapis.com/v1beta/";
+	endpoint = new ProviderEndpoint("https://generativelanguage.googleapis.com/v1beta");
+	get apiEndpoint(): string {
+		return this.endpoint.baseUrl;
+	}
 	apiKeyUrl = "https://aistudio.google.com/apikey";
 
 	models: ModelInfo[] = [
-		{ id: "gemini-3.1-pro-preview", name: "Gemini 3.1 Pro (Preview)", contextWindow: 1000000 },
-		{ id: "gemini-3.1-flash-lite-preview", name: "Gemini 3.1 Flash Lite (Preview)", contextWindow: 1000000 },
-		{ id: "gemini-3-pro-preview", name: "Gemini 3 Pro (Preview)", contextWindow: 1000000 },
-		{ id: "gemini-3-flash-preview", name: "Gemini 3 Flash (Preview)", contextWindow: 1000000 },
-		{ id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", contextWindow: 1000000 },
-		{ id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", contextWindow: 1000000 },
+		{ id: "gemini-3.1-pro-preview", name: "Gemini 3.1 Pro (Preview)", contextWindow: 1000000, pricing: { input: 2, output: 12, cacheRead: 0.2 }, vision: GEMINI_VISION, pdf: GEMINI_PDF, ...GEMINI_THINKING },
+		{ id: "gemini-3.1-flash-lite-preview", name: "Gemini 3.1 Flash Lite (Preview)", contextWindow: 1000000, pricing: { input: 0.25, output: 1.5, cacheRead: 0.025 }, vision: GEMINI_VISION, pdf: GEMINI_PDF, ...GEMINI_THINKING },
+		{ id: "gemini-3-pro-preview", name: "Gemini 3 Pro (Preview)", contextWindow: 1000000, pricing: { input: 2, output: 12, cacheRead: 0.2 }, vision: GEMINI_VISION, pdf: GEMINI_PDF, ...GEMINI_THINKING },
+		{ id: "gemini-3-flash-preview", name: "Gemini 3 Flash (Preview)", contextWindow: 1000000, pricing: { input: 0.5, output: 3, cacheRead: 0.05 }, vision: GEMINI_VISION, pdf: GEMINI_PDF, ...GEMINI_THINKING },
+		{ id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", contextWindow: 1000000, pricing: { input: 0.3, output: 2.5, cacheRead: 0.03 }, vision: GEMINI_VISION, pdf: GEMINI_PDF, ...GEMINI_THINKING },
+		{ id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", contextWindow: 1000000, pricing: { input: 1.25, output: 10, cacheRead: 0.125 }, vision: GEMINI_VISION, pdf: GEMINI_PDF, ...GEMINI_THINKING },
 	];
 
 	/**
 	 * Gemini APIのエンドポイントURLを構築
 	 * APIキーはURLパラメータとして含める
 	 */
-	getEndpointUrl(model: string, apiKey: string, stream: boolean): string {
+	getEndpointUrl(params: ChatRequest, apiKey: string, stream: boolean): string {
 		const action = stream ? "streamGenerateContent" : "generateContent";
-		const altParam = stream ? "&alt=sse" : "";
-		return `${this.apiEndpoint}models/${model}:${action}?key=${apiKey}${altParam}`;
+		return this.endpoint.url(`/models/${params.model}:${action}`, stream ? { key: apiKey, alt: "sse" } : { key: apiKey });
 	}
 
 	buildRequestBody(params: ChatRequest): Record<string, unknown> {
@@ -44,9 +60,14 @@ export class GeminiProvider implements LLMProvider {
 				// Tool Use: rawContent contains the full pre-formatted content object
 				contents.push(msg.rawContent as Record<string, unknown>);
 			} else {
+				// 添付画像・PDFは inlineData パートとしてテキストの前に配置
+				const parts: Array<Record<string, unknown>> = (msg.attachments ?? []).map((a) => ({
+					inlineData: { mimeType: a.mimeType, data: a.data },
+				}));
+				parts.push({ text: msg.content });
 				contents.push({
 					role: msg.role === "assistant" ? "model" : "user",
-					parts: [{ text: msg.content }],
+					parts,
 				});
 			}
 		}
@@ -60,8 +81,10 @@ export class GeminiProvider implements LLMProvider {
 			};
 		}
 
+		const caps = getModelCapabilities(this, params.model);
+
 		// Convert common ToolDefinition to Gemini functionDeclarations format
-		if (params.tools && params.tools.length > 0) {
+		if (params.tools && params.tools.length > 0 && caps.tools) {
 			body.tools = [{
 				functionDeclarations: params.tools.map(tool => ({
 					name: tool.name,
@@ -73,11 +96,40 @@ export class GeminiProvider implements LLMProvider {
 
 		// 生成設定
 		const generationConfig: Record<string, unknown> = {};
-		if (params.temperature !== undefined) {
+		if (params.temperature !== undefined && acceptsParam(caps, "temperature")) {
 			generationConfig.temperature = params.temperature;
 		}
-		if (params.maxTokens !== undefined) {
-			generationConfig.maxOutputTokens = params.maxTokens;
+		if (params.topP !== undefined && acceptsParam(caps, "top_p")) {
+			generationConfig.topP = params.topP;
+		}
+		if (params.topK !== undefined && acceptsParam(caps, "top_k")) {
+			generationConfig.topK = params.topK;
+		}
+		if (params.stop && acceptsParam(caps, "stop")) {
+			// 停止シーケンスは最大5つ
+			generationConfig.stopSequences = params.stop.slice(0, 5);
+		}
+		if (params.seed !== undefined && acceptsParam(caps, "seed")) {
+			generationConfig.seed = params.seed;
+		}
+		const maxTokens = clampMaxTokens(params.maxTokens, caps);
+		if (maxTokens !== undefined) {
+			generationConfig.maxOutputTokens = maxTokens;
+		}
+		// 思考設定: Gemini 3 は thinkingLevel、2.5系は thinkingBudget
+		if (params.reasoning && caps.reasoning) {
+			const thinkingConfig: Record<string, unknown> = { includeThoughts: true };
+			if (/^gemini-3/.test(params.model)) {
+				thinkingConfig.thinkingLevel = resolveReasoningEffort(params.reasoning) === "low" ? "low" : "high";
+			} else {
+				thinkingConfig.thinkingBudget = resolveReasoningBudget(params.reasoning);
+			}
+			generationConfig.thinkingConfig = thinkingConfig;
+		}
+		// 構造化出力: responseSchema は OpenAPI サブセットのため非対応キーを除去
+		if (params.responseSchema && caps.jsonMode) {
+			generationConfig.responseMimeType = "application/json";
+			generationConfig.responseSchema = toGeminiSchema(params.responseSchema.schema);
 		}
 		if (Object.keys(generationConfig).length > 0) {
 			body.generationConfig = generationConfig;
@@ -88,7 +140,85 @@ export class GeminiProvider implements LLMProvider {
 
 	buildHeaders(_apiKey: string): Record<string, string> {
 		// Gemini APIはキーをURLパラメータで渡すため、ヘッダーには含めない
-		return {};
+		return this.endpoint.headers();
+	}
+
+	/**
+	 * streamGenerateContent（alt=sse）のイベントを解釈
+	 */
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		const delta: StreamDelta = { text: "", reasoning: "" };
+		// Gemini形式: 各チャンクが candidates[0].content.parts を持つ（functionCall は完結した形で届く）
+		if (json.modelVersion) acc.model = json.modelVersion as string;
+		const usageMeta = json.usageMetadata as Record<string, unknown> | undefined;
+		if (usageMeta) acc.usage = parseGeminiUsage(usageMeta);
+		const candidates = json.candidates as Array<Record<string, unknown>> | undefined;
+		if (candidates && candidates.length > 0) {
+			if (candidates[0].finishReason) acc.finishReason = candidates[0].finishReason as string;
+			const content = candidates[0].content as Record<string, unknown> | undefined;
+			const parts = content?.parts as Array<Record<string, unknown>> | undefined;
+			for (const part of parts ?? []) {
+				appendGeminiRawPart(acc.rawParts, part);
+				if (part.functionCall) {
+					const fc = part.functionCall as Record<string, unknown>;
+					acc.toolCalls.set(acc.toolCalls.size, {
+						id: `gemini-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+						name: (fc.name as string) || "",
+						arguments: JSON.stringify(fc.args ?? {}),
+						rawPart: part, // thoughtSignature を含む part 全体を保持（Gemini 3）
+					});
+				} else if (part.text && part.thought) {
+					delta.reasoning += part.text as string;
+				} else if (part.text) {
+					delta.text += part.text as string;
+				}
+			}
+		}
+		return delta;
+	}
+
+	/**
+	 * generateContent の一括レスポンスを解析
+	 */
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		const candidates = json.candidates as Array<Record<string, unknown>>;
+		const content = candidates?.[0]?.content as Record<string, unknown>;
+		const parts = content?.parts as Array<Record<string, unknown>>;
+		const usageMeta = json.usageMetadata as Record<string, unknown> | undefined;
+
+		// Extract text and functionCall parts
+		let textContent = "";
+		let thoughtContent = "";
+		const toolUses: ToolUseBlock[] = [];
+		if (parts) {
+			for (const part of parts) {
+				if (part.text && part.thought) {
+					thoughtContent += part.text as string;
+				} else if (part.text) {
+					textContent += part.text as string;
+				}
+				if (part.functionCall) {
+					const fc = part.functionCall as Record<string, unknown>;
+					toolUses.push({
+						id: `gemini-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+						name: (fc.name as string) || "",
+						input: (fc.args as Record<string, unknown>) || {},
+						rawPart: part, // Preserve full part including thoughtSignature (Gemini 3)
+					});
+				}
+			}
+		}
+
+		return {
+			content: textContent,
+			model: (json.modelVersion as string) || "",
+			usage: usageMeta ? parseGeminiUsage(usageMeta) : undefined,
+			finishReason: (candidates?.[0]?.finishReason as string) || undefined,
+			reasoning: thoughtContent || undefined,
+			toolUses: toolUses.length > 0 ? toolUses : undefined,
+			// Preserve raw parts for Gemini 3 thought_signature reconstruction
+			rawAssistantParts: parts ? [...parts] : undefined,
+		};
 	}
 
 	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[], rawParts?: unknown[]): Message {
@@ -141,10 +271,10 @@ export class GeminiProvider implements LLMProvider {
 
 	async validateApiKey(apiKey: string): Promise<boolean> {
 		const trimmed = apiKey.trim();
-		const url = `${this.apiEndpoint}models?key=${trimmed}`;
 		const response = await requestUrl({
-			url,
+			url: this.endpoint.url("/models", { key: trimmed }),
 			method: "GET",
+			headers: this.buildHeaders(trimmed),
 			throw: false,
 		});
 		if (response.status === 200) return true;
@@ -152,10 +282,18 @@ export class GeminiProvider implements LLMProvider {
 		throw new Error(`HTTP ${response.status}`);
 	}
 
+	inferCapabilities(model: string): Partial<ModelInfo> {
+		return /^gemini-(2\.5|3)/.test(model) ? GEMINI_THINKING : {};
+	}
+
 	async fetchModels(apiKey: string): Promise<ModelInfo[]> {
 		const trimmed = apiKey.trim();
-		const url = `${this.apiEndpoint}models?key=${trimmed}`;
-		const response = await requestUrl({ url, method: "GET", throw: false });
+		const response = await requestUrl({
+			url: this.endpoint.url("/models", { key: trimmed }),
+			method: "GET",
+			headers: this.buildHeaders(trimmed),
+			throw: false,
+		});
 		if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
 
 		// 取得したい代表シリーズ（優先度順）
@@ -172,11 +310,20 @@ export class GeminiProvider implements LLMProvider {
 				const methods = m.supportedGenerationMethods as string[] | undefined;
 				return methods?.includes("generateContent");
 			})
-			.map(m => ({
-				id: ((m.name as string) || "").replace("models/", ""),
-				name: (m.displayName as string) || (m.name as string) || "",
-				contextWindow: (m.inputTokenLimit as number) || 32000,
-			}));
+			.map(m => {
+				const id = ((m.name as string) || "").replace("models/", "");
+				return {
+					id,
+					name: (m.displayName as string) || (m.name as string) || "",
+					contextWindow: (m.inputTokenLimit as number) || 32000,
+					pricing: findModelPricing(this.models, id),
+					vision: GEMINI_VISION,
+					pdf: GEMINI_PDF,
+					...this.inferCapabilities(id),
+					...(typeof m.outputTokenLimit === "number" ? { maxOutputTokens: m.outputTokenLimit } : {}),
+					...(typeof m.thinking === "boolean" ? { reasoning: m.thinking } : {}),
+				};
+			});
 
 		// 各シリーズから代表1モデルだけを選出
 		const picked: ModelInfo[] = [];
@@ -189,3 +336,53 @@ export class GeminiProvider implements LLMProvider {
 		return picked;
 	}
 }
+
+/**
+ * Gemini の parts を蓄積（連続するプレーンテキスト part は1つに結合）
+ * thought / thoughtSignature / functionCall を持つ part はそのまま保持する
+ */
+function appendGeminiRawPart(rawParts: Array<Record<string, unknown>>, part: Record<string, unknown>): void {
+	const isPlainText = (p: Record<string, unknown>) =>
+		typeof p.text === "string" && Object.keys(p).length === 1;
+	const last = rawParts[rawParts.length - 1];
+	if (last && isPlainText(last) && isPlainText(part)) {
+		last.text = (last.text as string) + (part.text as string);
+	} else {
+		rawParts.push({ ...part });
+	}
+}
+
+/**
+ * usageMetadata を解析（cachedContentTokenCount: 暗黙的/明示的キャッシュのヒット分、promptTokenCount に含まれる）
+ * thoughtsTokenCount（思考トークン）は candidatesTokenCount に含まれないが出力として課金されるため加算する
+ */
+function parseGeminiUsage(usageMeta: Record<string, unknown>): TokenUsage {
+	const usage: TokenUsage = {
+		inputTokens: (usageMeta.promptTokenCount as number) || 0,
+		outputTokens: ((usageMeta.candidatesTokenCount as number) || 0) + ((usageMeta.thoughtsTokenCount as number) || 0),
+	};
+	if (typeof usageMeta.cachedContentTokenCount === "number") {
+		usage.cacheReadTokens = usageMeta.cachedContentTokenCount;
+	}
+	return usage;
+}
+
+/** responseSchema（OpenAPI 3.0 サブセット）が受け付けないキー */
+const GEMINI_UNSUPPORTED_SCHEMA_KEYS = new Set(["$schema", "$id", "additionalProperties", "default", "examples"]);
+
+/**
+ * JSON Schema を Gemini の responseSchema 形式に変換（非対応キーを再帰的に除去）
+ */
+function toGeminiSchema(schema: unknown): unknown {
+	if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+	if (schema === null || typeof schema !== "object") return schema;
+	const result: Record<string, unknown> = {};
+	for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+		if (GEMINI_UNSUPPORTED_SCHEMA_KEYS.has(key)) continue;
+		// properties のキーはプロパティ名なので変換対象はその値のみ
+		result[key] = key === "properties"
+			? Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, toGeminiSchema(v)]))
+			: toGeminiSchema(value);
+	}
+	return result;
+}
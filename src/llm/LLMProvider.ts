@@ -1,37 +1,221 @@
+import type { ProviderEndpoint } from "./endpointOverride";
+import type { StreamCallbacks } from "./streaming";
+
 export interface Message {
 	role: "user" | "assistant" | "system";
 	content: string;
 	rawContent?: unknown;  // Provider-opaque structured content for Tool Use
+	/** 添付ファイル（画像・PDF）。各プロバイダーがネイティブ形式のパートに変換する */
+	attachments?: Attachment[];
+}
+
+/**
+ * メッセージ添付（base64 エンコード済みのバイナリ）
+ */
+export interface Attachment {
+	type: "image" | "pdf";
+	mimeType: string;
+	/** base64（data URL のプレフィックスなし） */
+	data: string;
+	name: string;
 }
 
 export interface ChatRequest {
 	model: string;
 	messages: Message[];
 	systemPrompt?: string;
+	/**
+	 * systemPrompt を安定度の高い順に区切ったもの（プロンプトキャッシュ用）
+	 * 指定時は Anthropic が systemPrompt の代わりに使用する。その他のプロバイダーは systemPrompt を使う
+	 */
+	systemBlocks?: SystemPromptBlock[];
+	/** プロンプトキャッシュの区切りを自動付与（Anthropic: cache_control。OpenAI/Gemini は自動キャッシュのため不要） */
+	promptCaching?: boolean;
 	temperature?: number;
 	maxTokens?: number;
+	/** サンプリングパラメータ（モデルが受け付けないものは各プロバイダーの buildRequestBody が省略する） */
+	topP?: number;
+	topK?: number;
+	stop?: string[];
+	seed?: number;
 	stream?: boolean;
 	tools?: ToolDefinition[];
+	/** 推論（extended thinking / reasoning effort）の要求。未指定ならプロバイダー既定 */
+	reasoning?: ReasoningOptions;
+	/**
+	 * 構造化出力（JSON）のスキーマ
+	 * OpenAI系は response_format、Gemini は responseSchema、Anthropic はツール呼び出しの強制で指定する
+	 * 検証・修復は structuredOutput.ts の sendStructuredRequest() が行う
+	 */
+	responseSchema?: ResponseSchema;
+}
+
+/** システムプロンプトの区切り */
+export interface SystemPromptBlock {
+	text: string;
+	/** このブロックの末尾までをキャッシュ対象にする */
+	cache?: boolean;
+}
+
+/** 区切られたシステムプロンプトを1つの文字列に連結 */
+export function joinSystemBlocks(blocks: SystemPromptBlock[]): string {
+	return blocks.map((b) => b.text).filter((text) => text.length > 0).join("\n\n");
+}
+
+/** 構造化出力の指定 */
+export interface ResponseSchema {
+	/** スキーマ名（Anthropic では強制するツール名として使用） */
+	name: string;
+	description?: string;
+	/** JSON Schema（ルートは object） */
+	schema: Record<string, unknown>;
+}
+
+/**
+ * 推論オプション
+ * effort はOpenAI系、budgetTokens はAnthropic/Gemini系のネイティブ表現。
+ * どちらか一方だけ指定された場合は resolveReasoningBudget / resolveReasoningEffort で相互変換する。
+ */
+export interface ReasoningOptions {
+	effort?: ReasoningEffort;
+	budgetTokens?: number;
+}
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+const REASONING_BUDGETS: Record<ReasoningEffort, number> = {
+	low: 2048,
+	medium: 8192,
+	high: 24576,
+};
+
+/** 推論オプションを思考トークン予算に変換（Anthropic thinking / Gemini thinkingBudget 用） */
+export function resolveReasoningBudget(reasoning: ReasoningOptions): number {
+	if (reasoning.budgetTokens !== undefined) return reasoning.budgetTokens;
+	return REASONING_BUDGETS[reasoning.effort ?? "medium"];
+}
+
+/** 推論オプションを effort レベルに変換（OpenAI reasoning_effort 用） */
+export function resolveReasoningEffort(reasoning: ReasoningOptions): ReasoningEffort {
+	if (reasoning.effort) return reasoning.effort;
+	const budget = reasoning.budgetTokens ?? REASONING_BUDGETS.medium;
+	if (budget < REASONING_BUDGETS.medium) return "low";
+	if (budget < REASONING_BUDGETS.high) return "medium";
+	return "high";
 }
 
 export interface ChatResponse {
 	content: string;
 	model: string;
-	usage?: {
-		inputTokens: number;
-		outputTokens: number;
-	};
+	usage?: TokenUsage;
 	finishReason?: string;
+	/** モデルの推論（thinking）テキスト。プロバイダーが返した場合のみ */
+	reasoning?: string;
 	toolUses?: ToolUseBlock[];
-	/** Raw response parts for providers that need exact reconstruction (e.g. Gemini thought_signature) */
+	/** Raw response parts for providers that need exact reconstruction (e.g. Gemini thought_signature, Anthropic thinking signature) */
 	rawAssistantParts?: unknown[];
+	/** 実際に応答した上流プロバイダー（OpenRouter 等のルーターのみ。model も実際に応答したモデル） */
+	upstreamProvider?: string;
+}
+
+export interface TokenUsage {
+	/** 入力トークン数（キャッシュ読み込み・書き込み分を含む） */
+	inputTokens: number;
+	outputTokens: number;
+	/** inputTokens のうちキャッシュから読み込まれた分 */
+	cacheReadTokens?: number;
+	/** inputTokens のうちキャッシュに書き込まれた分（Anthropic のみ） */
+	cacheWriteTokens?: number;
+	/** プロバイダーが報告した実際のコスト（USD。OpenRouter の usage.cost） */
+	cost?: number;
+}
+
+/** トークン使用量を合算（Tool Use の複数ラウンド等） */
+export function sumUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+	if (!a) return b ? { ...b } : undefined;
+	if (!b) return { ...a };
+	const sum: TokenUsage = {
+		inputTokens: a.inputTokens + b.inputTokens,
+		outputTokens: a.outputTokens + b.outputTokens,
+	};
+	if (a.cacheReadTokens !== undefined || b.cacheReadTokens !== undefined) {
+		sum.cacheReadTokens = (a.cacheReadTokens ?? 0) + (b.cacheReadTokens ?? 0);
+	}
+	if (a.cacheWriteTokens !== undefined || b.cacheWriteTokens !== undefined) {
+		sum.cacheWriteTokens = (a.cacheWriteTokens ?? 0) + (b.cacheWriteTokens ?? 0);
+	}
+	if (a.cost !== undefined || b.cost !== undefined) {
+		sum.cost = (a.cost ?? 0) + (b.cost ?? 0);
+	}
+	return sum;
+}
+
+/**
+ * SSEストリームから組み立て中の応答
+ * テキストに加え、断片的に届くツール呼び出しを index ごとに蓄積する
+ * （streaming.ts が生成し、各プロバイダーの parseStreamEvent が更新する）
+ */
+export interface StreamAccumulator {
+	content: string;
+	reasoning: string;
+	model: string;
+	finishReason?: string;
+	/** ストリーム中に報告された使用量（各プロバイダーとも累積値で届くため上書き） */
+	usage?: TokenUsage;
+	/** 実際に応答した上流プロバイダー（OpenRouter のみ） */
+	upstreamProvider?: string;
+	/** index → 組み立て中のツール呼び出し（arguments は JSON 文字列の断片を連結） */
+	toolCalls: Map<number, { id: string; name: string; arguments: string; rawPart?: unknown }>;
+	/**
+	 * 会話履歴の再構築用に保持する生データ
+	 * Gemini: 受信した parts（thought_signature を含む）
+	 * Anthropic: content block 配列（thinking の signature を含む、index 順）
+	 */
+	rawParts: Array<Record<string, unknown>>;
+}
+
+/** SSEイベント1件から得られる表示用の差分 */
+export interface StreamDelta {
+	text: string;
+	reasoning: string;
 }
 
 export interface ModelInfo {
 	id: string;
 	name: string;
 	contextWindow: number;
-	pricing?: { input: number; output: number }; // per 1M tokens
+	/** 1M トークンあたりの価格（cacheRead / cacheWrite 未指定時は input と同額） */
+	pricing?: { input: number; output: number; cacheRead?: number; cacheWrite?: number };
+	/** 画像入力の上限（未指定 = 画像入力非対応） */
+	vision?: ImageLimits;
+	/** PDFのネイティブ入力の上限（未指定 = 非対応、テキスト抽出で送信） */
+	pdf?: PdfLimits;
+	/** Tool Use に対応するか（未指定 = プロバイダーの supportsToolUse / probeToolUse に従う） */
+	tools?: boolean;
+	/** 推論（thinking / reasoning_effort）に対応するか */
+	reasoning?: boolean;
+	/** JSON モード（構造化出力）に対応するか（false の場合はスキーマをシステムプロンプトで指示する） */
+	jsonMode?: boolean;
+	/** 1回の応答の最大出力トークン数（設定の最大トークン数をこの値までに制限する） */
+	maxOutputTokens?: number;
+	/** 受け付けるサンプリングパラメータ（推論モデルは temperature 等を受け付けない） */
+	samplingParams?: SamplingParam[];
+}
+
+/** プロバイダーに送るサンプリングパラメータ */
+export type SamplingParam = "temperature" | "top_p" | "top_k" | "stop" | "seed";
+
+/** 1リクエストあたりの画像入力の上限 */
+export interface ImageLimits {
+	maxImages: number;
+	/** 画像1枚あたりの最大バイト数（デコード後） */
+	maxImageBytes: number;
+}
+
+/** 1リクエストあたりのPDF入力の上限（全PDFの合計） */
+export interface PdfLimits {
+	maxBytes: number;
+	maxPages: number;
 }
 
 export interface LLMProvider {
@@ -45,10 +229,16 @@ export interface LLMProvider {
 	requiresApiKey: boolean;
 	/** fetch()でのCORS通信が可能か */
 	supportsCORS: boolean;
+	/** ストリームの形式（既定: "sse" = data: 行。"ndjson" = 1行1JSON、Ollama ネイティブAPI） */
+	streamFormat?: "sse" | "ndjson";
 	/** APIエンドポイント */
 	apiEndpoint: string;
+	/** 接続先（組み込みプロバイダーのみ。ベースURL・ヘッダー・クエリの上書き設定を適用する） */
+	endpoint?: ProviderEndpoint;
 	/** API鍵取得用URL（設定画面のリンク用） */
 	apiKeyUrl?: string;
+	/** API鍵以外にデバッグログでマスクする値（ユーザー指定のヘッダー等） */
+	debugSecrets?(): string[];
 
 	/**
 	 * ストリーミング対応チャット
@@ -67,6 +257,12 @@ export interface LLMProvider {
 	 */
 	validateApiKey(apiKey: string): Promise<boolean>;
 
+	/**
+	 * チャットAPIのURLを構築
+	 * モデルやストリーミング有無でURLが変わるプロバイダー（Gemini等）はここで組み立てる
+	 */
+	getEndpointUrl(params: ChatRequest, apiKey: string, stream: boolean): string;
+
 	/**
 	 * リクエストボディを構築（プロバイダー固有のフォーマット）
 	 */
@@ -77,9 +273,27 @@ export interface LLMProvider {
 	 */
 	buildHeaders(apiKey: string): Record<string, string>;
 
+	/**
+	 * SSEイベント（data: 行のJSON。NDJSON の場合は1行）1件を解釈
+	 * ツール呼び出しの断片・使用量・終了理由はアキュムレータに蓄積し、
+	 * 表示すべきテキスト/推論トークンを返す
+	 */
+	parseStreamEvent(event: Record<string, unknown>, acc: StreamAccumulator): StreamDelta;
+
+	/**
+	 * 一括受信（非ストリーミング）レスポンスを解析
+	 */
+	parseResponse(json: Record<string, unknown>): ChatResponse;
+
 	/** Tool Use をサポートするか */
 	supportsToolUse?: boolean;
 
+	/**
+	 * Tool Use の対応がサーバー・モデルによって異なるか
+	 * true の場合は送信前に試験リクエスト（toolProbe.ts）で確認し、結果を接続先・モデル単位でキャッシュする
+	 */
+	probeToolUse?: boolean;
+
 	/** Tool Use 付きアシスタントメッセージを会話履歴用に構築 */
 	buildAssistantToolUseMessage?(content: string, toolUses: ToolUseBlock[], rawParts?: unknown[]): Message;
 
@@ -88,6 +302,23 @@ export interface LLMProvider {
 
 	/** API からモデルリストを動的に取得 */
 	fetchModels?(apiKey: string): Promise<ModelInfo[]>;
+
+	/**
+	 * モデル名から機能を推定（モデル一覧にない・項目が未指定のモデル用。capabilities.ts 参照）
+	 */
+	inferCapabilities?(model: string): Partial<ModelInfo>;
+
+	/**
+	 * 通信を自前で行う（記録・再生用の ReplayProvider）
+	 * 定義されている場合、sendRequest() は HTTP 通信・リトライを行わずこれを呼ぶ
+	 */
+	send?(
+		params: ChatRequest,
+		apiKey: string,
+		onToken?: (token: string) => void,
+		signal?: AbortSignal,
+		callbacks?: StreamCallbacks,
+	): Promise<ChatResponse>;
 }
 
 /** Tool Use 実行結果 */
@@ -1,26 +1,85 @@
 import { Platform, requestUrl } from "obsidian";
-import type { LLMProvider, ChatRequest, ChatResponse, ModelInfo } from "./LLMProvider";
+import type { LLMProvider, ChatRequest, ChatResponse, ImageLimits, Message, ModelInfo, StreamAccumulator, StreamDelta, TokenUsage, ToolResult, ToolUseBlock } from "./LLMProvider";
+import { ProviderEndpoint } from "./endpointOverride";
+import { acceptsParam, clampMaxTokens, getModelCapabilities } from "./capabilities";
+
+/** マルチモーダルモデル（Gemma 3 / Llama 4）の画像入力上限 */
+const OLLAMA_VISION: ImageLimits = { maxImages: 10, maxImageBytes: 20 * 1024 * 1024 };
+
+/** 画像入力に対応する主なモデルファミリー（/api/show で capabilities が取れない古いサーバー用） */
+const VISION_FAMILY_PATTERN = /^(gemma3|llama4|llava|qwen2\.5vl|minicpm-v)/;
+
+/** /api/show でコンテキスト長が取れないモデルの既定値 */
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+/**
+ * リクエストごとのオプション（settings の ollamaNumCtx / ollamaKeepAlive を main.ts が反映）
+ */
+export interface OllamaOptions {
+	/** コンテキスト長（options.num_ctx）。0 = サーバー既定 */
+	numCtx: number;
+	/** モデルをメモリに保持する時間（keep_alive。例: "5m", "1h", "-1"）。空 = サーバー既定 */
+	keepAlive: string;
+}
+
+/** /api/show から得たモデルの詳細 */
+export interface OllamaModelDetails {
+	/** モデル本来のコンテキスト長（model_info の *.context_length） */
+	contextLength?: number;
+	/** "completion" / "tools" / "vision" / "thinking" / "embedding" 等 */
+	capabilities: string[];
+}
+
+/** /api/tags のインストール済みモデル */
+export interface OllamaInstalledModel {
+	name: string;
+	/** バイト数 */
+	size: number;
+	parameterSize?: string;
+	quantization?: string;
+}
+
+/** /api/pull の進捗（completed / total はレイヤー単位のバイト数） */
+export interface OllamaPullProgress {
+	status: string;
+	completed?: number;
+	total?: number;
+}
 
 /**
  * Ollama（ローカルLLM）プロバイダー
- * デスクトップ専用 — localhost:11434 のOpenAI互換APIを使用
+ * デスクトップ専用 — ネイティブAPI（/api/chat、NDJSON ストリーム）を使用
+ * Tool Use・num_ctx・keep_alive・/api/show によるモデル情報の取得に対応
  */
 export class OllamaProvider implements LLMProvider {
 	id = "ollama";
 	name = "Ollama (ローカル)";
 	requiresApiKey = false;
 	supportsCORS = true; // localhost はCORS制約なし
-	apiEndpoint = "http://localhost:11434/v1/chat/completions";
+	supportsToolUse = true;
+	// Tool 対応はモデルごとに異なる（非対応モデルはテキストタグ方式）
+	probeToolUse = true;
+	streamFormat = "ndjson" as const;
+	endpoint = new ProviderEndpoint("http://localhost:11434");
+	get apiEndpoint(): string {
+		return this.endpoint.url("/api/chat");
+	}
 
 	models: ModelInfo[] = [
-		{ id: "llama4-scout", name: "Llama 4 Scout", contextWindow: 512000 },
+		{ id: "llama4-scout", name: "Llama 4 Scout", contextWindow: 512000, vision: OLLAMA_VISION },
 		{ id: "llama3.3", name: "Llama 3.3", contextWindow: 128000 },
-		{ id: "gemma3", name: "Gemma 3", contextWindow: 128000 },
+		{ id: "gemma3", name: "Gemma 3", contextWindow: 128000, vision: OLLAMA_VISION },
 		{ id: "qwen3", name: "Qwen 3", contextWindow: 40960 },
 		{ id: "phi4", name: "Phi 4", contextWindow: 16384 },
 		{ id: "deepseek-r1:8b", name: "DeepSeek R1 8B", contextWindow: 128000 },
 	];
 
+	private options: OllamaOptions = { numCtx: 0, keepAlive: "" };
+	/** モデル名 → /api/show の結果（fetchModels で取得） */
+	private details = new Map<string, OllamaModelDetails>();
+	/** モデル名 → num_ctx で縮める前のコンテキスト長（num_ctx の変更・解除時に元に戻すため） */
+	private declaredContext = new Map<string, number>(this.models.map((m) => [m.id, m.contextWindow]));
+
 	/**
 	 * デスクトップ環境でのみ利用可能
 	 */
@@ -28,38 +87,186 @@ export class OllamaProvider implements LLMProvider {
 		return Platform.isDesktop;
 	}
 
+	configure(options: OllamaOptions): void {
+		this.options = options;
+		// 取得済みモデルのコンテキスト長を num_ctx に合わせて更新
+		this.models = this.models.map((m) => ({ ...m, contextWindow: this.effectiveContext(m.id, this.declaredContext.get(m.id) ?? m.contextWindow) }));
+	}
+
+	getModelDetails(model: string): OllamaModelDetails | undefined {
+		return this.details.get(model);
+	}
+
+	/** 実際に使われるコンテキスト長（num_ctx 指定時はモデル本来の長さを上限に num_ctx） */
+	private effectiveContext(model: string, fallback: number): number {
+		const length = this.details.get(model)?.contextLength ?? fallback;
+		return this.options.numCtx > 0 ? Math.min(this.options.numCtx, length) : length;
+	}
+
+	getEndpointUrl(_params: ChatRequest, _apiKey: string, _stream: boolean): string {
+		return this.apiEndpoint;
+	}
+
 	buildRequestBody(params: ChatRequest): Record<string, unknown> {
-		const messages: Array<Record<string, string>> = [];
+		const messages: Array<Record<string, unknown>> = [];
 
 		if (params.systemPrompt) {
 			messages.push({ role: "system", content: params.systemPrompt });
 		}
 
 		for (const msg of params.messages) {
-			messages.push({ role: msg.role, content: msg.content });
+			if (msg.rawContent) {
+				// Tool Use: rawContent contains the full pre-formatted message
+				messages.push(msg.rawContent as Record<string, unknown>);
+				continue;
+			}
+			const message: Record<string, unknown> = { role: msg.role, content: msg.content };
+			// PDFは送信前にテキスト化される（ここでは画像のみ扱う）
+			const images = msg.attachments?.filter((a) => a.type === "image") ?? [];
+			if (images.length > 0) message.images = images.map((a) => a.data);
+			messages.push(message);
 		}
 
 		const body: Record<string, unknown> = {
 			model: params.model,
 			messages,
+			stream: params.stream === true,
 		};
 
-		if (params.temperature !== undefined) {
-			body.temperature = params.temperature;
+		// Tool 非対応モデルにツールを渡すと 400 になるため、/api/show で非対応と分かっている場合は省略
+		const caps = getModelCapabilities(this, params.model);
+		if (params.tools && params.tools.length > 0 && caps.tools) {
+			body.tools = params.tools.map(tool => ({
+				type: "function",
+				function: {
+					name: tool.name,
+					description: tool.description,
+					parameters: tool.input_schema,
+				},
+			}));
+		}
+
+		const options: Record<string, unknown> = {};
+		if (params.temperature !== undefined && acceptsParam(caps, "temperature")) {
+			options.temperature = params.temperature;
+		}
+		if (params.topP !== undefined && acceptsParam(caps, "top_p")) {
+			options.top_p = params.topP;
+		}
+		if (params.topK !== undefined && acceptsParam(caps, "top_k")) {
+			options.top_k = params.topK;
+		}
+		if (params.stop && acceptsParam(caps, "stop")) {
+			options.stop = params.stop;
+		}
+		if (params.seed !== undefined && acceptsParam(caps, "seed")) {
+			options.seed = params.seed;
+		}
+		const maxTokens = clampMaxTokens(params.maxTokens, caps);
+		if (maxTokens !== undefined) {
+			options.num_predict = maxTokens;
+		}
+		if (this.options.numCtx > 0) {
+			options.num_ctx = this.effectiveContext(params.model, this.options.numCtx);
 		}
-		if (params.maxTokens !== undefined) {
-			body.max_tokens = params.maxTokens;
+		if (Object.keys(options).length > 0) {
+			body.options = options;
 		}
-		if (params.stream) {
-			body.stream = true;
+		if (this.options.keepAlive) {
+			body.keep_alive = this.options.keepAlive;
+		}
+		// 思考非対応モデルに think を指定するとエラーになるため、対応が確認できた場合のみ（fetchModels で設定）
+		if (params.reasoning && caps.reasoning) {
+			body.think = true;
+		}
+		if (params.responseSchema && caps.jsonMode) {
+			body.format = params.responseSchema.schema;
 		}
 
 		return body;
 	}
 
 	buildHeaders(_apiKey: string): Record<string, string> {
-		// Ollamaはデフォルトで認証不要
-		return {};
+		// Ollamaはデフォルトで認証不要（リバースプロキシ経由の認証は上書きヘッダーで指定）
+		return this.endpoint.headers();
+	}
+
+	/**
+	 * NDJSON の1行を解釈
+	 * message.content / message.thinking を逐次返し、tool_calls（1チャンクで完結）を蓄積する。
+	 * done: true の最終行に終了理由と使用量が付く
+	 */
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		const delta: StreamDelta = { text: "", reasoning: "" };
+		if (json.model) acc.model = json.model as string;
+		const message = json.message as Record<string, unknown> | undefined;
+		if (message) {
+			delta.text = (message.content as string) || "";
+			delta.reasoning = (message.thinking as string) || "";
+			for (const call of (message.tool_calls ?? []) as Array<Record<string, unknown>>) {
+				const index = acc.toolCalls.size;
+				const fn = call.function as Record<string, unknown> | undefined;
+				acc.toolCalls.set(index, {
+					id: (call.id as string) || `call_${index}`,
+					name: (fn?.name as string) || "",
+					arguments: JSON.stringify(fn?.arguments ?? {}),
+				});
+			}
+		}
+		if (json.done) {
+			acc.finishReason = (json.done_reason as string) || "stop";
+			acc.usage = parseOllamaUsage(json);
+		}
+		return delta;
+	}
+
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		const message = json.message as Record<string, unknown> | undefined;
+		const toolUses: ToolUseBlock[] = ((message?.tool_calls ?? []) as Array<Record<string, unknown>>).map((call, index) => {
+			const fn = call.function as Record<string, unknown> | undefined;
+			return {
+				id: (call.id as string) || `call_${index}`,
+				name: (fn?.name as string) || "",
+				input: (fn?.arguments as Record<string, unknown>) ?? {},
+			};
+		});
+
+		return {
+			content: (message?.content as string) || "",
+			model: (json.model as string) || "",
+			reasoning: (message?.thinking as string) || undefined,
+			usage: parseOllamaUsage(json),
+			finishReason: (json.done_reason as string) || undefined,
+			toolUses: toolUses.length > 0 ? toolUses : undefined,
+		};
+	}
+
+	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[]): Message {
+		return {
+			role: "assistant",
+			content: content || "",
+			rawContent: {
+				role: "assistant",
+				content: content || "",
+				// ネイティブAPIの arguments は JSON 文字列ではなくオブジェクト
+				tool_calls: toolUses.map(tu => ({
+					function: { name: tu.name, arguments: tu.input },
+				})),
+			},
+		};
+	}
+
+	buildToolResultMessages(results: ToolResult[]): Message[] {
+		// ネイティブAPIは呼び出しIDを持たないため tool_name で対応付ける
+		return results.map(r => ({
+			role: "user" as const,
+			content: r.content,
+			rawContent: {
+				role: "tool",
+				tool_name: r.name,
+				content: r.content,
+			},
+		}));
 	}
 
 	async *chat(params: ChatRequest, apiKey: string): AsyncGenerator<string, ChatResponse, unknown> {
@@ -77,8 +284,9 @@ export class OllamaProvider implements LLMProvider {
 		// requestUrl()を使用（fetch()はObsidianのCSP制約で失敗する場合がある）
 		try {
 			const response = await requestUrl({
-				url: "http://localhost:11434/api/tags",
+				url: this.endpoint.url("/api/tags"),
 				method: "GET",
+				headers: this.buildHeaders(""),
 			});
 			return response.status === 200;
 		} catch {
@@ -86,26 +294,162 @@ export class OllamaProvider implements LLMProvider {
 		}
 	}
 
+	/**
+	 * インストール済みモデルを取得し、/api/show でコンテキスト長と対応機能を補完
+	 */
 	async fetchModels(_apiKey: string): Promise<ModelInfo[]> {
+		const installed = await this.listInstalledModels();
+		const details = await Promise.all(installed.map(async (m) => {
+			try {
+				return await this.showModel(m.name);
+			} catch {
+				// 古いサーバー等で取得できない場合は既定値で扱う
+				return undefined;
+			}
+		}));
+
+		return installed
+			.map((m, i) => ({ model: m, details: details[i] }))
+			// Embedding 専用モデルはチャットに使えないため除外
+			.filter(({ details }) => !details || !details.capabilities.includes("embedding") || details.capabilities.includes("completion"))
+			.map(({ model, details }) => {
+				if (details) this.details.set(model.name, details);
+				this.declaredContext.set(model.name, DEFAULT_CONTEXT_WINDOW);
+				// capabilities が取れない古いサーバーでは tools は対応とみなし（試験リクエストで確認）、思考は送らない
+				const capabilities = details && details.capabilities.length > 0 ? details.capabilities : undefined;
+				const vision = capabilities
+					? capabilities.includes("vision")
+					: VISION_FAMILY_PATTERN.test(model.name);
+				return {
+					id: model.name,
+					name: model.name,
+					contextWindow: this.effectiveContext(model.name, DEFAULT_CONTEXT_WINDOW),
+					vision: vision ? OLLAMA_VISION : undefined,
+					...(capabilities ? { tools: capabilities.includes("tools"), reasoning: capabilities.includes("thinking") } : {}),
+				};
+			});
+	}
+
+	/**
+	 * /api/tags からインストール済みモデルの一覧を取得
+	 */
+	async listInstalledModels(): Promise<OllamaInstalledModel[]> {
 		try {
 			const response = await requestUrl({
-				url: "http://localhost:11434/api/tags",
+				url: this.endpoint.url("/api/tags"),
 				method: "GET",
+				headers: this.buildHeaders(""),
 			});
 			if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
-			const data = response.json;
-			const models = data.models as Array<Record<string, unknown>>;
-			return (models || []).map(m => ({
-				id: (m.name as string) || "",
-				name: (m.name as string) || "",
-				contextWindow: 128000,
-			}));
+			const models = (response.json.models ?? []) as Array<Record<string, unknown>>;
+			return models.map((m) => {
+				const details = m.details as Record<string, unknown> | undefined;
+				return {
+					name: (m.name as string) || "",
+					size: (m.size as number) || 0,
+					parameterSize: details?.parameter_size as string | undefined,
+					quantization: details?.quantization_level as string | undefined,
+				};
+			});
 		} catch (err) {
-			const msg = err instanceof Error ? err.message : String(err);
-			if (msg.includes("ERR_CONNECTION_REFUSED") || msg.includes("Failed to fetch")) {
-				throw new Error("Ollama サーバーに接続できません (localhost:11434)。Ollamaが起動しているか確認してください。");
+			throw this.toConnectionError(err);
+		}
+	}
+
+	/**
+	 * /api/show からコンテキスト長と対応機能を取得
+	 */
+	async showModel(model: string): Promise<OllamaModelDetails> {
+		const response = await requestUrl({
+			url: this.endpoint.url("/api/show"),
+			method: "POST",
+			headers: this.endpoint.headers({ "Content-Type": "application/json" }),
+			body: JSON.stringify({ model }),
+		});
+		const json = response.json as Record<string, unknown>;
+		const modelInfo = (json.model_info ?? {}) as Record<string, unknown>;
+		const lengthKey = Object.keys(modelInfo).find((key) => key.endsWith(".context_length"));
+		return {
+			contextLength: lengthKey ? modelInfo[lengthKey] as number : undefined,
+			capabilities: (json.capabilities ?? []) as string[],
+		};
+	}
+
+	/**
+	 * /api/pull でモデルをダウンロード（NDJSON の進捗を逐次通知）
+	 * 進捗のストリーム受信に fetch() を使用
+	 */
+	async pullModel(model: string, onProgress: (progress: OllamaPullProgress) => void, signal?: AbortSignal): Promise<void> {
+		// /skip -- fetch() is required to read the NDJSON progress stream; requestUrl() does not support streaming response body
+		const response = await fetch(this.endpoint.url("/api/pull"), {
+			method: "POST",
+			headers: this.endpoint.headers({ "Content-Type": "application/json" }),
+			body: JSON.stringify({ model, stream: true }),
+			signal,
+		});
+		if (!response.ok || !response.body) {
+			throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+		}
+
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop() || "";
+				for (const line of lines) {
+					if (!line.trim()) continue;
+					const json = JSON.parse(line) as Record<string, unknown>;
+					if (json.error) throw new Error(json.error as string);
+					onProgress({
+						status: (json.status as string) || "",
+						completed: json.completed as number | undefined,
+						total: json.total as number | undefined,
+					});
+				}
 			}
-			throw err;
+		} finally {
+			reader.releaseLock();
 		}
 	}
+
+	/**
+	 * /api/delete でモデルを削除
+	 */
+	async deleteModel(model: string): Promise<void> {
+		const response = await requestUrl({
+			url: this.endpoint.url("/api/delete"),
+			method: "DELETE",
+			headers: this.endpoint.headers({ "Content-Type": "application/json" }),
+			body: JSON.stringify({ model }),
+			throw: false,
+		});
+		if (response.status !== 200) throw new Error(`HTTP ${response.status}: ${response.text}`);
+		this.details.delete(model);
+		this.declaredContext.delete(model);
+		this.models = this.models.filter((m) => m.id !== model);
+	}
+
+	private toConnectionError(err: unknown): Error {
+		const msg = err instanceof Error ? err.message : String(err);
+		if (msg.includes("ERR_CONNECTION_REFUSED") || msg.includes("Failed to fetch")) {
+			return new Error(`Ollama サーバーに接続できません (${this.endpoint.baseUrl})。Ollamaが起動しているか確認してください。`);
+		}
+		return err instanceof Error ? err : new Error(msg);
+	}
+}
+
+/**
+ * 使用量を解析（prompt_eval_count: 入力、eval_count: 出力。キャッシュ済みプロンプトは prompt_eval_count に含まれない）
+ */
+function parseOllamaUsage(json: Record<string, unknown>): TokenUsage | undefined {
+	if (typeof json.prompt_eval_count !== "number" && typeof json.eval_count !== "number") return undefined;
+	return {
+		inputTokens: (json.prompt_eval_count as number) || 0,
+		outputTokens: (json.eval_count as number) || 0,
+	};
 }
@@ -1,5 +1,23 @@
 import { requestUrl } from "obsidian";
-import type { LLMProvider, ChatRequest, ChatResponse, ModelInfo, Message, ToolUseBlock, ToolResult } from "./LLMProvider";
+import type { LLMProvider, ChatRequest, ChatResponse, ImageLimits, ModelInfo, Message, StreamAccumulator, StreamDelta, ToolUseBlock, ToolResult } from "./LLMProvider";
+import { resolveReasoningEffort } from "./LLMProvider";
+import { buildOpenAIContent, buildOpenAIResponseFormat, parseOpenAIResponse, parseOpenAIStreamEvent } from "./openaiFormat";
+import { findModelPricing } from "./pricing";
+import { ProviderEndpoint } from "./endpointOverride";
+import { buildResponsesRequestBody, isResponsesOutput, parseResponsesResponse, parseResponsesStreamEvent, supportsResponsesApi } from "./openaiResponses";
+import { acceptsParam, clampMaxTokens, getModelCapabilities } from "./capabilities";
+
+/** GPT-5 系の画像入力上限（1リクエスト500枚・1枚20MB） */
+const OPENAI_VISION: ImageLimits = { maxImages: 500, maxImageBytes: 20 * 1024 * 1024 };
+/** 推論モデル（o1/o3/o4系・GPT-5系）: max_completion_tokens を使用、temperature 等は非対応 */
+const OPENAI_REASONING: Partial<ModelInfo> = { reasoning: true, maxOutputTokens: 128000, samplingParams: ["seed"] };
+
+/**
+ * モデル名から機能を推定（Azure のデプロイ・互換サーバーのモデルにも使う）
+ */
+export function inferOpenAICapabilities(model: string): Partial<ModelInfo> {
+	return /^(o[1-9]|gpt-5)/i.test(model) ? OPENAI_REASONING : {};
+}
 
 export class OpenAIProvider implements LLMProvider {
 	id = "openai";
@@ -7,21 +25,46 @@ export class OpenAIProvider implements LLMProvider {
 	requiresApiKey = true;
 	supportsCORS = true;
 	supportsToolUse = true;
-	apiEndpoint = "https://api.openai.com/v1/chat/completions";
+	endpoint = new ProviderEndpoint("https://api.openai.com/v1");
+	get apiEndpoint(): string {
+		return this.endpoint.url("/chat/completions");
+	}
 	apiKeyUrl = "https://platform.openai.com/api-keys";
+	/** Responses API（/v1/responses）で送信するモデル（settings.openaiResponsesModels を main.ts が反映） */
+	responsesModels = new Set<string>();
 
 	models: ModelInfo[] = [
-		{ id: "gpt-5.4", name: "GPT-5.4", contextWindow: 1050000 },
-		{ id: "gpt-5.4-pro", name: "GPT-5.4 Pro", contextWindow: 1050000 },
-		{ id: "gpt-5.4-mini", name: "GPT-5.4 Mini", contextWindow: 400000 },
-		{ id: "gpt-5.4-nano", name: "GPT-5.4 Nano", contextWindow: 400000 },
-		{ id: "gpt-5.2", name: "GPT-5.2", contextWindow: 400000 },
-		{ id: "gpt-5", name: "GPT-5", contextWindow: 400000 },
-		{ id: "gpt-5-mini", name: "GPT-5 Mini", contextWindow: 400000 },
-		{ id: "gpt-5-nano", name: "GPT-5 Nano", contextWindow: 400000 },
+		{ id: "gpt-5.4", name: "GPT-5.4", contextWindow: 1050000, pricing: { input: 2.5, output: 15, cacheRead: 0.25 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
+		{ id: "gpt-5.4-pro", name: "GPT-5.4 Pro", contextWindow: 1050000, pricing: { input: 30, output: 180, cacheRead: 3 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
+		{ id: "gpt-5.4-mini", name: "GPT-5.4 Mini", contextWindow: 400000, pricing: { input: 0.75, output: 4.5, cacheRead: 0.075 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
+		{ id: "gpt-5.4-nano", name: "GPT-5.4 Nano", contextWindow: 400000, pricing: { input: 0.2, output: 1.25, cacheRead: 0.02 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
+		{ id: "gpt-5.2", name: "GPT-5.2", contextWindow: 400000, pricing: { input: 1.75, output: 14, cacheRead: 0.175 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
+		{ id: "gpt-5", name: "GPT-5", contextWindow: 400000, pricing: { input: 1.25, output: 10, cacheRead: 0.125 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
+		{ id: "gpt-5-mini", name: "GPT-5 Mini", contextWindow: 400000, pricing: { input: 0.25, output: 2, cacheRead: 0.025 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
+		{ id: "gpt-5-nano", name: "GPT-5 Nano", contextWindow: 400000, pricing: { input: 0.05, output: 0.4, cacheRead: 0.005 }, vision: OPENAI_VISION, ...OPENAI_REASONING },
 	];
 
+	/**
+	 * Responses API を使うか（ユーザーが選択し、かつモデルが対応している場合のみ。それ以外は Chat Completions）
+	 */
+	usesResponsesApi(model: string): boolean {
+		return this.responsesModels.has(model) && supportsResponsesApi(model);
+	}
+
+	getEndpointUrl(params: ChatRequest, _apiKey: string, _stream: boolean): string {
+		return this.usesResponsesApi(params.model) ? this.endpoint.url("/responses") : this.apiEndpoint;
+	}
+
+	inferCapabilities(model: string): Partial<ModelInfo> {
+		return inferOpenAICapabilities(model);
+	}
+
 	buildRequestBody(params: ChatRequest): Record<string, unknown> {
+		const caps = getModelCapabilities(this, params.model);
+		if (this.usesResponsesApi(params.model)) {
+			return buildResponsesRequestBody(params, caps);
+		}
+
 		const messages: Array<Record<string, unknown>> = [];
 
 		if (params.systemPrompt) {
@@ -31,9 +74,11 @@ export class OpenAIProvider implements LLMProvider {
 		for (const msg of params.messages) {
 			if (msg.rawContent) {
 				// Tool Use: rawContent contains the full pre-formatted message
-				messages.push(msg.rawContent as Record<string, unknown>);
+				// （Responses API の応答ID は Chat Completions には送らない）
+				const { response: _response, ...message } = msg.rawContent as Record<string, unknown>;
+				messages.push(message);
 			} else {
-				messages.push({ role: msg.role, content: msg.content });
+				messages.push({ role: msg.role, content: buildOpenAIContent(msg) });
 			}
 		}
 
@@ -43,7 +88,7 @@ export class OpenAIProvider implements LLMProvider {
 		};
 
 		// Convert common ToolDefinition to OpenAI Function Calling format
-		if (params.tools && params.tools.length > 0) {
+		if (params.tools && params.tools.length > 0 && caps.tools) {
 			body.tools = params.tools.map(tool => ({
 				type: "function",
 				function: {
@@ -54,28 +99,65 @@ export class OpenAIProvider implements LLMProvider {
 			}));
 		}
 
-		// o1/o3/o4系とgpt-5系は max_completion_tokens を使用、temperature非対応
-		const isReasoningOrGpt5 = /^(o[1-9]|gpt-5)/i.test(params.model);
-		if (params.temperature !== undefined && !isReasoningOrGpt5) {
+		if (params.temperature !== undefined && acceptsParam(caps, "temperature")) {
 			body.temperature = params.temperature;
 		}
-		if (params.maxTokens !== undefined) {
-			body[isReasoningOrGpt5 ? "max_completion_tokens" : "max_tokens"] = params.maxTokens;
+		// top_k は OpenAI API にないため送らない
+		if (params.topP !== undefined && acceptsParam(caps, "top_p")) {
+			body.top_p = params.topP;
+		}
+		if (params.stop && acceptsParam(caps, "stop")) {
+			// 停止シーケンスは最大4つ
+			body.stop = params.stop.slice(0, 4);
+		}
+		if (params.seed !== undefined && acceptsParam(caps, "seed")) {
+			body.seed = params.seed;
+		}
+		const maxTokens = clampMaxTokens(params.maxTokens, caps);
+		if (maxTokens !== undefined) {
+			// 推論モデルは max_tokens を受け付けない
+			body[caps.reasoning ? "max_completion_tokens" : "max_tokens"] = maxTokens;
+		}
+		if (params.reasoning && caps.reasoning) {
+			body.reasoning_effort = resolveReasoningEffort(params.reasoning);
+		}
+		if (params.responseSchema && caps.jsonMode) {
+			body.response_format = buildOpenAIResponseFormat(params.responseSchema);
 		}
 		if (params.stream) {
 			body.stream = true;
+			// 最終チャンクで usage を受け取る
+			body.stream_options = { include_usage: true };
 		}
 
 		return body;
 	}
 
 	buildHeaders(apiKey: string): Record<string, string> {
-		return {
+		return this.endpoint.headers({
 			Authorization: `Bearer ${apiKey}`,
-		};
+		});
 	}
 
-	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[]): Message {
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		// Responses API のイベントは type が "response." で始まる
+		if (typeof json.type === "string" && json.type.startsWith("response.")) {
+			return parseResponsesStreamEvent(json, acc);
+		}
+		return parseOpenAIStreamEvent(json, acc);
+	}
+
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		if (json.object === "response") return parseResponsesResponse(json);
+		return parseOpenAIResponse(json);
+	}
+
+	/**
+	 * 履歴は Chat Completions 形式で構築し、Responses API の応答であれば応答IDを添える
+	 * （Responses API 送信時に function_call アイテムへの変換と previous_response_id の連結に使う）
+	 */
+	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[], rawParts?: unknown[]): Message {
+		const response = rawParts?.find(isResponsesOutput);
 		return {
 			role: "assistant",
 			content: content || "",
@@ -90,6 +172,7 @@ export class OpenAIProvider implements LLMProvider {
 						arguments: JSON.stringify(tu.input),
 					},
 				})),
+				...(response ? { response } : {}),
 			},
 		};
 	}
@@ -120,11 +203,9 @@ export class OpenAIProvider implements LLMProvider {
 	async validateApiKey(apiKey: string): Promise<boolean> {
 		const trimmed = apiKey.trim();
 		const response = await requestUrl({
-			url: "https://api.openai.com/v1/models",
+			url: this.endpoint.url("/models"),
 			method: "GET",
-			headers: {
-				Authorization: `Bearer ${trimmed}`,
-			},
+			headers: this.buildHeaders(trimmed),
 			throw: false,
 		});
 		if (response.status === 200) return true;
@@ -135,9 +216,9 @@ export class OpenAIProvider implements LLMProvider {
 	async fetchModels(apiKey: string): Promise<ModelInfo[]> {
 		const trimmed = apiKey.trim();
 		const response = await requestUrl({
-			url: "https://api.openai.com/v1/models",
+			url: this.endpoint.url("/models"),
 			method: "GET",
-			headers: { Authorization: `Bearer ${trimmed}` },
+			headers: this.buildHeaders(trimmed),
 			throw: false,
 		});
 		if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
@@ -161,6 +242,9 @@ export class OpenAIProvider implements LLMProvider {
 				id: m.id as string,
 				name: (m.id as string),
 				contextWindow: 128000,
+				pricing: findModelPricing(this.models, m.id as string),
+				vision: OPENAI_VISION,
+				...inferOpenAICapabilities(m.id as string),
 			}))
 			.sort((a, b) => b.id.localeCompare(a.id));
 
@@ -1,5 +1,47 @@
 import { requestUrl } from "obsidian";
-import type { LLMProvider, ChatRequest, ChatResponse, ModelInfo, Message, ToolUseBlock, ToolResult } from "./LLMProvider";
+import type { LLMProvider, ChatRequest, ChatResponse, ImageLimits, ModelInfo, Message, StreamAccumulator, StreamDelta, ToolUseBlock, ToolResult } from "./LLMProvider";
+import { buildOpenAIContent, buildOpenAIResponseFormat, parseOpenAIResponse, parseOpenAIStreamEvent } from "./openaiFormat";
+import { ProviderEndpoint } from "./endpointOverride";
+import { acceptsParam, ALL_SAMPLING_PARAMS, clampMaxTokens, getModelCapabilities } from "./capabilities";
+
+/**
+ * OpenRouter 固有の設定（settings.openRouter を main.ts が反映）
+ */
+export interface OpenRouterConfig {
+	/** 優先する上流プロバイダー（provider.order。空 = OpenRouter の既定の順序） */
+	providerOrder: string[];
+	/** 優先プロバイダーが使えない場合に他のプロバイダーへ切り替える（provider.allow_fallbacks） */
+	allowFallbacks: boolean;
+	/** 入力を保存・学習に使う可能性のあるプロバイダーを除外（provider.data_collection: "deny"） */
+	denyDataCollection: boolean;
+	/** 選択したモデルが使えない場合に順に試すモデル（models） */
+	fallbackModels: string[];
+	/** コンテキスト長を超えるプロンプトを中央から圧縮（transforms: ["middle-out"]） */
+	middleOut: boolean;
+}
+
+export const DEFAULT_OPENROUTER_CONFIG: OpenRouterConfig = {
+	providerOrder: [],
+	allowFallbacks: true,
+	denyDataCollection: false,
+	fallbackModels: [],
+	middleOut: false,
+};
+
+/** API鍵の情報（/key）。金額は USD */
+export interface OpenRouterKeyInfo {
+	label?: string;
+	/** 使用済みクレジット */
+	usage: number;
+	/** 上限（null = 無制限） */
+	limit: number | null;
+	/** 残りのクレジット（null = 無制限） */
+	limitRemaining: number | null;
+	isFreeTier: boolean;
+}
+
+/** 画像入力上限（経由先で最も厳しい Anthropic の1枚5MBに合わせる） */
+const OPENROUTER_VISION: ImageLimits = { maxImages: 20, maxImageBytes: 5 * 1024 * 1024 };
 
 /**
  * OpenRouter経由で複数のLLMモデルにアクセスするプロバイダー
@@ -11,24 +53,37 @@ export class OpenRouterProvider implements LLMProvider {
 	requiresApiKey = true;
 	supportsCORS = true;
 	supportsToolUse = true;
-	apiEndpoint = "https://openrouter.ai/api/v1/chat/completions";
+	endpoint = new ProviderEndpoint("https://openrouter.ai/api/v1");
+	get apiEndpoint(): string {
+		return this.endpoint.url("/chat/completions");
+	}
 	apiKeyUrl = "https://openrouter.ai/keys";
 
+	private config: OpenRouterConfig = { ...DEFAULT_OPENROUTER_CONFIG };
+
 	models: ModelInfo[] = [
-		{ id: "anthropic/claude-opus-4.6", name: "Claude Opus 4.6 (via OR)", contextWindow: 200000 },
-		{ id: "anthropic/claude-sonnet-4.6", name: "Claude Sonnet 4.6 (via OR)", contextWindow: 200000 },
-		{ id: "anthropic/claude-haiku-4.5", name: "Claude Haiku 4.5 (via OR)", contextWindow: 200000 },
-		{ id: "openai/gpt-5.4", name: "GPT-5.4 (via OR)", contextWindow: 1000000 },
-		{ id: "openai/gpt-5.4-pro", name: "GPT-5.4 Pro (via OR)", contextWindow: 1000000 },
-		{ id: "openai/gpt-5.2", name: "GPT-5.2 (via OR)", contextWindow: 400000 },
-		{ id: "openai/gpt-5", name: "GPT-5 (via OR)", contextWindow: 400000 },
-		{ id: "google/gemini-3.1-pro-preview", name: "Gemini 3.1 Pro (via OR)", contextWindow: 1000000 },
-		{ id: "google/gemini-2.5-flash", name: "Gemini 2.5 Flash (via OR)", contextWindow: 1000000 },
-		{ id: "google/gemini-2.5-pro", name: "Gemini 2.5 Pro (via OR)", contextWindow: 1000000 },
-		{ id: "meta-llama/llama-4-scout", name: "Llama 4 Scout (via OR)", contextWindow: 512000 },
-		{ id: "deepseek/deepseek-r1", name: "DeepSeek R1 (via OR)", contextWindow: 163840 },
+		{ id: "anthropic/claude-opus-4.6", name: "Claude Opus 4.6 (via OR)", contextWindow: 200000, pricing: { input: 5, output: 25 }, vision: OPENROUTER_VISION, reasoning: true },
+		{ id: "anthropic/claude-sonnet-4.6", name: "Claude Sonnet 4.6 (via OR)", contextWindow: 200000, pricing: { input: 3, output: 15 }, vision: OPENROUTER_VISION, reasoning: true },
+		{ id: "anthropic/claude-haiku-4.5", name: "Claude Haiku 4.5 (via OR)", contextWindow: 200000, pricing: { input: 1, output: 5 }, vision: OPENROUTER_VISION, reasoning: true },
+		{ id: "openai/gpt-5.4", name: "GPT-5.4 (via OR)", contextWindow: 1000000, pricing: { input: 2.5, output: 15 }, vision: OPENROUTER_VISION, reasoning: true, samplingParams: ["seed"] },
+		{ id: "openai/gpt-5.4-pro", name: "GPT-5.4 Pro (via OR)", contextWindow: 1000000, pricing: { input: 30, output: 180 }, vision: OPENROUTER_VISION, reasoning: true, samplingParams: ["seed"] },
+		{ id: "openai/gpt-5.2", name: "GPT-5.2 (via OR)", contextWindow: 400000, pricing: { input: 1.75, output: 14 }, vision: OPENROUTER_VISION, reasoning: true, samplingParams: ["seed"] },
+		{ id: "openai/gpt-5", name: "GPT-5 (via OR)", contextWindow: 400000, pricing: { input: 1.25, output: 10 }, vision: OPENROUTER_VISION, reasoning: true, samplingParams: ["seed"] },
+		{ id: "google/gemini-3.1-pro-preview", name: "Gemini 3.1 Pro (via OR)", contextWindow: 1000000, pricing: { input: 2, output: 12 }, vision: OPENROUTER_VISION, reasoning: true },
+		{ id: "google/gemini-2.5-flash", name: "Gemini 2.5 Flash (via OR)", contextWindow: 1000000, pricing: { input: 0.3, output: 2.5 }, vision: OPENROUTER_VISION, reasoning: true },
+		{ id: "google/gemini-2.5-pro", name: "Gemini 2.5 Pro (via OR)", contextWindow: 1000000, pricing: { input: 1.25, output: 10 }, vision: OPENROUTER_VISION, reasoning: true },
+		{ id: "meta-llama/llama-4-scout", name: "Llama 4 Scout (via OR)", contextWindow: 512000, pricing: { input: 0.08, output: 0.3 }, vision: OPENROUTER_VISION, reasoning: false },
+		{ id: "deepseek/deepseek-r1", name: "DeepSeek R1 (via OR)", contextWindow: 163840, pricing: { input: 0.4, output: 2 }, reasoning: true },
 	];
 
+	configure(config: OpenRouterConfig): void {
+		this.config = config;
+	}
+
+	getEndpointUrl(_params: ChatRequest, _apiKey: string, _stream: boolean): string {
+		return this.apiEndpoint;
+	}
+
 	buildRequestBody(params: ChatRequest): Record<string, unknown> {
 		const messages: Array<Record<string, unknown>> = [];
 
@@ -40,7 +95,7 @@ export class OpenRouterProvider implements LLMProvider {
 			if (msg.rawContent) {
 				messages.push(msg.rawContent as Record<string, unknown>);
 			} else {
-				messages.push({ role: msg.role, content: msg.content });
+				messages.push({ role: msg.role, content: buildOpenAIContent(msg) });
 			}
 		}
 
@@ -49,14 +104,35 @@ export class OpenRouterProvider implements LLMProvider {
 			messages,
 		};
 
-		if (params.temperature !== undefined) {
+		const caps = getModelCapabilities(this, params.model);
+		if (params.temperature !== undefined && acceptsParam(caps, "temperature")) {
 			body.temperature = params.temperature;
 		}
-		if (params.maxTokens !== undefined) {
-			body.max_tokens = params.maxTokens;
+		// 上流が受け付けるかは supported_parameters（fetchModels で取得）で判定
+		if (params.topP !== undefined && acceptsParam(caps, "top_p")) {
+			body.top_p = params.topP;
+		}
+		if (params.topK !== undefined && acceptsParam(caps, "top_k")) {
+			body.top_k = params.topK;
+		}
+		if (params.stop && acceptsParam(caps, "stop")) {
+			body.stop = params.stop;
+		}
+		if (params.seed !== undefined && acceptsParam(caps, "seed")) {
+			body.seed = params.seed;
+		}
+		const maxTokens = clampMaxTokens(params.maxTokens, caps);
+		if (maxTokens !== undefined) {
+			body.max_tokens = maxTokens;
+		}
+		// 統一 reasoning パラメータ（上流プロバイダーに応じてOpenRouterが変換）
+		if (params.reasoning && caps.reasoning) {
+			body.reasoning = params.reasoning.budgetTokens !== undefined
+				? { max_tokens: params.reasoning.budgetTokens }
+				: { effort: params.reasoning.effort ?? "medium" };
 		}
 		// OpenAI-compatible Function Calling format
-		if (params.tools && params.tools.length > 0) {
+		if (params.tools && params.tools.length > 0 && caps.tools) {
 			body.tools = params.tools.map(tool => ({
 				type: "function",
 				function: {
@@ -67,19 +143,62 @@ export class OpenRouterProvider implements LLMProvider {
 			}));
 		}
 
+		if (params.responseSchema && caps.jsonMode) {
+			body.response_format = buildOpenAIResponseFormat(params.responseSchema);
+		}
+
+		// ルーティング: 上流プロバイダーの優先順・切り替え可否・データ保存の拒否
+		const routing: Record<string, unknown> = {};
+		if (this.config.providerOrder.length > 0) {
+			routing.order = this.config.providerOrder;
+		}
+		if (!this.config.allowFallbacks) {
+			routing.allow_fallbacks = false;
+		}
+		if (this.config.denyDataCollection) {
+			routing.data_collection = "deny";
+		}
+		if (Object.keys(routing).length > 0) {
+			body.provider = routing;
+		}
+		// モデルのフォールバック（応答したモデルはレスポンスの model で分かる）
+		const fallbackModels = this.config.fallbackModels.filter((m) => m !== params.model);
+		if (fallbackModels.length > 0) {
+			body.models = [params.model, ...fallbackModels];
+		}
+		if (this.config.middleOut) {
+			body.transforms = ["middle-out"];
+		}
+		// 実際に課金された額を usage.cost で受け取る
+		body.usage = { include: true };
+
 		if (params.stream) {
 			body.stream = true;
+			// 最終チャンクで usage を受け取る
+			body.stream_options = { include_usage: true };
 		}
 
 		return body;
 	}
 
 	buildHeaders(apiKey: string): Record<string, string> {
-		return {
+		return this.endpoint.headers({
 			Authorization: `Bearer ${apiKey}`,
 			"HTTP-Referer": "https://obsidian.md",
 			"X-Title": "Obsidian LLM Assistant",
-		};
+		});
+	}
+
+	/** チャンク・レスポンスの provider は実際に応答した上流プロバイダー */
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		if (typeof json.provider === "string") acc.upstreamProvider = json.provider;
+		return parseOpenAIStreamEvent(json, acc);
+	}
+
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		const response = parseOpenAIResponse(json);
+		if (typeof json.provider === "string") response.upstreamProvider = json.provider;
+		return response;
 	}
 
 	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[]): Message {
@@ -119,11 +238,9 @@ export class OpenRouterProvider implements LLMProvider {
 	async validateApiKey(apiKey: string): Promise<boolean> {
 		const trimmed = apiKey.trim();
 		const response = await requestUrl({
-			url: "https://openrouter.ai/api/v1/models",
+			url: this.endpoint.url("/models"),
 			method: "GET",
-			headers: {
-				Authorization: `Bearer ${trimmed}`,
-			},
+			headers: this.buildHeaders(trimmed),
 			throw: false,
 		});
 		if (response.status === 200) return true;
@@ -131,21 +248,55 @@ export class OpenRouterProvider implements LLMProvider {
 		throw new Error(`HTTP ${response.status}`);
 	}
 
+	/**
+	 * 一覧にないモデルは reasoning を送る（非対応のモデルでは OpenRouter が無視する）
+	 */
+	inferCapabilities(_model: string): Partial<ModelInfo> {
+		return { reasoning: true };
+	}
+
+	/**
+	 * API鍵の使用状況・残りのクレジットを取得
+	 */
+	async fetchKeyInfo(apiKey: string): Promise<OpenRouterKeyInfo> {
+		const response = await requestUrl({
+			url: this.endpoint.url("/key"),
+			method: "GET",
+			headers: this.buildHeaders(apiKey.trim()),
+			throw: false,
+		});
+		if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
+
+		const data = (response.json as Record<string, unknown>).data as Record<string, unknown>;
+		return {
+			label: typeof data.label === "string" ? data.label : undefined,
+			usage: (data.usage as number) || 0,
+			limit: typeof data.limit === "number" ? data.limit : null,
+			limitRemaining: typeof data.limit_remaining === "number" ? data.limit_remaining : null,
+			isFreeTier: data.is_free_tier === true,
+		};
+	}
+
 	async fetchModels(apiKey: string): Promise<ModelInfo[]> {
 		const trimmed = apiKey.trim();
 		const response = await requestUrl({
-			url: "https://openrouter.ai/api/v1/models",
+			url: this.endpoint.url("/models"),
 			method: "GET",
-			headers: { Authorization: `Bearer ${trimmed}` },
+			headers: this.buildHeaders(trimmed),
 			throw: false,
 		});
 		if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
 
 		const data = response.json.data as Array<Record<string, unknown>>;
-		const allModels = data.map(m => ({
+		const allModels: ModelInfo[] = data.map(m => ({
 			id: m.id as string,
 			name: (m.name as string) || (m.id as string),
 			contextWindow: (m.context_length as number) || 128000,
+			pricing: this.parsePricing(m.pricing as Record<string, unknown> | undefined),
+			vision: ((m.architecture as Record<string, unknown> | undefined)?.input_modalities as string[] | undefined)
+				?.includes("image") ? OPENROUTER_VISION : undefined,
+			maxOutputTokens: ((m.top_provider as Record<string, unknown> | undefined)?.max_completion_tokens as number | null | undefined) ?? undefined,
+			...parseSupportedParameters(m.supported_parameters),
 		}));
 
 		// 取得したいシリーズ（優先度順）— 各シリーズから最新1つだけ選出
@@ -174,4 +325,29 @@ export class OpenRouterProvider implements LLMProvider {
 		}
 		return picked;
 	}
+
+	/**
+	 * OpenRouter の価格（1トークンあたりのUSD文字列）を 1M トークンあたりに変換
+	 */
+	private parsePricing(pricing: Record<string, unknown> | undefined): ModelInfo["pricing"] {
+		if (!pricing) return undefined;
+		const input = parseFloat(pricing.prompt as string);
+		const output = parseFloat(pricing.completion as string);
+		if (isNaN(input) || isNaN(output) || input < 0 || output < 0) return undefined;
+		return { input: input * 1_000_000, output: output * 1_000_000 };
+	}
+}
+
+/**
+ * /models の supported_parameters から機能を判定（未取得なら推定・既定値に任せる）
+ */
+function parseSupportedParameters(value: unknown): Partial<ModelInfo> {
+	if (!Array.isArray(value)) return {};
+	const supported = value as string[];
+	return {
+		tools: supported.includes("tools"),
+		reasoning: supported.includes("reasoning") || supported.includes("include_reasoning"),
+		jsonMode: supported.includes("response_format") || supported.includes("structured_outputs"),
+		samplingParams: ALL_SAMPLING_PARAMS.filter((p) => supported.includes(p)),
+	};
 }
@@ -5,7 +5,7 @@ import { AnthropicProvider } from "./AnthropicProvider";
 import { GeminiProvider } from "./GeminiProvider";
 import { OpenRouterProvider } from "./OpenRouterProvider";
 import { OllamaProvider } from "./OllamaProvider";
-import { CustomEndpointProvider } from "./CustomEndpointProvider";
+import { AzureOpenAIProvider } from "./AzureOpenAIProvider";
 
 /**
  * LLMプロバイダーの動的管理レジストリ
@@ -22,19 +22,24 @@ export class ProviderRegistry {
 		this.register(new AnthropicProvider());
 		this.register(new GeminiProvider());
 		this.register(new OpenRouterProvider());
+		// Azure OpenAI の接続設定は main.ts が settings.azure から反映する
+		this.register(new AzureOpenAIProvider());
 
 		// Ollamaはデスクトップのみ登録
 		if (Platform.isDesktop) {
 			this.register(new OllamaProvider());
 		}
-
-		this.register(new CustomEndpointProvider());
+		// カスタムエンドポイント・記録/再生（ReplayProvider）は設定から main.ts が登録する
 	}
 
 	register(provider: LLMProvider): void {
 		this.providers.set(provider.id, provider);
 	}
 
+	unregister(id: string): void {
+		this.providers.delete(id);
+	}
+
 	get(id: string): LLMProvider | undefined {
 		return this.providers.get(id);
 	}
@@ -0,0 +1,380 @@
+import type { App } from "obsidian";
+import type { LLMProvider, ChatRequest, ChatResponse, Message, ModelInfo, StreamAccumulator, StreamDelta, ToolResult, ToolUseBlock } from "./LLMProvider";
+import type { ProviderRegistry } from "./ProviderRegistry";
+import { sendRequest, type StreamCallbacks } from "./streaming";
+
+/**
+ * 記録・再生（ReplayProvider）の設定（settings.replay に保存）
+ *   record: 対象プロバイダーに実際に送信し、リクエストと応答をフィクスチャとして保存
+ *   replay: 通信せず、同じリクエストのフィクスチャを再生（見つからなければエラー）
+ */
+export interface ReplayConfig {
+	mode: "off" | "record" | "replay";
+	/** 記録・再生の対象プロバイダーID（モデル一覧・メッセージ形式もこのプロバイダーに従う） */
+	target: string;
+	/** フィクスチャの保存先（Vault からの相対パス。空ならプラグインフォルダの fixtures） */
+	folder: string;
+	/** 記録時のトークン間隔を再現する（オフなら即座に出力） */
+	preserveTiming: boolean;
+}
+
+export const DEFAULT_REPLAY_CONFIG: ReplayConfig = { mode: "off", target: "openai", folder: "", preserveTiming: true };
+
+/** 出力1回分（記録開始からの経過時間 ms と、本文または推論のトークン） */
+export interface ReplayChunk {
+	t: number;
+	text?: string;
+	reasoning?: string;
+}
+
+/** フィクスチャ（1リクエスト = 1ファイル。Tool Use の各ラウンドはそれぞれ別のリクエストとして記録される） */
+export interface ReplayFixture {
+	version: 1;
+	hash: string;
+	recordedAt: number;
+	provider: string;
+	model: string;
+	/** 正規化したリクエスト（ハッシュの元データ。差分の確認用） */
+	request: Record<string, unknown>;
+	chunks: ReplayChunk[];
+	response: ChatResponse;
+}
+
+/** 正規化時に添付データを短縮する長さ（先頭・末尾それぞれ） */
+const ATTACHMENT_EDGE = 64;
+
+/**
+ * リクエストを正規化（ストリーミング有無・キャッシュ指定など応答内容に影響しない項目を除き、キー順を揃える）
+ * ChatRequest に応答へ影響する項目を追加した場合はここにも追加する（漏れると別のリクエストが同じフィクスチャになる）
+ */
+export function normalizeRequest(params: ChatRequest): Record<string, unknown> {
+	return sortKeys({
+		model: params.model,
+		systemPrompt: params.systemPrompt ?? "",
+		messages: params.messages.map((m: Message) => ({
+			role: m.role,
+			content: m.content,
+			rawContent: m.rawContent,
+			attachments: m.attachments?.map((a) => ({
+				type: a.type,
+				mimeType: a.mimeType,
+				name: a.name,
+				// base64 全体はフィクスチャが肥大化するため長さと両端で識別する
+				data: a.data.length > ATTACHMENT_EDGE * 2
+					? `${a.data.length}:${a.data.slice(0, ATTACHMENT_EDGE)}…${a.data.slice(-ATTACHMENT_EDGE)}`
+					: a.data,
+			})),
+		})),
+		tools: params.tools,
+		responseSchema: params.responseSchema,
+		reasoning: params.reasoning,
+		temperature: params.temperature,
+		maxTokens: params.maxTokens,
+		topP: params.topP,
+		topK: params.topK,
+		stop: params.stop,
+		seed: params.seed,
+	}) as Record<string, unknown>;
+}
+
+/**
+ * 正規化したリクエストの SHA-256（16進、先頭32文字をフィクスチャのファイル名に使う）
+ */
+export async function hashRequest(params: ChatRequest): Promise<string> {
+	const bytes = new TextEncoder().encode(JSON.stringify(normalizeRequest(params)));
+	const digest = await crypto.subtle.digest("SHA-256", bytes);
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("").slice(0, 32);
+}
+
+/** オブジェクトのキーを再帰的に整列（undefined は除去） */
+function sortKeys(value: unknown): unknown {
+	if (Array.isArray(value)) return value.map(sortKeys);
+	if (value && typeof value === "object") {
+		const result: Record<string, unknown> = {};
+		for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+			const v = (value as Record<string, unknown>)[key];
+			if (v !== undefined) result[key] = sortKeys(v);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * 記録・再生プロバイダー
+ * オフライン開発・デモ・ChatView の Tool Use ループの不具合再現用。
+ * 記録時は対象プロバイダーに sendRequest() で送信し、トークンの出力タイミングと最終応答を保存する。
+ * 再生時は正規化したリクエストのハッシュでフィクスチャを引き、通信・課金なしで同じ応答を返す。
+ * リクエストボディ・Tool Use のメッセージ形式は対象プロバイダーに委譲する（同じ履歴から同じハッシュになる）。
+ */
+export class ReplayProvider implements LLMProvider {
+	id = "replay";
+	name = "Replay";
+	requiresApiKey = false;
+	supportsCORS = true;
+	apiEndpoint = "";
+
+	private app: App;
+	private registry: ProviderRegistry;
+	private resolveApiKey: (providerId: string) => Promise<string>;
+	private config: ReplayConfig = { ...DEFAULT_REPLAY_CONFIG };
+	/** フィクスチャから見つけたモデル（対象プロバイダーの一覧にないもの） */
+	private fixtureModels: ModelInfo[] = [];
+
+	constructor(app: App, registry: ProviderRegistry, resolveApiKey: (providerId: string) => Promise<string>) {
+		this.app = app;
+		this.registry = registry;
+		this.resolveApiKey = resolveApiKey;
+	}
+
+	configure(config: ReplayConfig): void {
+		this.config = config;
+		const target = this.registry.get(config.target);
+		const label = config.mode === "record" ? "Record" : "Replay";
+		this.name = target ? `${label}: ${target.name}` : label;
+	}
+
+	getConfig(): ReplayConfig {
+		return this.config;
+	}
+
+	/** 対象プロバイダーのモデル + フィクスチャにだけあるモデル（対象のモデル取得後も追従するため都度参照） */
+	get models(): ModelInfo[] {
+		const own = this.target?.models ?? [];
+		const ids = new Set(own.map((m) => m.id));
+		return [...own, ...this.fixtureModels.filter((m) => !ids.has(m.id))];
+	}
+
+	set models(models: ModelInfo[]) {
+		this.fixtureModels = models;
+	}
+
+	get supportsToolUse(): boolean {
+		return this.target?.supportsToolUse ?? false;
+	}
+
+	inferCapabilities(model: string): Partial<ModelInfo> {
+		return this.target?.inferCapabilities?.(model) ?? {};
+	}
+
+	private get target(): LLMProvider | undefined {
+		const target = this.registry.get(this.config.target);
+		return target === this ? undefined : target;
+	}
+
+	/** メッセージ形式の委譲先（対象プロバイダーが未登録ならエラー） */
+	private get format(): LLMProvider {
+		const target = this.target;
+		if (!target) throw new Error(`Replay: target provider "${this.config.target}" is not available`);
+		return target;
+	}
+
+	private get folder(): string {
+		const folder = this.config.folder.trim().replace(/\/+$/, "");
+		return folder || `${this.app.vault.configDir}/plugins/llm-assistant/fixtures`;
+	}
+
+	/**
+	 * 記録または再生（sendRequest() から HTTP 通信の代わりに呼ばれる）
+	 */
+	async send(
+		params: ChatRequest,
+		_apiKey: string,
+		onToken?: (token: string) => void,
+		signal?: AbortSignal,
+		callbacks?: StreamCallbacks,
+	): Promise<ChatResponse> {
+		const hash = await hashRequest(params);
+		if (this.config.mode === "replay") {
+			return this.replay(hash, onToken, signal, callbacks);
+		}
+		return this.record(hash, params, onToken, signal, callbacks);
+	}
+
+	private async record(
+		hash: string,
+		params: ChatRequest,
+		onToken: ((token: string) => void) | undefined,
+		signal: AbortSignal | undefined,
+		callbacks: StreamCallbacks | undefined,
+	): Promise<ChatResponse> {
+		const target = this.format;
+		const apiKey = await this.resolveApiKey(target.id);
+		const startedAt = Date.now();
+		const chunks: ReplayChunk[] = [];
+
+		const response = await sendRequest(
+			target,
+			params,
+			apiKey,
+			onToken && ((token: string) => {
+				chunks.push({ t: Date.now() - startedAt, text: token });
+				onToken(token);
+			}),
+			signal,
+			{
+				...callbacks,
+				onReasoning: (token: string) => {
+					chunks.push({ t: Date.now() - startedAt, reasoning: token });
+					callbacks?.onReasoning?.(token);
+				},
+			},
+		);
+
+		const fixture: ReplayFixture = {
+			version: 1,
+			hash,
+			recordedAt: startedAt,
+			provider: target.id,
+			model: params.model,
+			request: normalizeRequest(params),
+			chunks,
+			response,
+		};
+		try {
+			await this.writeFixture(fixture);
+		} catch (e) {
+			// 保存できなくても応答は返す
+			console.warn("Replay: failed to save fixture:", e);
+		}
+		return response;
+	}
+
+	private async replay(
+		hash: string,
+		onToken: ((token: string) => void) | undefined,
+		signal: AbortSignal | undefined,
+		callbacks: StreamCallbacks | undefined,
+	): Promise<ChatResponse> {
+		const fixture = await this.readFixture(hash);
+		if (!fixture) {
+			throw new Error(`Replay: no fixture for this request (${hash}). Record it first.`);
+		}
+
+		let elapsed = 0;
+		for (const chunk of fixture.chunks) {
+			if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+			if (this.config.preserveTiming && chunk.t > elapsed) {
+				await sleep(chunk.t - elapsed);
+				elapsed = chunk.t;
+			}
+			if (chunk.reasoning) callbacks?.onReasoning?.(chunk.reasoning);
+			if (chunk.text) onToken?.(chunk.text);
+		}
+		return fixture.response;
+	}
+
+	private fixturePath(hash: string): string {
+		return `${this.folder}/${hash}.json`;
+	}
+
+	private async readFixture(hash: string): Promise<ReplayFixture | null> {
+		const path = this.fixturePath(hash);
+		if (!(await this.app.vault.adapter.exists(path))) return null;
+		return JSON.parse(await this.app.vault.adapter.read(path)) as ReplayFixture;
+	}
+
+	private async writeFixture(fixture: ReplayFixture): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		// 多階層パス対応: 上位から順にフォルダを作成
+		let current = "";
+		for (const part of this.folder.split("/")) {
+			current = current ? `${current}/${part}` : part;
+			if (!(await adapter.exists(current))) await adapter.mkdir(current);
+		}
+		await adapter.write(this.fixturePath(fixture.hash), JSON.stringify(fixture, null, "\t"));
+	}
+
+	/**
+	 * 保存済みのフィクスチャ（ファイル名・プロバイダー・モデル）
+	 */
+	async listFixtures(): Promise<Array<{ path: string; provider: string; model: string }>> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folder))) return [];
+		const files = (await adapter.list(this.folder)).files.filter((f) => f.endsWith(".json"));
+		const result: Array<{ path: string; provider: string; model: string }> = [];
+		for (const path of files) {
+			try {
+				const fixture = JSON.parse(await adapter.read(path)) as ReplayFixture;
+				result.push({ path, provider: fixture.provider, model: fixture.model });
+			} catch {
+				// フィクスチャ以外の JSON は無視
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * 保存済みのフィクスチャをすべて削除
+	 * @returns 削除した件数
+	 */
+	async clearFixtures(): Promise<number> {
+		const fixtures = await this.listFixtures();
+		for (const fixture of fixtures) {
+			await this.app.vault.adapter.remove(fixture.path);
+		}
+		return fixtures.length;
+	}
+
+	getEndpointUrl(params: ChatRequest, apiKey: string, stream: boolean): string {
+		return this.format.getEndpointUrl(params, apiKey, stream);
+	}
+
+	buildRequestBody(params: ChatRequest): Record<string, unknown> {
+		return this.format.buildRequestBody(params);
+	}
+
+	buildHeaders(apiKey: string): Record<string, string> {
+		return this.format.buildHeaders(apiKey);
+	}
+
+	parseStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+		return this.format.parseStreamEvent(json, acc);
+	}
+
+	parseResponse(json: Record<string, unknown>): ChatResponse {
+		return this.format.parseResponse(json);
+	}
+
+	buildAssistantToolUseMessage(content: string, toolUses: ToolUseBlock[], rawParts?: unknown[]): Message {
+		const target = this.format;
+		if (target.buildAssistantToolUseMessage) return target.buildAssistantToolUseMessage(content, toolUses, rawParts);
+		return { role: "assistant", content };
+	}
+
+	buildToolResultMessages(results: ToolResult[]): Message[] {
+		return this.format.buildToolResultMessages?.(results) ?? [];
+	}
+
+	async *chat(params: ChatRequest, apiKey: string): AsyncGenerator<string, ChatResponse, unknown> {
+		const response = await this.chatComplete(params, apiKey);
+		yield response.content;
+		return response;
+	}
+
+	chatComplete(_params: ChatRequest, _apiKey: string): Promise<ChatResponse> {
+		throw new Error("Use sendRequest() from streaming.ts instead of calling chatComplete directly");
+	}
+
+	validateApiKey(_apiKey: string): Promise<boolean> {
+		return Promise.resolve(true);
+	}
+
+	/**
+	 * フィクスチャに記録されたモデル（対象プロバイダーの一覧にないものを補う）
+	 */
+	async fetchModels(_apiKey: string): Promise<ModelInfo[]> {
+		const seen = new Set<string>();
+		const models: ModelInfo[] = [];
+		for (const fixture of await this.listFixtures()) {
+			if (fixture.provider !== this.config.target || seen.has(fixture.model)) continue;
+			seen.add(fixture.model);
+			models.push({ id: fixture.model, name: fixture.model, contextWindow: 128000 });
+		}
+		return models;
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,97 @@
+import type { Attachment, ImageLimits, ModelInfo, PdfLimits } from "./LLMProvider";
+import { estimateTokens } from "../utils/TokenCounter";
+
+/** 送信可能な画像形式（拡張子 → MIMEタイプ） */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	webp: "image/webp",
+	gif: "image/gif",
+};
+
+/**
+ * 拡張子から画像のMIMEタイプを取得（非対応形式は undefined）
+ */
+export function getImageMimeType(extension: string): string | undefined {
+	return IMAGE_MIME_TYPES[extension.toLowerCase()];
+}
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+/**
+ * モデル情報を検索
+ * 完全一致がなければ最長の前方一致を採用（日付付きスナップショット等に対応）
+ */
+export function findModelInfo(models: ModelInfo[], modelId: string): ModelInfo | undefined {
+	const exact = models.find((m) => m.id === modelId);
+	if (exact) return exact;
+
+	let best: ModelInfo | undefined;
+	for (const m of models) {
+		if (!modelId.startsWith(m.id)) continue;
+		if (!best || m.id.length > best.id.length) best = m;
+	}
+	return best;
+}
+
+/**
+ * モデルの画像入力上限を取得（非対応は undefined）
+ */
+export function getImageLimits(models: ModelInfo[], modelId: string): ImageLimits | undefined {
+	return findModelInfo(models, modelId)?.vision;
+}
+
+/**
+ * モデルのPDFネイティブ入力上限を取得（非対応は undefined）
+ */
+export function getPdfLimits(models: ModelInfo[], modelId: string): PdfLimits | undefined {
+	return findModelInfo(models, modelId)?.pdf;
+}
+
+/**
+ * PDF抽出テキストを送信用に切り詰め
+ * @returns 切り詰めた場合は truncated = true
+ */
+export function truncateToTokens(text: string, maxTokens: number): { text: string; truncated: boolean } {
+	const tokens = estimateTokens(text);
+	if (tokens <= maxTokens) return { text, truncated: false };
+	// 文字数比で概算して切り詰め
+	const ratio = maxTokens / tokens;
+	return { text: text.slice(0, Math.floor(text.length * ratio)), truncated: true };
+}
+
+/**
+ * base64 文字列のデコード後バイト数
+ */
+export function base64ByteLength(data: string): number {
+	const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+	return Math.floor(data.length * 3 / 4) - padding;
+}
+
+/**
+ * 画像入力の上限を適用
+ * サイズ超過の画像を除外し、枚数超過分は古いものから除外する（attachments は古い順）
+ * @returns 送信する添付と、除外した添付の名前
+ */
+export function applyImageLimits(
+	attachments: Attachment[],
+	limits: ImageLimits | undefined,
+): { kept: Set<Attachment>; oversized: string[]; overCount: string[] } {
+	const kept = new Set<Attachment>();
+	const oversized: string[] = [];
+	const overCount: string[] = [];
+	if (!limits) return { kept, oversized, overCount };
+
+	for (let i = attachments.length - 1; i >= 0; i--) {
+		const a = attachments[i];
+		if (base64ByteLength(a.data) > limits.maxImageBytes) {
+			oversized.push(a.name);
+		} else if (kept.size >= limits.maxImages) {
+			overCount.push(a.name);
+		} else {
+			kept.add(a);
+		}
+	}
+	return { kept, oversized, overCount };
+}
@@ -0,0 +1,52 @@
+import type { ImageLimits, LLMProvider, ModelInfo, PdfLimits, SamplingParam } from "./LLMProvider";
+import { findModelInfo } from "./attachments";
+
+/**
+ * モデルの機能
+ * モデル一覧（静的な定義・fetchModels の結果）の値 → プロバイダーの推定（inferCapabilities）→ 既定値の順に決める
+ */
+export interface ModelCapabilities {
+	tools: boolean;
+	/** 画像入力の上限（undefined = 非対応） */
+	vision?: ImageLimits;
+	/** PDFのネイティブ入力の上限（undefined = 非対応） */
+	pdf?: PdfLimits;
+	reasoning: boolean;
+	jsonMode: boolean;
+	/** 最大出力トークン数（undefined = 不明。設定値をそのまま送る） */
+	maxOutputTokens?: number;
+	samplingParams: SamplingParam[];
+}
+
+export const ALL_SAMPLING_PARAMS: SamplingParam[] = ["temperature", "top_p", "top_k", "stop", "seed"];
+
+/**
+ * モデルの機能を取得
+ * tools はプロバイダーが Tool Use 非対応なら常に false
+ */
+export function getModelCapabilities(provider: LLMProvider, modelId: string): ModelCapabilities {
+	const known: Partial<ModelInfo> = findModelInfo(provider.models, modelId) ?? {};
+	const inferred = provider.inferCapabilities?.(modelId) ?? {};
+	return {
+		tools: !!provider.supportsToolUse && (known.tools ?? inferred.tools ?? true),
+		vision: known.vision ?? inferred.vision,
+		pdf: known.pdf ?? inferred.pdf,
+		reasoning: known.reasoning ?? inferred.reasoning ?? false,
+		jsonMode: known.jsonMode ?? inferred.jsonMode ?? true,
+		maxOutputTokens: known.maxOutputTokens ?? inferred.maxOutputTokens,
+		samplingParams: known.samplingParams ?? inferred.samplingParams ?? ALL_SAMPLING_PARAMS,
+	};
+}
+
+/**
+ * 最大トークン数をモデルの最大出力トークン数までに制限
+ */
+export function clampMaxTokens(maxTokens: number | undefined, caps: ModelCapabilities): number | undefined {
+	if (maxTokens === undefined || caps.maxOutputTokens === undefined) return maxTokens;
+	return Math.min(maxTokens, caps.maxOutputTokens);
+}
+
+/** サンプリングパラメータを送ってよいか */
+export function acceptsParam(caps: ModelCapabilities, param: SamplingParam): boolean {
+	return caps.samplingParams.includes(param);
+}
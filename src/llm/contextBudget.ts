@@ -0,0 +1,157 @@
+import type { SystemPromptBlock } from "./LLMProvider";
+import { estimateTokens } from "../utils/TokenCounter";
+
+/**
+ * コンテキストウィンドウの予算管理
+ * 送信前にプロンプト全体のトークン数を概算し、モデルのコンテキストウィンドウに収まらない場合は
+ * 古い会話ターン → RAG 検索結果 → リンク先ノートの順に削る
+ */
+
+/** 概算の誤差に備えてコンテキストウィンドウのこの割合までに収める */
+const CONTEXT_SAFETY_RATIO = 0.9;
+/** ツール定義の概算トークン数（Tool Use 時のみ） */
+const TOOL_DEFINITIONS_TOKENS = 2000;
+/** メッセージ1件あたりのロール等のオーバーヘッド */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** 画像1枚の概算トークン数（プロバイダーにより異なるため大きめに見積もる） */
+const IMAGE_TOKENS = 1600;
+/** PDF 1ページの概算トークン数（ページ数不明の場合は3ページとみなす） */
+const PDF_PAGE_TOKENS = 1500;
+const PDF_DEFAULT_PAGES = 3;
+
+/** 会話の要約の上限トークン数（要約を有効にした場合は予算からこの分を確保する） */
+export const SUMMARY_MAX_TOKENS = 1000;
+
+/** システムプロンプトの構成要素 */
+export interface ContextPart {
+	/** 配置するブロック（0: 指示 / 1: ノート / 2: メッセージごと。前の2つはプロンプトキャッシュの対象） */
+	block: 0 | 1 | 2;
+	/** fixed: 削らない / rag: RAG 検索結果 / linked: リンク先ノート */
+	kind: "fixed" | "rag" | "linked";
+	text: string;
+	/** 見出し（同じ見出しの要素は最初の1件の前にだけ出力し、全て削った場合は出力しない） */
+	header?: string;
+	/** 削った場合に表示する名前（ノート名等） */
+	label?: string;
+}
+
+/** 会話履歴1件分の概算に使う情報 */
+export interface HistoryEntry {
+	role: "user" | "assistant" | "system";
+	content: string;
+	attachments?: Array<{ type: "image" | "pdf"; pages?: number }>;
+}
+
+/** 送信時に削った内容（アシスタントメッセージに保存して表示） */
+export interface ContextTrim {
+	/** 省略した古いメッセージ数（先頭から） */
+	messages: number;
+	/** 省略したメッセージを会話の要約に含めた */
+	summarized?: boolean;
+	/** 削った RAG 検索結果・リンク先ノートの名前 */
+	rag: string[];
+	linked: string[];
+	/** 削った後の概算トークン数と予算 */
+	estimatedTokens: number;
+	budget: number;
+	/** 削れるものを全て削っても予算を超える */
+	overBudget?: boolean;
+}
+
+/** 省略した会話ターンの要約（会話に保存し、以降の送信で使い続ける） */
+export interface ContextSummary {
+	text: string;
+	/** 要約済みのメッセージ数（会話の先頭から） */
+	messages: number;
+	/** 要約済みの最後のメッセージのタイムスタンプ（編集・再生成で履歴が変わったことの検出用） */
+	until: number;
+}
+
+export interface ContextFit {
+	/** 送信するシステムプロンプトの構成要素 */
+	parts: ContextPart[];
+	/** 送信する履歴の開始位置（これより前は省略） */
+	start: number;
+	trim: ContextTrim;
+}
+
+/**
+ * 応答・ツール定義の分を除いたプロンプトの予算
+ */
+export function computeBudget(contextWindow: number, maxTokens: number, useToolUse: boolean): number {
+	const reserved = maxTokens + (useToolUse ? TOOL_DEFINITIONS_TOKENS : 0);
+	return Math.max(0, Math.floor(contextWindow * CONTEXT_SAFETY_RATIO) - reserved);
+}
+
+/** メッセージ1件の概算トークン数（添付を含む） */
+export function estimateMessageTokens(message: HistoryEntry): number {
+	let tokens = estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+	for (const attachment of message.attachments ?? []) {
+		tokens += attachment.type === "pdf"
+			? (attachment.pages ?? PDF_DEFAULT_PAGES) * PDF_PAGE_TOKENS
+			: IMAGE_TOKENS;
+	}
+	return tokens;
+}
+
+/**
+ * 予算に収まるように削る
+ * 1. 古い会話ターン（ユーザーメッセージ単位。最後のユーザーメッセージ以降は残す）
+ * 2. RAG 検索結果（後ろ = スコアの低いものから）
+ * 3. リンク先ノート（後ろのものから）
+ */
+export function fitToContext(history: HistoryEntry[], parts: ContextPart[], budget: number): ContextFit {
+	const partTokens = parts.map((p) => estimateTokens(p.text));
+	const historyTokens = history.map(estimateMessageTokens);
+	let total = partTokens.reduce((a, b) => a + b, 0) + historyTokens.reduce((a, b) => a + b, 0);
+
+	const lastUser = history.map((m) => m.role).lastIndexOf("user");
+	let start = 0;
+	while (total > budget && start < lastUser) {
+		// 次のユーザーメッセージの手前まで（1ターン分）をまとめて削る
+		let next = start + 1;
+		while (next < lastUser && history[next].role !== "user") next++;
+		for (let i = start; i < next; i++) total -= historyTokens[i];
+		start = next;
+	}
+
+	const dropped = new Set<number>();
+	const trim: ContextTrim = { messages: start, rag: [], linked: [], estimatedTokens: 0, budget };
+	for (const kind of ["rag", "linked"] as const) {
+		for (let i = parts.length - 1; i >= 0 && total > budget; i--) {
+			if (parts[i].kind !== kind) continue;
+			dropped.add(i);
+			total -= partTokens[i];
+			trim[kind].unshift(parts[i].label ?? "");
+		}
+	}
+
+	trim.estimatedTokens = total;
+	if (total > budget) trim.overBudget = true;
+	return { parts: parts.filter((_, i) => !dropped.has(i)), start, trim };
+}
+
+/** 何かを削ったか（予算超過の警告を含む） */
+export function hasTrimmed(trim: ContextTrim): boolean {
+	return trim.messages > 0 || trim.rag.length > 0 || trim.linked.length > 0 || !!trim.overBudget;
+}
+
+/**
+ * 構成要素を3つのシステムプロンプトブロックにまとめる
+ */
+export function toSystemBlocks(parts: ContextPart[]): SystemPromptBlock[] {
+	const blocks: string[][] = [[], [], []];
+	const headers = new Set<string>();
+	for (const part of parts) {
+		if (part.header && !headers.has(part.header)) {
+			headers.add(part.header);
+			blocks[part.block].push(part.header);
+		}
+		blocks[part.block].push(part.text);
+	}
+	return [
+		{ text: blocks[0].join("\n\n"), cache: true },
+		{ text: blocks[1].join("\n\n"), cache: true },
+		{ text: blocks[2].join("\n\n") },
+	];
+}
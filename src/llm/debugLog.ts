@@ -0,0 +1,317 @@
+import type { App } from "obsidian";
+
+/**
+ * リクエスト/レスポンスのデバッグログ（設定で有効化した場合のみ記録）
+ *
+ * 送信ボディ・ヘッダー（認証情報はマスク）・URL・ステータス・所要時間・生のレスポンスまたは
+ * SSE/NDJSON の受信行と、リトライ・フォールバックの判断を1リクエスト1行の JSONL で
+ * プラグインフォルダに書き出す。ファイルは一定サイズで切り替え、古いものから削除する。
+ */
+
+/** HTTP リクエスト1回分の記録 */
+export interface DebugExchange {
+	id: string;
+	timestamp: number;
+	provider: string;
+	model: string;
+	/** fetch: ストリーミング受信 / requestUrl: 一括受信 */
+	transport: "fetch" | "requestUrl";
+	url: string;
+	headers: Record<string, string>;
+	requestBody: unknown;
+	status?: number;
+	/** 応答ヘッダー受信までの時間（ms） */
+	firstByteMs?: number;
+	/** 受信完了（またはエラー）までの時間（ms） */
+	latencyMs?: number;
+	/** 一括受信のレスポンス本文・エラー応答の本文 */
+	response?: string;
+	/** ストリーミングで受信した行（data: 行・NDJSON 行） */
+	events?: string[];
+	error?: string;
+	/** リトライ・フォールバック等、このリクエストに至った判断 */
+	notes: string[];
+}
+
+const LOG_BASENAME = "debug-log";
+/** 1ファイルの上限（超えたら次のファイルに切り替え） */
+const MAX_FILE_BYTES = 1024 * 1024;
+/** 保持するファイル数（現在のファイル + 切り替え済み） */
+const MAX_FILES = 3;
+/** メモリ上に保持する直近の記録数（インスペクター用） */
+const MAX_RECENT = 100;
+/** ボディ内の長い文字列（base64 画像等）はこの長さで切り詰める */
+const MAX_STRING_LENGTH = 4000;
+const MAX_RESPONSE_LENGTH = 200000;
+const MAX_EVENTS = 2000;
+
+/** 値をマスクするヘッダー名 */
+const SECRET_HEADER_PATTERN = /authorization|api[-_]?key|token|secret|cookie/i;
+/** 値をマスクするクエリパラメータ（Gemini の ?key= 等） */
+const SECRET_QUERY_PATTERN = /([?&](?:key|api[-_]?key|token|access_token)=)[^&#]*/gi;
+/** 文字列の一部として現れた場合もマスクする秘密の値の最小長（短い値で本文を壊さないため） */
+const MIN_SECRET_LENGTH = 8;
+
+/** 値が秘密の値（API鍵・ユーザー指定のヘッダー等）そのもの、またはそれを含むか */
+function containsSecret(value: string, secrets: string[]): boolean {
+	return secrets.some((s) => s.length > 0 && (value === s || (s.length >= MIN_SECRET_LENGTH && value.includes(s))));
+}
+
+/** 文字列中の秘密の値をマスク */
+export function redactSecrets(text: string, secrets: string[]): string {
+	for (const secret of secrets) {
+		if (secret.length >= MIN_SECRET_LENGTH) text = text.split(secret).join("[redacted]");
+	}
+	return text;
+}
+
+/**
+ * 認証情報をマスクしたヘッダー（Bearer 等のスキーム名は残す）
+ * 名前が認証用に見えるヘッダーに加え、値が秘密の値を含むヘッダー（任意名の認証ヘッダー等）もマスクする
+ */
+export function redactHeaders(headers: Record<string, string>, secrets: string[] = []): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const [name, value] of Object.entries(headers)) {
+		if (!SECRET_HEADER_PATTERN.test(name) && !containsSecret(value, secrets)) {
+			result[name] = value;
+			continue;
+		}
+		const scheme = /^(Bearer|Basic|Token)\s+/i.exec(value);
+		result[name] = scheme ? `${scheme[1]} [redacted]` : "[redacted]";
+	}
+	return result;
+}
+
+/** URL 中の認証用クエリパラメータ・秘密の値をマスク */
+export function redactUrl(url: string, secrets: string[] = []): string {
+	return redactSecrets(url.replace(SECRET_QUERY_PATTERN, "$1[redacted]"), secrets);
+}
+
+/** ボディ内の秘密の値をマスクし、長い文字列を切り詰めたコピー（ログの肥大化を防ぐ） */
+function sanitizeBody(value: unknown, secrets: string[]): unknown {
+	if (typeof value === "string") {
+		const text = redactSecrets(value, secrets);
+		return text.length > MAX_STRING_LENGTH
+			? `${text.slice(0, 200)}… (${text.length} chars)`
+			: text;
+	}
+	if (Array.isArray(value)) return value.map((v) => sanitizeBody(v, secrets));
+	if (value && typeof value === "object") {
+		const result: Record<string, unknown> = {};
+		for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+			result[k] = sanitizeBody(v, secrets);
+		}
+		return result;
+	}
+	return value;
+}
+
+/**
+ * 進行中のリクエスト1回分の記録
+ * streaming.ts が各段階で値を設定し、finish() でログに書き出す
+ */
+export class DebugTrace {
+	readonly exchange: DebugExchange;
+	private log: DebugLog;
+	/** レスポンス・受信行・エラーからもマスクする値 */
+	private secrets: string[];
+	private startedAt = Date.now();
+	private finished = false;
+
+	constructor(log: DebugLog, exchange: DebugExchange, secrets: string[] = []) {
+		this.log = log;
+		this.exchange = exchange;
+		this.secrets = secrets;
+	}
+
+	get id(): string {
+		return this.exchange.id;
+	}
+
+	/** 応答ヘッダーを受信 */
+	status(status: number): void {
+		this.exchange.status = status;
+		this.exchange.firstByteMs = Date.now() - this.startedAt;
+	}
+
+	response(text: string): void {
+		text = redactSecrets(text, this.secrets);
+		this.exchange.response = text.length > MAX_RESPONSE_LENGTH
+			? `${text.slice(0, MAX_RESPONSE_LENGTH)}… (${text.length} chars)`
+			: text;
+	}
+
+	event(line: string): void {
+		const events = this.exchange.events ?? (this.exchange.events = []);
+		if (events.length < MAX_EVENTS) events.push(redactSecrets(line, this.secrets));
+	}
+
+	note(text: string): void {
+		this.exchange.notes.push(text);
+	}
+
+	error(e: unknown): void {
+		this.exchange.error = redactSecrets(e instanceof Error ? e.message : String(e), this.secrets);
+	}
+
+	/** 記録を確定してログに書き出す（2回目以降は無視） */
+	finish(): void {
+		if (this.finished) return;
+		this.finished = true;
+		this.exchange.latencyMs = Date.now() - this.startedAt;
+		if (this.exchange.events && this.exchange.events.length >= MAX_EVENTS) {
+			this.exchange.notes.push(`events truncated at ${MAX_EVENTS}`);
+		}
+		this.log.record(this.exchange);
+	}
+}
+
+/**
+ * デバッグログの保存先
+ * 書き込みは順番に行い（追記の競合を避ける）、失敗してもリクエスト処理には影響させない
+ */
+export class DebugLog {
+	private app: App;
+	private recent: DebugExchange[] = [];
+	private writing: Promise<void> = Promise.resolve();
+	private counter = 0;
+
+	private get folder(): string {
+		return `${this.app.vault.configDir}/plugins/llm-assistant`;
+	}
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/** n 番目のログファイル（0: 現在のファイル、1 以降: 切り替え済み） */
+	private filePath(n: number): string {
+		return n === 0 ? `${this.folder}/${LOG_BASENAME}.jsonl` : `${this.folder}/${LOG_BASENAME}.${n}.jsonl`;
+	}
+
+	/**
+	 * リクエストの記録を開始
+	 * secrets（API鍵・ユーザー指定のヘッダーの値等）は URL・ヘッダー・ボディ・レスポンスの全てでマスクする
+	 */
+	begin(init: {
+		provider: string;
+		model: string;
+		transport: DebugExchange["transport"];
+		url: string;
+		headers: Record<string, string>;
+		body: unknown;
+		notes?: string[];
+		secrets?: string[];
+	}): DebugTrace {
+		const timestamp = Date.now();
+		const secrets = init.secrets ?? [];
+		return new DebugTrace(this, {
+			id: `${timestamp.toString(36)}-${(this.counter++).toString(36)}`,
+			timestamp,
+			provider: init.provider,
+			model: init.model,
+			transport: init.transport,
+			url: redactUrl(init.url, secrets),
+			headers: redactHeaders(init.headers, secrets),
+			requestBody: sanitizeBody(init.body, secrets),
+			notes: [...(init.notes ?? [])],
+		}, secrets);
+	}
+
+	record(exchange: DebugExchange): void {
+		this.recent.push(exchange);
+		if (this.recent.length > MAX_RECENT) {
+			this.recent = this.recent.slice(-MAX_RECENT);
+		}
+		this.writing = this.writing
+			.then(() => this.append(JSON.stringify(exchange) + "\n"))
+			.catch((e) => console.warn("Failed to write debug log:", e));
+	}
+
+	/**
+	 * ID に対応する記録を取得（直近の記録 → ログファイルの順に探す。切り替えで削除済みのものは返らない）
+	 */
+	async find(ids: string[]): Promise<DebugExchange[]> {
+		const wanted = new Set(ids);
+		const found = new Map<string, DebugExchange>();
+		for (const e of this.recent) {
+			if (wanted.has(e.id)) found.set(e.id, e);
+		}
+		if (found.size < wanted.size) {
+			for (const e of await this.readAll()) {
+				if (wanted.has(e.id) && !found.has(e.id)) found.set(e.id, e);
+			}
+		}
+		return ids.map((id) => found.get(id)).filter((e): e is DebugExchange => e !== undefined);
+	}
+
+	/**
+	 * 保持中の全記録（古い順）
+	 */
+	async readAll(): Promise<DebugExchange[]> {
+		await this.writing;
+		const entries: DebugExchange[] = [];
+		const adapter = this.app.vault.adapter;
+		for (let n = MAX_FILES - 1; n >= 0; n--) {
+			const path = this.filePath(n);
+			if (!(await adapter.exists(path))) continue;
+			for (const line of (await adapter.read(path)).split("\n")) {
+				if (!line.trim()) continue;
+				try {
+					entries.push(JSON.parse(line) as DebugExchange);
+				} catch {
+					// 書き込み途中で終了した行は無視
+				}
+			}
+		}
+		return entries;
+	}
+
+	/**
+	 * 全ログファイルを削除
+	 */
+	async clear(): Promise<void> {
+		await this.writing;
+		this.recent = [];
+		const adapter = this.app.vault.adapter;
+		for (let n = 0; n < MAX_FILES; n++) {
+			const path = this.filePath(n);
+			if (await adapter.exists(path)) await adapter.remove(path);
+		}
+	}
+
+	private async append(line: string): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.folder))) {
+			await adapter.mkdir(this.folder);
+		}
+		const current = this.filePath(0);
+		const stat = await adapter.stat(current);
+		if (stat && stat.size + line.length > MAX_FILE_BYTES) {
+			await this.rotate();
+		}
+		await adapter.append(current, line);
+	}
+
+	/** debug-log.jsonl → debug-log.1.jsonl → ...（最も古いファイルは削除） */
+	private async rotate(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const oldest = this.filePath(MAX_FILES - 1);
+		if (await adapter.exists(oldest)) await adapter.remove(oldest);
+		for (let n = MAX_FILES - 2; n >= 0; n--) {
+			const path = this.filePath(n);
+			if (await adapter.exists(path)) await adapter.rename(path, this.filePath(n + 1));
+		}
+	}
+}
+
+/** 有効なデバッグログ（無効時は null。main.ts が設定に合わせて切り替える） */
+let activeLog: DebugLog | null = null;
+
+export function setDebugLog(log: DebugLog | null): void {
+	activeLog = log;
+}
+
+export function getDebugLog(): DebugLog | null {
+	return activeLog;
+}
@@ -0,0 +1,52 @@
+/**
+ * 組み込みプロバイダーの接続先上書き
+ * 社内プロキシ・監査ゲートウェイ等を経由して、組み込みプロバイダーの機能をそのまま使うための設定
+ */
+export interface EndpointOverride {
+	/** 既定のベースURLの代わりに使うURL（空 = 既定） */
+	baseUrl: string;
+	/** 全リクエストに追加するヘッダー（同名の既定ヘッダーより優先） */
+	headers: Record<string, string>;
+	/** 全リクエストに追加するクエリパラメータ */
+	query: Record<string, string>;
+}
+
+/**
+ * プロバイダーの接続先
+ * チャット・モデル一覧・API鍵検証・Embedding の全URLとヘッダーをここで組み立て、上書き設定を一貫して適用する
+ */
+export class ProviderEndpoint {
+	readonly defaultBaseUrl: string;
+	private override: EndpointOverride | undefined;
+
+	constructor(defaultBaseUrl: string) {
+		this.defaultBaseUrl = defaultBaseUrl;
+	}
+
+	setOverride(override: EndpointOverride | undefined): void {
+		this.override = override;
+	}
+
+	get baseUrl(): string {
+		return (this.override?.baseUrl.trim() || this.defaultBaseUrl).replace(/\/+$/, "");
+	}
+
+	/**
+	 * ベースURL + パス + クエリ（上書き設定のクエリを後から追加）
+	 */
+	url(path: string, query: Record<string, string> = {}): string {
+		const params = new URLSearchParams({ ...query, ...this.override?.query });
+		const qs = params.toString();
+		return `${this.baseUrl}${path}${qs ? `?${qs}` : ""}`;
+	}
+
+	/** 上書き設定のヘッダー・クエリの値（認証情報を含みうるため、デバッグログでマスクする） */
+	secretValues(): string[] {
+		return [...Object.values(this.override?.headers ?? {}), ...Object.values(this.override?.query ?? {})];
+	}
+
+	/** 既定ヘッダーに上書き設定のヘッダーを合成 */
+	headers(headers: Record<string, string> = {}): Record<string, string> {
+		return { ...headers, ...this.override?.headers };
+	}
+}
@@ -0,0 +1,85 @@
+import type { ChatRequest, ReasoningEffort } from "./LLMProvider";
+
+/**
+ * 生成パラメータの上書き（プロバイダー単位・モデル単位。未指定の項目は上位の値を使う）
+ * 優先順: モデル → プロバイダー → 全体の設定（temperature / maxTokens / reasoningEffort）
+ */
+export interface GenerationOverrides {
+	temperature?: number;
+	maxTokens?: number;
+	topP?: number;
+	topK?: number;
+	stop?: string[];
+	/** "off" で推論を要求しない */
+	reasoningEffort?: "off" | ReasoningEffort;
+	/** 思考トークン予算（Anthropic / Gemini 2.5 はそのまま、OpenAI 系は effort に変換して送る） */
+	reasoningBudget?: number;
+	seed?: number;
+}
+
+/** 数値で入力する上書き項目 */
+export type NumericOverrideField = "temperature" | "maxTokens" | "topP" | "topK" | "reasoningBudget" | "seed";
+
+/** 送信時に ChatRequest に設定する生成パラメータ */
+export type GenerationParams = Pick<ChatRequest, "temperature" | "maxTokens" | "topP" | "topK" | "stop" | "seed" | "reasoning">;
+
+/** 上書きの解決に使う設定 */
+export interface GenerationDefaults {
+	temperature: number;
+	maxTokens: number;
+	reasoningEffort: "off" | ReasoningEffort;
+	generationOverrides: Record<string, GenerationOverrides>;
+}
+
+/**
+ * 上書き設定のキー（プロバイダー単位: "providerId"、モデル単位: "providerId::modelId"）
+ */
+export function generationOverrideKey(providerId: string, modelId?: string): string {
+	return modelId ? `${providerId}::${modelId}` : providerId;
+}
+
+/** 上書きが1項目でも指定されているか */
+export function hasGenerationOverrides(overrides: GenerationOverrides | undefined): boolean {
+	return !!overrides && Object.values(overrides).some((v) => v !== undefined);
+}
+
+/**
+ * 上書きの入力値を検証して数値に変換（空欄・範囲外・不正な値は undefined = 上書きしない）
+ * temperature: 0〜2 / topP: 0〜1 / maxTokens・topK・reasoningBudget: 正の整数 / seed: 整数
+ */
+export function parseOverrideValue(field: NumericOverrideField, input: string): number | undefined {
+	if (!input.trim()) return undefined;
+	const value = Number(input);
+	switch (field) {
+		case "temperature":
+			return value >= 0 && value <= 2 ? value : undefined;
+		case "topP":
+			return value >= 0 && value <= 1 ? value : undefined;
+		case "seed":
+			return Number.isSafeInteger(value) ? value : undefined;
+		default:
+			return Number.isSafeInteger(value) && value > 0 ? value : undefined;
+	}
+}
+
+/**
+ * プロバイダー・モデルの生成パラメータを解決
+ */
+export function resolveGenerationParams(settings: GenerationDefaults, providerId: string, modelId: string): GenerationParams {
+	const provider = settings.generationOverrides[generationOverrideKey(providerId)] ?? {};
+	const model = settings.generationOverrides[generationOverrideKey(providerId, modelId)] ?? {};
+	const pick = <K extends keyof GenerationOverrides>(key: K): GenerationOverrides[K] => model[key] ?? provider[key];
+
+	const effort = pick("reasoningEffort") ?? settings.reasoningEffort;
+	const budget = pick("reasoningBudget");
+	const stop = pick("stop");
+	return {
+		temperature: pick("temperature") ?? settings.temperature,
+		maxTokens: pick("maxTokens") ?? settings.maxTokens,
+		topP: pick("topP"),
+		topK: pick("topK"),
+		stop: stop && stop.length > 0 ? stop : undefined,
+		seed: pick("seed"),
+		reasoning: effort === "off" ? undefined : { effort, ...(budget !== undefined ? { budgetTokens: budget } : {}) },
+	};
+}
@@ -0,0 +1,91 @@
+import { requestUrl } from "obsidian";
+import type { CustomEmbeddingModel } from "./CustomEndpointProvider";
+
+/**
+ * ローカルLLMサーバーの自動検出（デスクトップ専用）
+ * よく使われる localhost のポートで OpenAI 互換の /v1/models が応答するかを確認する
+ */
+
+/** 検出対象のポートと代表的なサーバー */
+export const LOCAL_SERVER_PORTS: ReadonlyArray<{ port: number; name: string }> = [
+	{ port: 11434, name: "Ollama" },
+	{ port: 1234, name: "LM Studio" },
+	{ port: 8080, name: "llama.cpp" },
+	{ port: 8000, name: "vLLM" },
+	{ port: 1337, name: "Jan" },
+];
+
+/** Ollama の既定ポート（ネイティブの Ollama プロバイダーで扱う） */
+export const OLLAMA_PORT = 11434;
+
+export interface DiscoveredServer {
+	port: number;
+	name: string;
+	/** OpenAI 互換APIのベースURL（例: http://localhost:1234/v1） */
+	baseUrl: string;
+	/** チャット用モデル（Embedding モデルを除く） */
+	models: string[];
+	/** /v1/embeddings が応答した Embedding モデル */
+	embeddingModels: CustomEmbeddingModel[];
+}
+
+/** 名前から Embedding モデルと推定する（推定したものだけを /v1/embeddings で確認） */
+const EMBEDDING_MODEL_PATTERN = /embed|bge|e5-|minilm|gte-/i;
+
+/**
+ * 全ポートを並列に確認し、応答したサーバーを返す
+ */
+export async function discoverLocalServers(): Promise<DiscoveredServer[]> {
+	const results = await Promise.all(LOCAL_SERVER_PORTS.map(({ port, name }) => probeServer(port, name)));
+	return results.filter((server): server is DiscoveredServer => server !== undefined);
+}
+
+async function probeServer(port: number, name: string): Promise<DiscoveredServer | undefined> {
+	const baseUrl = `http://localhost:${port}/v1`;
+	let modelIds: string[];
+	try {
+		const response = await requestUrl({ url: `${baseUrl}/models`, method: "GET", throw: false });
+		if (response.status !== 200) return undefined;
+		const data = ((response.json as Record<string, unknown>).data ?? []) as Array<Record<string, unknown>>;
+		modelIds = data.map((m) => String(m.id ?? "")).filter((id) => id.length > 0);
+	} catch {
+		// 接続拒否 = サーバーなし（JSON 以外の応答も OpenAI 互換ではないとみなす）
+		return undefined;
+	}
+
+	const embeddingModels: CustomEmbeddingModel[] = [];
+	for (const id of modelIds.filter((m) => EMBEDDING_MODEL_PATTERN.test(m))) {
+		const dimensions = await probeEmbedding(baseUrl, id);
+		if (dimensions) embeddingModels.push({ id, dimensions });
+	}
+	const embeddingIds = new Set(embeddingModels.map((m) => m.id));
+
+	return {
+		port,
+		name,
+		baseUrl,
+		models: modelIds.filter((id) => !embeddingIds.has(id)).sort((a, b) => a.localeCompare(b)),
+		embeddingModels,
+	};
+}
+
+/**
+ * /v1/embeddings に1件だけ送って次元数を得る（失敗時は undefined）
+ */
+async function probeEmbedding(baseUrl: string, model: string): Promise<number | undefined> {
+	try {
+		const response = await requestUrl({
+			url: `${baseUrl}/embeddings`,
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ model, input: ["ping"] }),
+			throw: false,
+		});
+		if (response.status !== 200) return undefined;
+		const data = (response.json as Record<string, unknown>).data as Array<{ embedding?: number[] }> | undefined;
+		const length = data?.[0]?.embedding?.length;
+		return length && length > 0 ? length : undefined;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,128 @@
+import type { ChatResponse, Message, ResponseSchema, StreamAccumulator, StreamDelta, TokenUsage, ToolUseBlock } from "./LLMProvider";
+
+/**
+ * OpenAI Chat Completions 形式のレスポンス解析
+ * OpenAI / OpenRouter / Ollama / カスタムエンドポイント等の互換APIで共通利用する
+ */
+
+/**
+ * メッセージの content を構築（添付画像は data URL の image_url パートとして追加）
+ */
+export function buildOpenAIContent(msg: Message): string | Array<Record<string, unknown>> {
+	// PDFはネイティブ非対応のため送信前にテキスト化される（ここでは画像のみ扱う）
+	if (msg.attachments?.some((a) => a.type === "pdf")) {
+		console.warn("PDF attachments are not supported in the OpenAI chat format and were not sent");
+	}
+	const images = msg.attachments?.filter((a) => a.type === "image") ?? [];
+	if (images.length === 0) return msg.content;
+	return [
+		{ type: "text", text: msg.content },
+		...images.map((a) => ({
+			type: "image_url",
+			image_url: { url: `data:${a.mimeType};base64,${a.data}` },
+		})),
+	];
+}
+
+/**
+ * 構造化出力の response_format を構築（json_schema 形式）
+ */
+export function buildOpenAIResponseFormat(schema: ResponseSchema): Record<string, unknown> {
+	return {
+		type: "json_schema",
+		json_schema: {
+			name: schema.name,
+			...(schema.description ? { description: schema.description } : {}),
+			schema: schema.schema,
+		},
+	};
+}
+
+/**
+ * SSEイベント1件を解釈（choices[0].delta.content / choices[0].delta.tool_calls）
+ */
+export function parseOpenAIStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+	const delta: StreamDelta = { text: "", reasoning: "" };
+	const choices = json.choices as Array<Record<string, unknown>> | undefined;
+	if (json.model) acc.model = json.model as string;
+	// stream_options.include_usage: 最終チャンク（choices 空）に usage が付く
+	const usage = json.usage as Record<string, unknown> | undefined;
+	if (usage) acc.usage = parseOpenAIUsage(usage);
+	if (choices && choices.length > 0) {
+		if (choices[0].finish_reason) acc.finishReason = choices[0].finish_reason as string;
+		const choiceDelta = choices[0].delta as Record<string, unknown> | undefined;
+		const toolCallDeltas = choiceDelta?.tool_calls as Array<Record<string, unknown>> | undefined;
+		if (toolCallDeltas) {
+			for (const tc of toolCallDeltas) {
+				// index 省略時（一部互換サーバー）は受信順で割り当て
+				const index = (tc.index as number | undefined) ?? acc.toolCalls.size;
+				const entry = acc.toolCalls.get(index) ?? { id: "", name: "", arguments: "" };
+				const fn = tc.function as Record<string, unknown> | undefined;
+				if (tc.id) entry.id = tc.id as string;
+				if (fn?.name) entry.name += fn.name as string;
+				if (fn?.arguments) entry.arguments += fn.arguments as string;
+				acc.toolCalls.set(index, entry);
+			}
+		}
+		// 推論: OpenRouter は reasoning、DeepSeek/vLLM 等は reasoning_content
+		delta.reasoning = (choiceDelta?.reasoning as string) || (choiceDelta?.reasoning_content as string) || "";
+		delta.text = (choiceDelta?.content as string) || "";
+	}
+	return delta;
+}
+
+/**
+ * 一括受信レスポンスを解析
+ */
+export function parseOpenAIResponse(json: Record<string, unknown>): ChatResponse {
+	const choices = json.choices as Array<Record<string, unknown>>;
+	const message = choices?.[0]?.message as Record<string, unknown>;
+	const usage = json.usage as Record<string, unknown> | undefined;
+
+	// Extract tool_calls (Function Calling)
+	const toolCalls = message?.tool_calls as Array<Record<string, unknown>> | undefined;
+	const toolUses: ToolUseBlock[] = [];
+	if (toolCalls) {
+		for (const tc of toolCalls) {
+			const fn = tc.function as Record<string, unknown>;
+			if (fn) {
+				try {
+					toolUses.push({
+						id: (tc.id as string) || "",
+						name: (fn.name as string) || "",
+						input: JSON.parse((fn.arguments as string) || "{}"),
+					});
+				} catch {
+					// JSON parse failure — skip this tool call
+				}
+			}
+		}
+	}
+
+	// 推論: OpenRouter は reasoning、DeepSeek/vLLM 等は reasoning_content
+	const reasoning = (message?.reasoning as string) || (message?.reasoning_content as string) || undefined;
+
+	return {
+		content: (message?.content as string) || "",
+		model: (json.model as string) || "",
+		reasoning,
+		usage: usage ? parseOpenAIUsage(usage) : undefined,
+		finishReason: (choices?.[0]?.finish_reason as string) || undefined,
+		toolUses: toolUses.length > 0 ? toolUses : undefined,
+	};
+}
+
+/**
+ * usage を解析（prompt_tokens_details.cached_tokens: 自動プロンプトキャッシュのヒット分）
+ */
+function parseOpenAIUsage(usage: Record<string, unknown>): TokenUsage {
+	const result: TokenUsage = {
+		inputTokens: (usage.prompt_tokens as number) || 0,
+		outputTokens: (usage.completion_tokens as number) || 0,
+	};
+	const details = usage.prompt_tokens_details as Record<string, unknown> | undefined;
+	if (typeof details?.cached_tokens === "number") result.cacheReadTokens = details.cached_tokens;
+	// OpenRouter: 上流プロバイダーで実際に課金された額（USD）
+	if (typeof usage.cost === "number") result.cost = usage.cost;
+	return result;
+}
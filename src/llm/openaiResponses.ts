@@ -0,0 +1,296 @@
+import type { ChatRequest, ChatResponse, Message, StreamAccumulator, StreamDelta, TokenUsage, ToolUseBlock } from "./LLMProvider";
+import { resolveReasoningEffort } from "./LLMProvider";
+import type { ModelCapabilities } from "./capabilities";
+import { acceptsParam, clampMaxTokens } from "./capabilities";
+import { StreamEventError } from "./streaming";
+
+/**
+ * OpenAI Responses API（/v1/responses）形式のリクエスト構築・レスポンス解析
+ *
+ * Tool Use の会話履歴は Chat Completions 形式（assistant.tool_calls / role: "tool"）のまま保持し、
+ * 送信時に Responses API の入力アイテム（function_call / function_call_output）へ変換する。
+ * これによりモデルごとに API を切り替えても同じ履歴を使える。
+ * Responses API で生成されたアシスタントメッセージには応答ID（rawContent.response）を付け、
+ * 次のリクエストでは previous_response_id で連結して推論アイテムをサーバー側で引き継ぐ。
+ */
+
+/** Responses API で受け取った応答（Tool Use 履歴の rawParts として保持） */
+export interface ResponsesOutput {
+	id: string;
+	output: Array<Record<string, unknown>>;
+}
+
+/**
+ * Responses API に対応するモデルか（非対応モデルは Chat Completions で送信する）
+ */
+export function supportsResponsesApi(model: string): boolean {
+	return /^(gpt-5|gpt-4\.1|gpt-4o|o[1-9])/i.test(model);
+}
+
+/** rawParts が Responses API の応答かどうか */
+export function isResponsesOutput(part: unknown): part is ResponsesOutput {
+	const obj = part as Record<string, unknown> | undefined;
+	return typeof obj?.id === "string" && Array.isArray(obj.output);
+}
+
+/**
+ * リクエストボディを構築
+ * @param caps モデルの機能（推論モデルは temperature 非対応、reasoning を指定可能）
+ */
+export function buildResponsesRequestBody(params: ChatRequest, caps: ModelCapabilities): Record<string, unknown> {
+	const { previousResponseId, input } = buildResponsesInput(params.messages);
+	const body: Record<string, unknown> = {
+		model: params.model,
+		input,
+	};
+	if (params.systemPrompt) {
+		// instructions は previous_response_id で引き継がれないため毎回送る
+		body.instructions = params.systemPrompt;
+	}
+	if (previousResponseId) {
+		body.previous_response_id = previousResponseId;
+	}
+
+	if (params.tools && params.tools.length > 0 && caps.tools) {
+		body.tools = params.tools.map((tool) => ({
+			type: "function",
+			name: tool.name,
+			description: tool.description,
+			parameters: tool.input_schema,
+		}));
+	}
+
+	if (params.temperature !== undefined && acceptsParam(caps, "temperature")) {
+		body.temperature = params.temperature;
+	}
+	// Responses API は top_k / stop / seed を受け付けない
+	if (params.topP !== undefined && acceptsParam(caps, "top_p")) {
+		body.top_p = params.topP;
+	}
+	const maxTokens = clampMaxTokens(params.maxTokens, caps);
+	if (maxTokens !== undefined) {
+		body.max_output_tokens = maxTokens;
+	}
+	if (params.reasoning && caps.reasoning) {
+		// summary: 推論の要約をストリームで受け取り、思考表示に使う
+		body.reasoning = { effort: resolveReasoningEffort(params.reasoning), summary: "auto" };
+	}
+	if (params.responseSchema && caps.jsonMode) {
+		body.text = {
+			format: {
+				type: "json_schema",
+				name: params.responseSchema.name,
+				...(params.responseSchema.description ? { description: params.responseSchema.description } : {}),
+				schema: params.responseSchema.schema,
+			},
+		};
+	}
+	if (params.stream) {
+		body.stream = true;
+	}
+	return body;
+}
+
+/**
+ * 会話履歴を入力アイテムに変換
+ * Responses API で生成されたアシスタントメッセージがあれば、最後のものを previous_response_id とし、
+ * それ以降のメッセージ（ツール実行結果）だけを送る
+ */
+function buildResponsesInput(messages: Message[]): { previousResponseId?: string; input: Array<Record<string, unknown>> } {
+	let start = 0;
+	let previousResponseId: string | undefined;
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const response = (messages[i].rawContent as Record<string, unknown> | undefined)?.response;
+		if (isResponsesOutput(response)) {
+			previousResponseId = response.id;
+			start = i + 1;
+			break;
+		}
+	}
+
+	const input: Array<Record<string, unknown>> = [];
+	for (const msg of messages.slice(start)) {
+		if (msg.rawContent) {
+			input.push(...toResponsesItems(msg.rawContent as Record<string, unknown>));
+		} else {
+			input.push({ role: msg.role, content: buildResponsesContent(msg) });
+		}
+	}
+	return { previousResponseId, input };
+}
+
+/**
+ * Chat Completions 形式の Tool Use メッセージを入力アイテムに変換
+ *   assistant.tool_calls → function_call（本文があれば先に assistant メッセージ）
+ *   role: "tool"         → function_call_output
+ */
+function toResponsesItems(raw: Record<string, unknown>): Array<Record<string, unknown>> {
+	if (raw.role === "tool") {
+		return [{ type: "function_call_output", call_id: raw.tool_call_id, output: raw.content }];
+	}
+	const items: Array<Record<string, unknown>> = [];
+	if (raw.content) {
+		items.push({ role: "assistant", content: raw.content });
+	}
+	for (const call of (raw.tool_calls ?? []) as Array<Record<string, unknown>>) {
+		const fn = call.function as Record<string, unknown>;
+		items.push({ type: "function_call", call_id: call.id, name: fn.name, arguments: fn.arguments });
+	}
+	return items;
+}
+
+/**
+ * メッセージの content を構築（添付画像は input_image パートとして追加）
+ */
+function buildResponsesContent(msg: Message): string | Array<Record<string, unknown>> {
+	const images = msg.attachments?.filter((a) => a.type === "image") ?? [];
+	if (images.length === 0 || msg.role !== "user") return msg.content;
+	return [
+		{ type: "input_text", text: msg.content },
+		...images.map((a) => ({
+			type: "input_image",
+			image_url: `data:${a.mimeType};base64,${a.data}`,
+		})),
+	];
+}
+
+/**
+ * SSEイベント1件を解釈
+ *   response.output_text.delta            本文
+ *   response.reasoning_summary_text.delta 推論の要約
+ *   response.output_item.added/done       function_call の開始・確定
+ *   response.function_call_arguments.delta ツール引数の断片
+ *   response.completed / incomplete       使用量・終了理由・応答全体（履歴用）
+ *   response.failed / error               エラーとして投げる（空の応答で終わらせない）
+ */
+export function parseResponsesStreamEvent(json: Record<string, unknown>, acc: StreamAccumulator): StreamDelta {
+	const delta: StreamDelta = { text: "", reasoning: "" };
+	const index = (json.output_index as number | undefined) ?? 0;
+
+	switch (json.type) {
+		case "response.created": {
+			const response = json.response as Record<string, unknown> | undefined;
+			if (response?.model) acc.model = response.model as string;
+			break;
+		}
+		case "response.output_text.delta":
+			delta.text = (json.delta as string) || "";
+			break;
+		case "response.reasoning_summary_text.delta":
+			delta.reasoning = (json.delta as string) || "";
+			break;
+		case "response.reasoning_summary_part.added":
+			// 要約の段落区切り（最初の段落を除く）
+			if (acc.reasoning) delta.reasoning = "\n\n";
+			break;
+		case "response.output_item.added":
+		case "response.output_item.done": {
+			const item = json.item as Record<string, unknown> | undefined;
+			if (item?.type === "function_call") {
+				const entry = acc.toolCalls.get(index) ?? { id: "", name: "", arguments: "" };
+				entry.id = (item.call_id as string) || entry.id;
+				entry.name = (item.name as string) || entry.name;
+				// done では引数の全体が届くため断片の連結結果を置き換える
+				if (item.arguments) entry.arguments = item.arguments as string;
+				acc.toolCalls.set(index, entry);
+			}
+			break;
+		}
+		case "response.function_call_arguments.delta": {
+			const entry = acc.toolCalls.get(index);
+			if (entry) entry.arguments += (json.delta as string) || "";
+			break;
+		}
+		case "response.failed": {
+			const response = json.response as Record<string, unknown> | undefined;
+			throw new StreamEventError(formatResponsesError(response?.error));
+		}
+		case "error":
+			throw new StreamEventError(formatResponsesError(json));
+		case "response.completed":
+		case "response.incomplete": {
+			const response = json.response as Record<string, unknown> | undefined;
+			if (!response) break;
+			if (response.model) acc.model = response.model as string;
+			const usage = response.usage as Record<string, unknown> | undefined;
+			if (usage) acc.usage = parseResponsesUsage(usage);
+			acc.finishReason = resolveFinishReason(response);
+			if (isResponsesOutput(response)) {
+				acc.rawParts = [{ id: response.id, output: response.output }];
+			}
+			break;
+		}
+	}
+	return delta;
+}
+
+/**
+ * 一括受信レスポンスを解析
+ */
+export function parseResponsesResponse(json: Record<string, unknown>): ChatResponse {
+	if (json.status === "failed") throw new Error(formatResponsesError(json.error));
+	const output = (json.output ?? []) as Array<Record<string, unknown>>;
+	const textParts: string[] = [];
+	const reasoningParts: string[] = [];
+	const toolUses: ToolUseBlock[] = [];
+
+	for (const item of output) {
+		if (item.type === "message") {
+			for (const part of (item.content ?? []) as Array<Record<string, unknown>>) {
+				if (part.type === "output_text") textParts.push(part.text as string);
+			}
+		} else if (item.type === "reasoning") {
+			for (const part of (item.summary ?? []) as Array<Record<string, unknown>>) {
+				if (part.type === "summary_text") reasoningParts.push(part.text as string);
+			}
+		} else if (item.type === "function_call") {
+			try {
+				toolUses.push({
+					id: (item.call_id as string) || "",
+					name: (item.name as string) || "",
+					input: JSON.parse((item.arguments as string) || "{}"),
+				});
+			} catch {
+				// JSON parse failure — skip this tool call
+			}
+		}
+	}
+
+	const usage = json.usage as Record<string, unknown> | undefined;
+	return {
+		content: textParts.join(""),
+		model: (json.model as string) || "",
+		reasoning: reasoningParts.length > 0 ? reasoningParts.join("\n\n") : undefined,
+		usage: usage ? parseResponsesUsage(usage) : undefined,
+		finishReason: resolveFinishReason(json),
+		toolUses: toolUses.length > 0 ? toolUses : undefined,
+		// previous_response_id での連結用に応答IDと出力アイテムを保持
+		rawAssistantParts: isResponsesOutput(json) ? [{ id: json.id, output }] : undefined,
+	};
+}
+
+/** 失敗した応答の error・error イベントからメッセージを組み立て（例: "server_error: ..."） */
+function formatResponsesError(error: unknown): string {
+	const e = (error ?? {}) as Record<string, unknown>;
+	const message = typeof e.message === "string" && e.message ? e.message : "Response failed";
+	return `Responses API error: ${typeof e.code === "string" ? `${e.code}: ` : ""}${message}`;
+}
+
+/** status と incomplete_details から終了理由を決定（例: "completed", "max_output_tokens"） */
+function resolveFinishReason(response: Record<string, unknown>): string | undefined {
+	const details = response.incomplete_details as Record<string, unknown> | undefined;
+	return (details?.reason as string) || (response.status as string) || undefined;
+}
+
+/**
+ * usage を解析（input_tokens_details.cached_tokens: 自動プロンプトキャッシュのヒット分）
+ */
+function parseResponsesUsage(usage: Record<string, unknown>): TokenUsage {
+	const result: TokenUsage = {
+		inputTokens: (usage.input_tokens as number) || 0,
+		outputTokens: (usage.output_tokens as number) || 0,
+	};
+	const details = usage.input_tokens_details as Record<string, unknown> | undefined;
+	if (typeof details?.cached_tokens === "number") result.cacheReadTokens = details.cached_tokens;
+	return result;
+}
@@ -0,0 +1,49 @@
+import type { ModelInfo, TokenUsage } from "./LLMProvider";
+
+export type ModelPricing = NonNullable<ModelInfo["pricing"]>;
+
+/** 前方一致で同じモデルとみなす接尾辞（日付付きスナップショット・バージョン番号） */
+const SNAPSHOT_SUFFIX = /^-(\d{8}|\d{4}-\d{2}-\d{2}|\d{3}|latest)$/;
+
+/**
+ * モデル一覧から価格情報を検索
+ * 完全一致がなければ、残りがスナップショットの接尾辞である最長の前方一致を採用
+ * （"claude-sonnet-4-6-20260101" は "claude-sonnet-4-6" の価格。"gpt-5.3" や "gpt-5-mini" は "gpt-5" とみなさない）
+ */
+export function findModelPricing(models: ModelInfo[], modelId: string): ModelPricing | undefined {
+	const exact = models.find((m) => m.id === modelId);
+	if (exact?.pricing) return exact.pricing;
+
+	let best: ModelInfo | undefined;
+	for (const m of models) {
+		if (!m.pricing || !modelId.startsWith(m.id)) continue;
+		if (!SNAPSHOT_SUFFIX.test(modelId.slice(m.id.length))) continue;
+		if (!best || m.id.length > best.id.length) best = m;
+	}
+	return best?.pricing;
+}
+
+/**
+ * トークン使用量からコスト（USD）を計算
+ * pricing は 1M トークンあたりの価格。キャッシュ読み込み/書き込み分はそれぞれの単価で計算する
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+	const cacheRead = usage.cacheReadTokens ?? 0;
+	const cacheWrite = usage.cacheWriteTokens ?? 0;
+	const uncached = Math.max(0, usage.inputTokens - cacheRead - cacheWrite);
+	return (
+		uncached * pricing.input
+		+ cacheRead * (pricing.cacheRead ?? pricing.input)
+		+ cacheWrite * (pricing.cacheWrite ?? pricing.input)
+		+ usage.outputTokens * pricing.output
+	) / 1_000_000;
+}
+
+/**
+ * USD 金額を表示用にフォーマット（少額は桁数を増やす）
+ */
+export function formatCost(usd: number): string {
+	if (usd === 0) return "$0";
+	if (usd < 0.01) return `$${usd.toFixed(4)}`;
+	return `$${usd.toFixed(2)}`;
+}
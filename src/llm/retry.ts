@@ -0,0 +1,173 @@
+/**
+ * 一時的な失敗（レート制限・5xx・過負荷・通信エラー）に対する自動リトライ方針
+ */
+
+/** 最大試行回数（初回を含む） */
+export const MAX_ATTEMPTS = 4;
+
+/** 指数バックオフの基準待機時間 */
+const BASE_DELAY_MS = 1000;
+
+/** バックオフ1回あたりの上限 */
+const MAX_BACKOFF_MS = 30_000;
+
+/** サーバー指定の待機時間がこれを超える場合はリトライせずエラーを返す */
+const MAX_SERVER_DELAY_MS = 60_000;
+
+/** リトライ対象のHTTPステータス（529: Anthropic overloaded） */
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * リトライ待機中の状態（UIのカウントダウン表示用）
+ */
+export interface RetryInfo {
+	/** 次に行う試行の番号（2 = 最初のリトライ） */
+	attempt: number;
+	maxAttempts: number;
+	/** 次の試行までの残り時間。0 は待機終了（再送信開始） */
+	remainingMs: number;
+	/** 失敗理由（エラーメッセージ） */
+	reason: string;
+}
+
+export function isRetryableStatus(status: number): boolean {
+	return RETRYABLE_STATUS.has(status);
+}
+
+/**
+ * レスポンスヘッダー・エラー本文からサーバー指定の待機時間（ms）を取得
+ *
+ * 対応形式:
+ *   retry-after-ms: 1500                         （OpenAI）
+ *   retry-after: 30 / HTTP-date                  （標準）
+ *   anthropic-ratelimit-*-reset: RFC 3339 日時    （Anthropic）
+ *   x-ratelimit-reset-requests: "6m0s" / "20ms"  （OpenAI）
+ *   x-ratelimit-reset: エポックms                  （OpenRouter）
+ *   error.details[].retryDelay: "30s"            （Gemini）
+ *
+ * レート制限のリセット時刻・retryDelay は 429 の場合のみ使う（ヘッダーは全ての応答に付くため、
+ * 5xx・529 で使うと一時的な障害がレート制限の枠の回復まで待たされる）。
+ * リセット時刻は残りが 0 のバケットのものだけを対象とする
+ */
+export function parseRetryDelay(status: number, headers: Record<string, string>, bodyText?: string, now = Date.now()): number | undefined {
+	const h: Record<string, string> = {};
+	for (const [k, v] of Object.entries(headers)) h[k.toLowerCase()] = v;
+
+	const retryAfterMs = Number(h["retry-after-ms"]);
+	if (h["retry-after-ms"] && Number.isFinite(retryAfterMs)) return Math.max(0, retryAfterMs);
+
+	if (h["retry-after"]) {
+		const seconds = Number(h["retry-after"]);
+		if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+		const date = Date.parse(h["retry-after"]);
+		if (!Number.isNaN(date)) return Math.max(0, date - now);
+	}
+
+	if (status !== 429) return undefined;
+
+	// 使い切ったバケットが複数ある場合は最も遅いリセットに合わせる
+	let reset: number | undefined;
+	const takeMax = (ms: number | undefined): void => {
+		if (ms !== undefined && (reset === undefined || ms > reset)) reset = ms;
+	};
+	for (const bucket of RATE_LIMIT_BUCKETS) {
+		const value = h[bucket.reset];
+		if (!value || h[bucket.remaining] === undefined || Number(h[bucket.remaining]) !== 0) continue;
+		takeMax(parseReset(bucket.format, value, now));
+	}
+	if (reset !== undefined) return reset;
+
+	if (bodyText) {
+		const match = bodyText.match(/"retryDelay"\s*:\s*"([\d.]+)s"/);
+		if (match) return parseFloat(match[1]) * 1000;
+	}
+	return undefined;
+}
+
+/** レート制限のバケットごとのリセット・残量ヘッダー */
+const RATE_LIMIT_BUCKETS: Array<{ reset: string; remaining: string; format: "date" | "duration" | "epoch" }> = [
+	{ reset: "anthropic-ratelimit-requests-reset", remaining: "anthropic-ratelimit-requests-remaining", format: "date" },
+	{ reset: "anthropic-ratelimit-tokens-reset", remaining: "anthropic-ratelimit-tokens-remaining", format: "date" },
+	{ reset: "anthropic-ratelimit-input-tokens-reset", remaining: "anthropic-ratelimit-input-tokens-remaining", format: "date" },
+	{ reset: "anthropic-ratelimit-output-tokens-reset", remaining: "anthropic-ratelimit-output-tokens-remaining", format: "date" },
+	{ reset: "x-ratelimit-reset-requests", remaining: "x-ratelimit-remaining-requests", format: "duration" },
+	{ reset: "x-ratelimit-reset-tokens", remaining: "x-ratelimit-remaining-tokens", format: "duration" },
+	{ reset: "x-ratelimit-reset", remaining: "x-ratelimit-remaining", format: "epoch" },
+];
+
+/**
+ * リセットヘッダーの値を現在からの待機時間（ms）に変換
+ */
+function parseReset(format: "date" | "duration" | "epoch", value: string, now: number): number | undefined {
+	switch (format) {
+		case "date": {
+			const date = Date.parse(value);
+			return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+		}
+		case "duration":
+			return parseDuration(value);
+		case "epoch": {
+			const epoch = Number(value);
+			// 秒単位のエポックにも対応
+			return Number.isFinite(epoch) ? Math.max(0, (epoch < 1e12 ? epoch * 1000 : epoch) - now) : undefined;
+		}
+	}
+}
+
+/**
+ * "1h2m3.5s" / "20ms" 形式の期間をmsに変換
+ */
+function parseDuration(text: string): number | undefined {
+	const re = /([\d.]+)(ms|h|m|s)/g;
+	let total = 0;
+	let matched = false;
+	let m: RegExpExecArray | null;
+	while ((m = re.exec(text)) !== null) {
+		matched = true;
+		const n = parseFloat(m[1]);
+		switch (m[2]) {
+			case "h": total += n * 3_600_000; break;
+			case "m": total += n * 60_000; break;
+			case "s": total += n * 1000; break;
+			case "ms": total += n; break;
+		}
+	}
+	return matched ? total : undefined;
+}
+
+/**
+ * 次の試行までの待機時間を決定
+ * サーバー指定があればそれに従い（上限超過時は undefined = リトライしない）、
+ * なければ指数バックオフ + ジッター
+ */
+export function computeRetryDelay(attempt: number, serverDelayMs?: number): number | undefined {
+	if (serverDelayMs !== undefined) {
+		return serverDelayMs > MAX_SERVER_DELAY_MS ? undefined : serverDelayMs;
+	}
+	const exp = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+	// Equal jitter: 待機時間の半分を固定、残り半分をランダム化
+	return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+/**
+ * 中断可能な待機。1秒ごとに残り時間を通知する
+ */
+export async function waitForRetry(delayMs: number, signal: AbortSignal | undefined, onTick: (remainingMs: number) => void): Promise<void> {
+	const end = Date.now() + delayMs;
+	while (true) {
+		if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+		const remaining = end - Date.now();
+		if (remaining <= 0) break;
+		onTick(remaining);
+		await new Promise<void>((resolve) => {
+			const timer = setTimeout(done, Math.min(1000, remaining));
+			function done(): void {
+				signal?.removeEventListener("abort", done);
+				clearTimeout(timer);
+				resolve();
+			}
+			signal?.addEventListener("abort", done, { once: true });
+		});
+	}
+	onTick(0);
+}
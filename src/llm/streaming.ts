@@ -1,36 +1,72 @@
-import { requestUrl } from "obsidian";
-import type { LLMProvider, ChatRequest, ChatResponse, ToolUseBlock } from "./LLMProvider";
-import type { GeminiProvider } from "./GeminiProvider";
+import { requestUrl, type RequestUrlResponse } from "obsidian";
+import type { LLMProvider, ChatRequest, ChatResponse, StreamAccumulator, ToolUseBlock } from "./LLMProvider";
+import { MAX_ATTEMPTS, computeRetryDelay, isRetryableStatus, parseRetryDelay, waitForRetry, type RetryInfo } from "./retry";
+import { getDebugLog, type DebugExchange, type DebugTrace } from "./debugLog";
+
+/**
+ * HTTPエラー応答
+ * ステータスとサーバー指定の待機時間を保持し、リトライ判定に使用
+ */
+export class ApiError extends Error {
+	status: number;
+	/** Retry-After 等から得た待機時間（ms） */
+	retryAfterMs?: number;
+	constructor(message: string, status: number, retryAfterMs?: number) {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+		this.retryAfterMs = retryAfterMs;
+	}
+}
 
 /**
  * レート制限エラー（HTTP 429）
  * プロバイダー情報を含み、UI側でアップグレード案内を表示するために使用
  */
-export class RateLimitError extends Error {
+export class RateLimitError extends ApiError {
 	providerId: string;
-	constructor(providerId: string, detail: string) {
-		super(detail);
+	constructor(providerId: string, detail: string, retryAfterMs?: number) {
+		super(detail, 429, retryAfterMs);
 		this.name = "RateLimitError";
 		this.providerId = providerId;
 	}
 }
 
 /**
- * GeminiプロバイダーかどうかをチェックするType Guard
+ * 通信エラー（接続失敗・切断など、HTTP応答を得られなかった場合）
  */
-function isGeminiProvider(provider: LLMProvider): provider is GeminiProvider & LLMProvider {
-	return provider.id === "gemini";
+export class NetworkError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "NetworkError";
+	}
 }
 
 /**
- * プロバイダーのAPIエンドポイントURLを取得
- * Geminiの場合はモデルとAPIキーをURLに含める特殊処理
+ * ストリームの途中でプロバイダーが送ってきたエラーイベント（HTTP 200 で受信を開始した後の失敗）
+ * リクエストは受け付けられているため requestUrl() での再送はしない
  */
-function getEndpointUrl(provider: LLMProvider, params: ChatRequest, apiKey: string, stream: boolean): string {
-	if (isGeminiProvider(provider)) {
-		return (provider as GeminiProvider & { getEndpointUrl: (model: string, apiKey: string, stream: boolean) => string }).getEndpointUrl(params.model, apiKey, stream);
+export class StreamEventError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "StreamEventError";
 	}
-	return provider.apiEndpoint;
+}
+
+/**
+ * sendRequest() の補助コールバック
+ */
+export interface StreamCallbacks {
+	/** 推論（thinking）テキストの逐次通知 */
+	onReasoning?: (token: string) => void;
+	/** 自動リトライの待機状況（1秒ごと、待機終了時は remainingMs = 0） */
+	onRetry?: (info: RetryInfo) => void;
+	/** デバッグログに記録したリクエストのID（デバッグログ有効時、HTTP リクエストごと） */
+	onDebugTrace?: (id: string) => void;
+	/** 最初のリクエストの記録に添える判断（呼び出し側でのプロバイダー切り替え等） */
+	debugNotes?: string[];
+	/** 1回だけ送信する（自動リトライ・400 時のツールなしでの再送をしない。Tool Use の試験リクエスト用） */
+	once?: boolean;
 }
 
 /**
@@ -41,6 +77,10 @@ function getEndpointUrl(provider: LLMProvider, params: ChatRequest, apiKey: stri
  *   デスクトップ + CORS対応 → fetch() SSE
  *   モバイル + CORS対応 → fetch()試行 → 失敗時requestUrl()
  *   CORS非対応（Anthropic等）→ 常にrequestUrl()一括受信
+ *
+ * エンドポイントURL・SSEイベント・一括レスポンスの解釈は各プロバイダー
+ * （LLMProvider.getEndpointUrl / parseStreamEvent / parseResponse）に委譲し、
+ * ここでは通信方式の選択とリトライのみを扱う。
  */
 export async function sendRequest(
 	provider: LLMProvider,
@@ -48,25 +88,126 @@ export async function sendRequest(
 	apiKey: string,
 	onToken?: (token: string) => void,
 	signal?: AbortSignal,
+	callbacks?: StreamCallbacks,
+): Promise<ChatResponse> {
+	// 記録・再生プロバイダー: 通信は委譲先が行う
+	if (provider.send) {
+		return provider.send(params, apiKey, onToken, signal, callbacks);
+	}
+
+	// 出力済みかどうかを追跡（表示済みの応答を黙って再生成しないため）
+	let emitted = false;
+	const trackedOnToken = onToken && ((token: string) => {
+		emitted = true;
+		onToken(token);
+	});
+	const trackedCallbacks: StreamCallbacks = {
+		...callbacks,
+		onReasoning: callbacks?.onReasoning && ((token: string) => {
+			emitted = true;
+			callbacks.onReasoning?.(token);
+		}),
+	};
+
+	// デバッグログ: 次に送るリクエストの記録に添える判断（送信時に取り出される）
+	const notes = [...(callbacks?.debugNotes ?? [])];
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await sendRequestOnce(provider, params, apiKey, trackedOnToken, signal, trackedCallbacks, () => emitted, notes);
+		} catch (e) {
+			if (signal?.aborted || callbacks?.once || attempt >= MAX_ATTEMPTS || emitted || !isRetryableError(e)) throw e;
+			const delay = computeRetryDelay(attempt, e instanceof ApiError ? e.retryAfterMs : undefined);
+			if (delay === undefined) throw e;
+			const reason = e instanceof Error ? e.message : String(e);
+			notes.push(`retry ${attempt + 1}/${MAX_ATTEMPTS} after ${delay}ms: ${reason}`);
+			await waitForRetry(delay, signal, (remainingMs) => {
+				callbacks?.onRetry?.({ attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, remainingMs, reason });
+			});
+		}
+	}
+}
+
+/**
+ * 自動リトライの対象か（429・5xx・529・通信エラー）
+ */
+function isRetryableError(e: unknown): boolean {
+	if (e instanceof ApiError) return isRetryableStatus(e.status);
+	return e instanceof NetworkError;
+}
+
+/**
+ * プロバイダー切り替え（フォールバック）の対象となるエラーか
+ * リトライ後も解消しないレート制限・過負荷・サーバーエラー・通信エラー・モデル不在
+ * （出力途中の切断は表示済み応答と混ざるため対象外）
+ */
+export function isProviderUnavailableError(e: unknown): boolean {
+	if (e instanceof ApiError) return e.status === 404 || isRetryableStatus(e.status) || e.status >= 500;
+	return e instanceof NetworkError;
+}
+
+/**
+ * 1回分の送信（リトライなし）
+ */
+async function sendRequestOnce(
+	provider: LLMProvider,
+	params: ChatRequest,
+	apiKey: string,
+	onToken: ((token: string) => void) | undefined,
+	signal: AbortSignal | undefined,
+	callbacks: StreamCallbacks,
+	hasEmitted: () => boolean,
+	notes: string[],
 ): Promise<ChatResponse> {
 	const trimmedKey = apiKey.trim();
-	// Tool Use時はストリーミングを無効化（SSEパースではtool_callsを抽出できないため）
-	const hasTools = params.tools && params.tools.length > 0;
-	const wantStream = params.stream !== false && onToken !== undefined && !hasTools;
+	// Tool Use時もSSEで受信し、tool_callsはストリーム上で逐次組み立てる
+	const wantStream = params.stream !== false && onToken !== undefined;
 
 	if (wantStream && provider.supportsCORS) {
 		// デスクトップ/モバイル共通: fetch() SSE試行 → requestUrl()フォールバック
 		try {
-			return await streamWithFetch(provider, params, trimmedKey, onToken, signal);
+			return await streamWithFetch(provider, params, trimmedKey, onToken, signal, callbacks, notes);
 		} catch (e) {
 			if (signal?.aborted) throw e;
+			// 一時的なHTTPエラーはリトライ層に任せる（requestUrl()で即再送しない）
+			if (e instanceof ApiError && isRetryableStatus(e.status)) throw e;
+			// ストリーム中のエラーイベントはそのまま表示する
+			if (e instanceof StreamEventError) throw e;
+			// ストリーム途中で切断 → 表示済みの応答を重複させないためフォールバックしない
+			if (hasEmitted()) {
+				const detail = e instanceof Error ? e.message : String(e);
+				throw new Error(`Stream interrupted: ${detail}`);
+			}
 			// fetch()失敗（CSP制約・接続エラー等）→ requestUrl()一括受信にフォールバック
-			return completeWithRequestUrl(provider, params, trimmedKey, onToken, signal);
+			notes.push(`fetch failed, falling back to requestUrl: ${e instanceof Error ? e.message : String(e)}`);
+			return completeWithRequestUrl(provider, params, trimmedKey, onToken, signal, callbacks, notes);
 		}
 	}
 
 	// CORS非対応 or ストリーミング不要 → requestUrl()一括受信
-	return completeWithRequestUrl(provider, params, trimmedKey, onToken, signal);
+	return completeWithRequestUrl(provider, params, trimmedKey, onToken, signal, callbacks, notes);
+}
+
+/**
+ * デバッグログ有効時、リクエスト1回分の記録を開始
+ * 保留中の判断（notes）はこのリクエストの記録に移す
+ * API鍵と接続先の上書き・ユーザー指定のヘッダーの値はログ全体でマスクする
+ */
+function startTrace(
+	provider: LLMProvider,
+	params: ChatRequest,
+	apiKey: string,
+	request: { transport: DebugExchange["transport"]; url: string; headers: Record<string, string>; body: unknown },
+	notes: string[],
+	callbacks?: StreamCallbacks,
+): DebugTrace | undefined {
+	const pending = notes.splice(0);
+	const log = getDebugLog();
+	if (!log) return undefined;
+	const secrets = [apiKey, ...(provider.endpoint?.secretValues() ?? []), ...(provider.debugSecrets?.() ?? [])];
+	const trace = log.begin({ provider: provider.id, model: params.model, ...request, notes: pending, secrets });
+	callbacks?.onDebugTrace?.(trace.id);
+	return trace;
 }
 
 /**
@@ -78,37 +219,76 @@ async function streamWithFetch(
 	apiKey: string,
 	onToken: (token: string) => void,
 	signal?: AbortSignal,
+	callbacks?: StreamCallbacks,
+	notes: string[] = [],
 ): Promise<ChatResponse> {
 	const body = provider.buildRequestBody({ ...params, stream: true });
-	const headers = provider.buildHeaders(apiKey);
-	const url = getEndpointUrl(provider, params, apiKey, true);
-
-	// /skip -- fetch() is required for SSE streaming; requestUrl() does not support streaming response body
-	const response = await fetch(url, {
-		method: "POST",
-		headers: { ...headers, "Content-Type": "application/json" },
-		body: JSON.stringify(body),
-		signal,
-	});
+	const headers = { ...provider.buildHeaders(apiKey), "Content-Type": "application/json" };
+	const url = provider.getEndpointUrl(params, apiKey, true);
+	const trace = startTrace(provider, params, apiKey, { transport: "fetch", url, headers, body }, notes, callbacks);
+
+	let response: Response;
+	try {
+		// /skip -- fetch() is required for SSE streaming; requestUrl() does not support streaming response body
+		response = await fetch(url, {
+			method: "POST",
+			headers,
+			body: JSON.stringify(body),
+			signal,
+		});
+	} catch (e) {
+		trace?.error(e);
+		trace?.finish();
+		throw e;
+	}
+	trace?.status(response.status);
 
 	if (!response.ok) {
 		const errorText = await response.text();
-		if (response.status === 429) {
-			throw new RateLimitError(provider.id, errorText);
-		}
-		throw new Error(`API Error (${response.status}): ${errorText}`);
+		trace?.response(errorText);
+		const headerMap: Record<string, string> = {};
+		response.headers.forEach((value, key) => { headerMap[key] = value; });
+		const retryAfterMs = parseRetryDelay(response.status, headerMap, errorText);
+		const error = response.status === 429
+			? new RateLimitError(provider.id, errorText, retryAfterMs)
+			: new ApiError(`API Error (${response.status}): ${errorText}`, response.status, retryAfterMs);
+		trace?.error(error);
+		trace?.finish();
+		throw error;
 	}
 
 	if (!response.body) {
-		throw new Error("Response body is null - streaming not supported");
+		const error = new Error("Response body is null - streaming not supported");
+		trace?.error(error);
+		trace?.finish();
+		throw error;
 	}
 
 	const reader = response.body.getReader();
 	const decoder = new TextDecoder();
-	let fullContent = "";
+	const acc: StreamAccumulator = {
+		content: "",
+		reasoning: "",
+		model: params.model,
+		toolCalls: new Map(),
+		rawParts: [],
+	};
 	let buffer = "";
 	let jsonBuffer = ""; // 不完全JSONのリカバリバッファ
 
+	// パース済みイベントを蓄積し、テキスト/推論トークンがあれば逐次通知
+	const handleEvent = (json: Record<string, unknown>): void => {
+		const delta = provider.parseStreamEvent(json, acc);
+		if (delta.reasoning) {
+			acc.reasoning += delta.reasoning;
+			callbacks?.onReasoning?.(delta.reasoning);
+		}
+		if (delta.text) {
+			acc.content += delta.text;
+			onToken(delta.text);
+		}
+	};
+
 	try {
 		while (true) {
 			const { done, value } = await reader.read();
@@ -121,62 +301,49 @@ async function streamWithFetch(
 
 			for (const line of lines) {
 				const trimmed = line.trim();
+				if (trimmed) trace?.event(trimmed);
 				if (!trimmed || trimmed === "data: [DONE]") continue;
 
+				// パースの失敗だけを捕捉する（handleEvent が投げたエラーイベントは握りつぶさない）
+				if (provider.streamFormat === "ndjson") {
+					// NDJSON: 1行が1つの完結したJSON（行をまたがない）。パース不能な行は破棄
+					const json = tryParseJson(trimmed);
+					if (json) handleEvent(json);
+					continue;
+				}
+
 				if (trimmed.startsWith("data: ")) {
 					// 新しい data: 行 → jsonBuffer と結合してパース試行
 					const jsonStr = jsonBuffer ? jsonBuffer + trimmed.slice(6) : trimmed.slice(6);
-					try {
-						const json = JSON.parse(jsonStr);
-						jsonBuffer = ""; // パース成功 → バッファクリア
-						const token = extractTokenFromSSE(json, provider.id);
-						if (token) {
-							fullContent += token;
-							onToken(token);
-						}
-					} catch {
-						// パース失敗: 不完全なJSON → バッファに蓄積して次行で再試行
-						jsonBuffer = jsonStr;
-					}
+					const json = tryParseJson(jsonStr);
+					// パース失敗: 不完全なJSON → バッファに蓄積して次行で再試行
+					jsonBuffer = json ? "" : jsonStr;
+					if (json) handleEvent(json);
 				} else if (jsonBuffer) {
 					// data: プレフィックスなし行 → 前のJSONの続きとして結合
 					const jsonStr = jsonBuffer + trimmed;
-					try {
-						const json = JSON.parse(jsonStr);
-						jsonBuffer = "";
-						const token = extractTokenFromSSE(json, provider.id);
-						if (token) {
-							fullContent += token;
-							onToken(token);
-						}
-					} catch {
-						jsonBuffer = jsonStr;
-					}
+					const json = tryParseJson(jsonStr);
+					jsonBuffer = json ? "" : jsonStr;
+					if (json) handleEvent(json);
 				}
 			}
 		}
 
-		// ストリーム終了後: 残ったバッファの最終パース試行
-		if (jsonBuffer) {
-			try {
-				const json = JSON.parse(jsonBuffer);
-				const token = extractTokenFromSSE(json, provider.id);
-				if (token) {
-					fullContent += token;
-					onToken(token);
-				}
-			} catch {
-				// 最終的にパース不能なデータは破棄
-			}
-		}
+		// ストリーム終了後: 残ったバッファの最終パース試行（NDJSON は末尾改行なしの最終行）
+		const rest = provider.streamFormat === "ndjson" ? buffer.trim() : jsonBuffer;
+		if (provider.streamFormat === "ndjson" && rest) trace?.event(rest);
+		// 最終的にパース不能なデータは破棄
+		const last = rest ? tryParseJson(rest) : null;
+		if (last) handleEvent(last);
+	} catch (e) {
+		trace?.error(e);
+		throw e;
 	} finally {
 		reader.releaseLock();
+		trace?.finish();
 	}
 
-	return {
-		content: fullContent,
-		model: params.model,
-	};
+	return finalizeStream(acc);
 }
 
 /**
@@ -188,18 +355,32 @@ async function completeWithRequestUrl(
 	apiKey: string,
 	onToken?: (token: string) => void,
 	signal?: AbortSignal,
+	callbacks?: StreamCallbacks,
+	notes: string[] = [],
 ): Promise<ChatResponse> {
 	const body = provider.buildRequestBody({ ...params, stream: false });
-	const headers = provider.buildHeaders(apiKey);
-	const url = getEndpointUrl(provider, params, apiKey, false);
-
-	const response = await requestUrl({
-		url,
-		method: "POST",
-		headers: { ...headers, "Content-Type": "application/json" },
-		body: JSON.stringify(body),
-		throw: false,
-	});
+	const headers = { ...provider.buildHeaders(apiKey), "Content-Type": "application/json" };
+	const url = provider.getEndpointUrl(params, apiKey, false);
+	const trace = startTrace(provider, params, apiKey, { transport: "requestUrl", url, headers, body }, notes, callbacks);
+
+	let response: RequestUrlResponse;
+	try {
+		response = await requestUrl({
+			url,
+			method: "POST",
+			headers,
+			body: JSON.stringify(body),
+			throw: false,
+		});
+	} catch (e) {
+		// HTTP応答なし（オフライン・DNS・接続リセット等）
+		const error = new NetworkError(e instanceof Error ? e.message : String(e));
+		trace?.error(error);
+		trace?.finish();
+		throw error;
+	}
+	trace?.status(response.status);
+	trace?.response(response.text);
 
 	if (response.status !== 200) {
 		// エラーレスポンスから詳細メッセージを抽出
@@ -217,32 +398,41 @@ async function completeWithRequestUrl(
 			detail = response.text || `HTTP ${response.status}`;
 		}
 
+		const retryAfterMs = parseRetryDelay(response.status, response.headers ?? {}, response.text);
 		if (response.status === 429) {
-			throw new RateLimitError(provider.id, detail);
+			const error = new RateLimitError(provider.id, detail, retryAfterMs);
+			trace?.error(error);
+			trace?.finish();
+			throw error;
 		}
 
 		// 400エラー + ツール付きリクエスト → ツールなしでリトライ
-		if (response.status === 400 && params.tools && params.tools.length > 0) {
+		if (response.status === 400 && params.tools && params.tools.length > 0 && !callbacks?.once) {
+			trace?.note("HTTP 400 with tools: retrying without tools");
+			trace?.finish();
 			return completeWithRequestUrl(
 				provider,
 				{ ...params, tools: undefined },
 				apiKey,
 				onToken,
 				signal,
+				callbacks,
+				[`retry without tools after HTTP 400: ${detail}`],
 			);
 		}
 
-		throw new Error(`${provider.name} API Error (${response.status}): ${detail}`);
+		const error = new ApiError(`${provider.name} API Error (${response.status}): ${detail}`, response.status, retryAfterMs);
+		trace?.error(error);
+		trace?.finish();
+		throw error;
 	}
+	trace?.finish();
+
+	const result = provider.parseResponse(response.json);
 
-	let result: ChatResponse;
-	if (provider.id === "anthropic") {
-		result = parseAnthropicResponse(response.json);
-	} else if (provider.id === "gemini") {
-		result = parseGeminiResponse(response.json);
-	} else {
-		// OpenAI, OpenRouter, Ollama, Custom — all use OpenAI format
-		result = parseOpenAIResponse(response.json);
+	// 推論テキストは一括で通知（本文の段階描画より先に表示）
+	if (result.reasoning) {
+		callbacks?.onReasoning?.(result.reasoning);
 	}
 
 	// 段階描画: 受信テキストをチャンク分割して段階的に描画
@@ -273,153 +463,47 @@ async function simulateStreaming(
 	}
 }
 
-/**
- * SSEレスポンスからトークンを抽出（プロバイダー別）
- */
-function extractTokenFromSSE(json: Record<string, unknown>, providerId: string): string {
-	if (providerId === "openai" || providerId === "openrouter" || providerId === "ollama" || providerId === "custom") {
-		// OpenAI形式: choices[0].delta.content
-		const choices = json.choices as Array<Record<string, unknown>> | undefined;
-		if (choices && choices.length > 0) {
-			const delta = choices[0].delta as Record<string, unknown> | undefined;
-			return (delta?.content as string) || "";
-		}
-	} else if (providerId === "anthropic") {
-		// Anthropic形式: delta.text (content_block_delta イベント)
-		const type = json.type as string;
-		if (type === "content_block_delta") {
-			const delta = json.delta as Record<string, unknown> | undefined;
-			return (delta?.text as string) || "";
-		}
-	} else if (providerId === "gemini") {
-		// Gemini形式: candidates[0].content.parts[0].text
-		const candidates = json.candidates as Array<Record<string, unknown>> | undefined;
-		if (candidates && candidates.length > 0) {
-			const content = candidates[0].content as Record<string, unknown> | undefined;
-			const parts = content?.parts as Array<Record<string, unknown>> | undefined;
-			if (parts && parts.length > 0) {
-				return (parts[0].text as string) || "";
-			}
-		}
-	}
-	return "";
-}
-
-// --- レスポンスパーサー ---
-
-function parseOpenAIResponse(json: Record<string, unknown>): ChatResponse {
-	const choices = json.choices as Array<Record<string, unknown>>;
-	const message = choices?.[0]?.message as Record<string, unknown>;
-	const usage = json.usage as Record<string, unknown> | undefined;
-
-	// Extract tool_calls (Function Calling)
-	const toolCalls = message?.tool_calls as Array<Record<string, unknown>> | undefined;
-	const toolUses: ToolUseBlock[] = [];
-	if (toolCalls) {
-		for (const tc of toolCalls) {
-			const fn = tc.function as Record<string, unknown>;
-			if (fn) {
-				try {
-					toolUses.push({
-						id: (tc.id as string) || "",
-						name: (fn.name as string) || "",
-						input: JSON.parse((fn.arguments as string) || "{}"),
-					});
-				} catch {
-					// JSON parse failure — skip this tool call
-				}
-			}
-		}
+/** ストリームの1行（JSON オブジェクト）をパース（不完全・不正な JSON は null） */
+function tryParseJson(text: string): Record<string, unknown> | null {
+	try {
+		const json: unknown = JSON.parse(text);
+		return json && typeof json === "object" ? json as Record<string, unknown> : null;
+	} catch {
+		return null;
 	}
-
-	return {
-		content: (message?.content as string) || "",
-		model: (json.model as string) || "",
-		usage: usage
-			? {
-				inputTokens: (usage.prompt_tokens as number) || 0,
-				outputTokens: (usage.completion_tokens as number) || 0,
-			}
-			: undefined,
-		finishReason: (choices?.[0]?.finish_reason as string) || undefined,
-		toolUses: toolUses.length > 0 ? toolUses : undefined,
-	};
 }
 
-function parseAnthropicResponse(json: Record<string, unknown>): ChatResponse {
-	const content = json.content as Array<Record<string, unknown>>;
-	const usage = json.usage as Record<string, unknown> | undefined;
-
-	const textParts: string[] = [];
+/**
+ * ストリーム終了後、蓄積した状態から ChatResponse を構築
+ */
+function finalizeStream(acc: StreamAccumulator): ChatResponse {
 	const toolUses: ToolUseBlock[] = [];
-
-	if (content) {
-		for (const block of content) {
-			if (block.type === "text") {
-				textParts.push(block.text as string);
-			} else if (block.type === "tool_use") {
-				toolUses.push({
-					id: block.id as string,
-					name: block.name as string,
-					input: block.input as Record<string, unknown>,
-				});
-			}
+	const entries = [...acc.toolCalls.entries()].sort((a, b) => a[0] - b[0]);
+	for (const [, tc] of entries) {
+		try {
+			toolUses.push({
+				id: tc.id,
+				name: tc.name,
+				input: tc.arguments ? JSON.parse(tc.arguments) : {},
+				...(tc.rawPart ? { rawPart: tc.rawPart } : {}),
+			});
+		} catch {
+			// JSON parse failure — skip this tool call
 		}
 	}
 
-	return {
-		content: textParts.join(""),
-		model: (json.model as string) || "",
-		usage: usage
-			? {
-				inputTokens: (usage.input_tokens as number) || 0,
-				outputTokens: (usage.output_tokens as number) || 0,
-			}
-			: undefined,
-		finishReason: (json.stop_reason as string) || undefined,
-		toolUses: toolUses.length > 0 ? toolUses : undefined,
-	};
-}
-
-function parseGeminiResponse(json: Record<string, unknown>): ChatResponse {
-	const candidates = json.candidates as Array<Record<string, unknown>>;
-	const content = candidates?.[0]?.content as Record<string, unknown>;
-	const parts = content?.parts as Array<Record<string, unknown>>;
-	const usageMeta = json.usageMetadata as Record<string, unknown> | undefined;
-
-	// Extract text and functionCall parts
-	let textContent = "";
-	const toolUses: ToolUseBlock[] = [];
-	if (parts) {
-		for (const part of parts) {
-			if (part.text && !part.thought) {
-				textContent += part.text as string;
-			}
-			if (part.functionCall) {
-				const fc = part.functionCall as Record<string, unknown>;
-				toolUses.push({
-					id: `gemini-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-					name: (fc.name as string) || "",
-					input: (fc.args as Record<string, unknown>) || {},
-					rawPart: part, // Preserve full part including thoughtSignature (Gemini 3)
-				});
-			}
-		}
-	}
+	// Anthropic: index 欠番（未受信ブロック）を除外
+	const rawParts = acc.rawParts.filter((p) => p !== undefined);
 
 	return {
-		content: textContent,
-		model: (json.modelVersion as string) || "",
-		usage: usageMeta
-			? {
-				inputTokens: (usageMeta.promptTokenCount as number) || 0,
-				outputTokens: (usageMeta.candidatesTokenCount as number) || 0,
-			}
-			: undefined,
-		finishReason: (candidates?.[0]?.finishReason as string) || undefined,
+		content: acc.content,
+		model: acc.model,
+		usage: acc.usage,
+		finishReason: acc.finishReason,
+		reasoning: acc.reasoning || undefined,
 		toolUses: toolUses.length > 0 ? toolUses : undefined,
-		// Preserve raw parts for Gemini 3 thought_signature reconstruction
-		rawAssistantParts: parts ? [...parts] : undefined,
+		rawAssistantParts: rawParts.length > 0 ? rawParts : undefined,
+		upstreamProvider: acc.upstreamProvider,
 	};
 }
 
@@ -0,0 +1,184 @@
+import type { ChatRequest, ChatResponse, LLMProvider, ResponseSchema } from "./LLMProvider";
+import { sumUsage } from "./LLMProvider";
+import { sendRequest } from "./streaming";
+import { getModelCapabilities } from "./capabilities";
+
+/**
+ * 構造化出力（JSON）が得られなかった場合のエラー
+ * 修復ラウンド後も検証に失敗した場合は最後の応答と検証エラーを保持する
+ */
+export class StructuredOutputError extends Error {
+	errors: string[];
+	content: string;
+	constructor(errors: string[], content: string) {
+		super(`Structured output validation failed: ${errors.join("; ")}`);
+		this.name = "StructuredOutputError";
+		this.errors = errors;
+		this.content = content;
+	}
+}
+
+export interface StructuredResult<T> {
+	value: T;
+	response: ChatResponse;
+}
+
+/**
+ * スキーマ付きリクエストを送信し、検証済みのJSONを返す
+ * 検証に失敗した場合はエラー内容を伝えて1回だけ修復を依頼する
+ * JSON モード非対応のモデルにはスキーマをシステムプロンプトで指示する
+ */
+export async function sendStructuredRequest<T = unknown>(
+	provider: LLMProvider,
+	params: ChatRequest & { responseSchema: ResponseSchema },
+	apiKey: string,
+	signal?: AbortSignal,
+): Promise<StructuredResult<T>> {
+	const request: ChatRequest = getModelCapabilities(provider, params.model).jsonMode
+		? { ...params, stream: false }
+		: { ...withSchemaInstruction(params), stream: false };
+	const first = await sendRequest(provider, request, apiKey, undefined, signal);
+	const firstContent = extractStructuredContent(first, params.responseSchema);
+	const firstErrors = checkStructuredContent(firstContent, params.responseSchema.schema);
+	if (firstErrors.length === 0) {
+		return { value: JSON.parse(stripCodeFence(firstContent)) as T, response: first };
+	}
+
+	// 修復ラウンド: 前回の出力と検証エラーを渡して再生成
+	// （Anthropic の強制ツール呼び出しも通常の会話として渡し、ツール結果の往復を避ける）
+	const repair = await sendRequest(provider, {
+		...request,
+		messages: [
+			...params.messages,
+			{ role: "assistant", content: firstContent },
+			{
+				role: "user",
+				content: "The previous output did not match the required JSON schema:\n"
+					+ firstErrors.map((e) => `- ${e}`).join("\n")
+					+ "\n\nReturn only the corrected JSON.",
+			},
+		],
+	}, apiKey, undefined, signal);
+	const repairContent = extractStructuredContent(repair, params.responseSchema);
+	const repairErrors = checkStructuredContent(repairContent, params.responseSchema.schema);
+	if (repairErrors.length > 0) {
+		throw new StructuredOutputError(repairErrors, repairContent);
+	}
+	return {
+		value: JSON.parse(stripCodeFence(repairContent)) as T,
+		response: { ...repair, usage: sumUsage(first.usage, repair.usage) },
+	};
+}
+
+/**
+ * responseSchema の代わりにスキーマをシステムプロンプトの末尾で指示する
+ */
+export function withSchemaInstruction(params: ChatRequest & { responseSchema: ResponseSchema }): ChatRequest {
+	const { responseSchema, ...rest } = params;
+	const instruction = "Respond only with a JSON value (no prose, no code fence) that matches this JSON schema:\n"
+		+ JSON.stringify(responseSchema.schema);
+	return {
+		...rest,
+		systemPrompt: rest.systemPrompt ? `${rest.systemPrompt}\n\n${instruction}` : instruction,
+		systemBlocks: rest.systemBlocks ? [...rest.systemBlocks, { text: instruction }] : undefined,
+	};
+}
+
+/**
+ * 応答からJSON文字列を取り出す
+ * Anthropic（強制ツール呼び出し）ではツール入力、それ以外は本文
+ */
+function extractStructuredContent(response: ChatResponse, schema: ResponseSchema): string {
+	const toolUse = response.toolUses?.find((tu) => tu.name === schema.name);
+	if (toolUse) return JSON.stringify(toolUse.input);
+	return response.content;
+}
+
+/** JSON Mode 非対応のモデルが付けがちな ```json フェンスを除去 */
+function stripCodeFence(text: string): string {
+	const match = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+	return match ? match[1] : text.trim();
+}
+
+function checkStructuredContent(content: string, schema: Record<string, unknown>): string[] {
+	let value: unknown;
+	try {
+		value = JSON.parse(stripCodeFence(content));
+	} catch (e) {
+		return [`invalid JSON: ${(e as Error).message}`];
+	}
+	return validateSchema(value, schema);
+}
+
+/**
+ * JSON Schema のサブセットで値を検証し、エラーの一覧を返す（空 = 妥当）
+ * 対応: type / properties / required / additionalProperties(false) / items / enum /
+ *       minItems / maxItems / minLength / maxLength / minimum / maximum
+ */
+export function validateSchema(value: unknown, schema: Record<string, unknown>, path = "$"): string[] {
+	const errors: string[] = [];
+
+	if (Array.isArray(schema.enum) && !schema.enum.some((v) => v === value)) {
+		errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+	}
+
+	const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+	if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+		errors.push(`${path}: expected ${types.join(" | ")}`);
+		return errors;
+	}
+
+	if (typeof value === "string") {
+		if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+			errors.push(`${path}: shorter than ${schema.minLength} characters`);
+		}
+		if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+			errors.push(`${path}: longer than ${schema.maxLength} characters`);
+		}
+	} else if (typeof value === "number") {
+		if (typeof schema.minimum === "number" && value < schema.minimum) {
+			errors.push(`${path}: less than ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === "number" && value > schema.maximum) {
+			errors.push(`${path}: greater than ${schema.maximum}`);
+		}
+	} else if (Array.isArray(value)) {
+		if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+			errors.push(`${path}: fewer than ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+			errors.push(`${path}: more than ${schema.maxItems} items`);
+		}
+		const items = schema.items as Record<string, unknown> | undefined;
+		if (items) {
+			value.forEach((item, i) => errors.push(...validateSchema(item, items, `${path}[${i}]`)));
+		}
+	} else if (value !== null && typeof value === "object") {
+		const obj = value as Record<string, unknown>;
+		const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+		for (const key of (schema.required ?? []) as string[]) {
+			if (!(key in obj)) errors.push(`${path}.${key}: required`);
+		}
+		for (const [key, child] of Object.entries(obj)) {
+			if (properties[key]) {
+				errors.push(...validateSchema(child, properties[key], `${path}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key}: unexpected property`);
+			}
+		}
+	}
+	return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case "object": return value !== null && typeof value === "object" && !Array.isArray(value);
+		case "array": return Array.isArray(value);
+		case "integer": return Number.isInteger(value);
+		case "number": return typeof value === "number";
+		case "string": return typeof value === "string";
+		case "boolean": return typeof value === "boolean";
+		case "null": return value === null;
+		default: return true;
+	}
+}
@@ -0,0 +1,57 @@
+import type { LLMProvider, ToolDefinition } from "./LLMProvider";
+import { ApiError, sendRequest } from "./streaming";
+
+/**
+ * Tool Use 対応の判定（カスタムエンドポイント・ローカルサーバー用）
+ * 同じ API 形式でもサーバーやモデルによって tools の対応が異なるため、
+ * 最小限のツール呼び出しを要求する試験リクエストを送って確かめる
+ */
+
+const PROBE_TOOL: ToolDefinition = {
+	name: "ping",
+	description: "Connectivity check. Always call this tool when the user says ping.",
+	input_schema: { type: "object", properties: {} },
+};
+
+/**
+ * tools パラメータ自体の非対応を示す 400 エラーの本文
+ * （Ollama: "does not support tools" / llama.cpp: "tools param requires --jinja" / vLLM: "tool choice requires ..." 等）
+ */
+const TOOLS_UNSUPPORTED = /does not support tools|\b(?:tools?|tool[ _]choice|functions?)\b[^\n]*?\b(?:not supported|unsupported|not allowed|unrecognized|requires?)\b/i;
+
+/**
+ * 判定結果のキャッシュキー（プロバイダー・接続先・モデル単位）
+ */
+export function toolProbeKey(provider: LLMProvider, model: string): string {
+	return `${provider.id}|${provider.apiEndpoint}|${model}`;
+}
+
+/**
+ * 試験リクエストでツール呼び出しが返るか確認
+ * 結果はキャッシュされるため、リトライ・ツールなしでの再送をせず1回だけ送る
+ * @returns true: 対応 / false: 非対応 / undefined: 判定不能（接続エラー・認証エラー・ツールと無関係な 400 等）
+ */
+export async function probeToolSupport(
+	provider: LLMProvider,
+	model: string,
+	apiKey: string,
+	signal?: AbortSignal,
+): Promise<boolean | undefined> {
+	try {
+		const response = await sendRequest(provider, {
+			model,
+			messages: [{ role: "user", content: "ping" }],
+			systemPrompt: `Call the ${PROBE_TOOL.name} tool.`,
+			tools: [PROBE_TOOL],
+			temperature: 0,
+			maxTokens: 256,
+			stream: false,
+		}, apiKey, undefined, signal, { once: true });
+		return response.toolUses?.some((tu) => tu.name === PROBE_TOOL.name) ?? false;
+	} catch (e) {
+		// tools パラメータ自体を拒否するサーバー（400 はモデル名・パラメータの誤り等の場合もあるため本文で判断）
+		if (e instanceof ApiError && e.status === 422) return false;
+		if (e instanceof ApiError && e.status === 400 && TOOLS_UNSUPPORTED.test(e.message)) return false;
+		return undefined;
+	}
+}
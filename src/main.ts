@@ -1,15 +1,29 @@
-import { Menu, Notice, Plugin, TFile, WorkspaceLeaf } from "obsidian";
-import { VIEW_TYPE_CHAT, DEFAULT_SETTINGS, DISPLAY_NAME, getQuickActions } from "./constants";
+import { Editor, Menu, Notice, Plugin, TFile, WorkspaceLeaf } from "obsidian";
+import { VIEW_TYPE_CHAT, DEFAULT_SETTINGS, DISPLAY_NAME, EXTRACT_TASKS_SCHEMA, SUGGEST_TAGS_SCHEMA, getQuickActions } from "./constants";
 import type { LLMAssistantSettings } from "./constants";
 import { ChatView } from "./ui/ChatView";
 import { LLMAssistantSettingTab } from "./settings/SettingsTab";
 import { ProviderRegistry } from "./llm/ProviderRegistry";
-import { CustomEndpointProvider } from "./llm/CustomEndpointProvider";
+import { CustomEndpointProvider, createCustomProviderConfig, type CustomProviderConfig } from "./llm/CustomEndpointProvider";
+import { AzureOpenAIProvider } from "./llm/AzureOpenAIProvider";
+import { OpenAIProvider } from "./llm/OpenAIProvider";
+import { OllamaProvider } from "./llm/OllamaProvider";
+import { DEFAULT_OPENROUTER_CONFIG, OpenRouterProvider } from "./llm/OpenRouterProvider";
+import { DEFAULT_REPLAY_CONFIG, ReplayProvider } from "./llm/ReplayProvider";
 import { VaultReader } from "./vault/VaultReader";
 import { SecretManager, type SecurityLevel } from "./security/SecretManager";
 import { resolveLocale, setLocale, t } from "./i18n";
 import type { RAGManager } from "./rag/RAGManager";
-import { EmbeddingProviderRegistry } from "./rag/EmbeddingProvider";
+import { AzureOpenAIEmbeddingProvider, CustomEmbeddingProvider, EmbeddingProviderRegistry } from "./rag/EmbeddingProvider";
+import { OLLAMA_PORT, discoverLocalServers } from "./llm/localDiscovery";
+import { getDeviceType, isDesktop } from "./utils/platform";
+import { CostLedger } from "./llm/CostLedger";
+import type { LLMProvider, ResponseSchema } from "./llm/LLMProvider";
+import { probeToolSupport, toolProbeKey } from "./llm/toolProbe";
+import { getModelCapabilities } from "./llm/capabilities";
+import { sendStructuredRequest } from "./llm/structuredOutput";
+import { calculateCost, findModelPricing, formatCost } from "./llm/pricing";
+import { DebugLog, setDebugLog } from "./llm/debugLog";
 
 export default class LLMAssistantPlugin extends Plugin {
 	settings: LLMAssistantSettings = DEFAULT_SETTINGS;
@@ -17,6 +31,8 @@ export default class LLMAssistantPlugin extends Plugin {
 	embeddingProviderRegistry: EmbeddingProviderRegistry = new EmbeddingProviderRegistry();
 	vaultReader: VaultReader;
 	secretManager: SecretManager;
+	costLedger: CostLedger;
+	debugLog: DebugLog;
 	ragManager: RAGManager | null = null;
 
 	async onload(): Promise<void> {
@@ -26,6 +42,10 @@ export default class LLMAssistantPlugin extends Plugin {
 		setLocale(resolveLocale(this.settings.language));
 
 		this.vaultReader = new VaultReader(this.app);
+		this.costLedger = new CostLedger(this.app);
+		this.debugLog = new DebugLog(this.app);
+		this.syncDebugLog();
+		await this.costLedger.load();
 		this.secretManager = new SecretManager(
 			this.app,
 			this.settings.securityLevel,
@@ -36,11 +56,19 @@ export default class LLMAssistantPlugin extends Plugin {
 		// plaintext からの移行（v0.1.3で廃止）
 		await this.migratePlaintextKeys();
 
-		// カスタムエンドポイント設定を反映
-		const customProvider = this.providerRegistry.get("custom") as CustomEndpointProvider | undefined;
-		if (customProvider && this.settings.customEndpoint) {
-			customProvider.configure(this.settings.customEndpoint, this.settings.customModelId);
-		}
+		// カスタムエンドポイント・Azure・接続先の上書き設定を反映
+		this.providerRegistry.register(new ReplayProvider(
+			this.app,
+			this.providerRegistry,
+			async (providerId) => await this.secretManager.getApiKey(providerId) ?? "",
+		));
+		this.syncCustomProviders();
+		this.syncAzureConfig();
+		this.syncOpenAIApiMode();
+		this.syncOllamaOptions();
+		this.syncOpenRouterConfig();
+		this.syncReplayConfig();
+		this.applyEndpointOverrides();
 
 		// ChatViewの登録
 		this.registerView(VIEW_TYPE_CHAT, (leaf: WorkspaceLeaf) => {
@@ -61,6 +89,33 @@ export default class LLMAssistantPlugin extends Plugin {
 			},
 		});
 
+		// 構造化出力コマンド（frontmatter へのタグ追加・タスク抽出）
+		this.addCommand({
+			id: "suggest-tags",
+			name: t("command.suggestTags"),
+			editorCallback: (editor, ctx) => {
+				if (ctx.file) void this.suggestTags(ctx.file, editor.getValue());
+			},
+		});
+		this.addCommand({
+			id: "extract-tasks",
+			name: t("command.extractTasks"),
+			editorCallback: (editor) => {
+				void this.extractTasks(editor);
+			},
+		});
+
+		// ローカルサーバー検出（localhost はデスクトップでのみ意味を持つ）
+		if (isDesktop()) {
+			this.addCommand({
+				id: "detect-local-servers",
+				name: t("command.detectLocalServers"),
+				callback: () => {
+					void this.detectLocalServers();
+				},
+			});
+		}
+
 		// 設定タブ
 		this.addSettingTab(new LLMAssistantSettingTab(this.app, this));
 
@@ -167,7 +222,7 @@ export default class LLMAssistantPlugin extends Plugin {
 				const providerId = this.settings.ragEmbeddingProvider;
 				const keyId = this.settings.ragEmbeddingUseSharedKey ? providerId : `embedding-${providerId}`;
 				const apiKey = await this.secretManager.getApiKey(keyId) ?? "";
-				if (!apiKey && providerId !== "ollama") {
+				if (!apiKey && this.embeddingProviderRegistry.get(providerId)?.requiresApiKey) {
 					new Notice(t("error.apiKeyNotSet", { name: providerId }));
 					return;
 				}
@@ -245,6 +300,116 @@ export default class LLMAssistantPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * ノート本文からタグを提案させ、frontmatter の tags に追加
+	 */
+	private async suggestTags(file: TFile, content: string): Promise<void> {
+		const result = await this.requestStructured<{ tags: string[] }>(
+			"suggest-tags", SUGGEST_TAGS_SCHEMA, t("structured.suggestTags.prompt") + content,
+		);
+		if (!result) return;
+
+		// Obsidian のタグは空白・先頭の # を含まない
+		const tags = result.tags
+			.map((tag) => tag.trim().replace(/^#/, "").replace(/\s+/g, "-"))
+			.filter((tag) => tag.length > 0);
+		let added = 0;
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			const current = Array.isArray(frontmatter.tags)
+				? (frontmatter.tags as string[])
+				: typeof frontmatter.tags === "string" ? [frontmatter.tags] : [];
+			const merged = [...current];
+			for (const tag of tags) {
+				if (merged.includes(tag)) continue;
+				merged.push(tag);
+				added++;
+			}
+			frontmatter.tags = merged;
+		});
+		new Notice(t("notice.tagsAdded", { count: added }));
+	}
+
+	/**
+	 * 選択範囲（未選択時はノート全体）からタスクを抽出し、チェックリストとして挿入
+	 */
+	private async extractTasks(editor: Editor): Promise<void> {
+		const source = editor.getSelection() || editor.getValue();
+		const result = await this.requestStructured<{ tasks: Array<{ text: string; due: string }> }>(
+			"extract-tasks", EXTRACT_TASKS_SCHEMA, t("structured.extractTasks.prompt") + source,
+		);
+		if (!result) return;
+		if (result.tasks.length === 0) {
+			new Notice(t("notice.noTasksFound"));
+			return;
+		}
+
+		const lines = result.tasks.map((task) => `- [ ] ${task.text}${task.due ? ` 📅 ${task.due}` : ""}`);
+		// 選択範囲の末尾（未選択時はカーソル行）の次の行に挿入
+		const end = editor.getCursor("to");
+		editor.replaceRange(`\n${lines.join("\n")}\n`, { line: end.line, ch: editor.getLine(end.line).length });
+		new Notice(t("notice.tasksExtracted", { count: lines.length }));
+	}
+
+	/**
+	 * 現在のプロバイダー/モデルに構造化出力を要求
+	 * 失敗時は Notice を表示して null を返す。コストは "command:<id>" を会話IDとして台帳に記録する
+	 */
+	private async requestStructured<T>(commandId: string, schema: ResponseSchema, prompt: string): Promise<T | null> {
+		const provider = this.providerRegistry.get(this.settings.activeProvider);
+		if (!provider) {
+			new Notice(t("error.providerNotFound"));
+			return null;
+		}
+		const apiKey = await this.secretManager.getApiKey(provider.id) ?? "";
+		if (provider.requiresApiKey && !apiKey) {
+			new Notice(t("error.apiKeyNotSet", { name: provider.name }));
+			return null;
+		}
+
+		// 月間予算のみ確認（コマンドは会話に属さない）
+		const budget = this.costLedger.checkBudget(null, {
+			monthly: this.settings.budgetMonthlyLimit,
+			conversation: 0,
+			warnRatio: this.settings.budgetWarnRatio,
+		});
+		if (budget.state === "exceeded") {
+			new Notice(t("error.budgetExceeded.monthly", {
+				spent: formatCost(budget.spent ?? 0),
+				limit: formatCost(budget.limit ?? 0),
+			}), 8000);
+			return null;
+		}
+
+		const model = this.settings.activeModel;
+		const notice = new Notice(t("notice.structuredRunning"), 0);
+		try {
+			const { value, response } = await sendStructuredRequest<T>(provider, {
+				model,
+				messages: [{ role: "user", content: prompt }],
+				responseSchema: schema,
+			}, apiKey);
+			if (response.usage) {
+				const pricing = findModelPricing(provider.models, model);
+				await this.costLedger.record({
+					timestamp: Date.now(),
+					provider: provider.id,
+					model,
+					conversationId: `command:${commandId}`,
+					inputTokens: response.usage.inputTokens,
+					outputTokens: response.usage.outputTokens,
+					cost: response.usage.cost ?? (pricing ? calculateCost(response.usage, pricing) : 0),
+				}).catch((e) => console.warn("Failed to record cost:", e));
+			}
+			return value;
+		} catch (e) {
+			console.error(`Structured command ${commandId} failed:`, e);
+			new Notice(t("notice.structuredFailed", { error: (e as Error).message }), 8000);
+			return null;
+		} finally {
+			notice.hide();
+		}
+	}
+
 	/**
 	 * plaintext で保存された API鍵を secretstorage/webcrypto に移行し、
 	 * data.json から plaintextKeys フィールドを物理削除する。
@@ -294,11 +459,262 @@ export default class LLMAssistantPlugin extends Plugin {
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = (await this.loadData()) as Record<string, unknown> | null;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		this.settings.replay = { ...DEFAULT_REPLAY_CONFIG, ...this.settings.replay };
+		this.settings.openRouter = { ...DEFAULT_OPENROUTER_CONFIG, ...this.settings.openRouter };
 		// plaintext が設定に残っていた場合のフォールバック
 		if ((this.settings.securityLevel as string) === "plaintext") {
 			this.settings.securityLevel = "secretstorage";
 		}
+		this.migrateCustomEndpoint(data);
+	}
+
+	/**
+	 * 単一のカスタムエンドポイント設定（customEndpoint / customModelId, v0.4.20 まで）を
+	 * customProviders に移行する。ID は "custom" のまま引き継ぎ、選択中モデルとAPI鍵を維持する
+	 */
+	private migrateCustomEndpoint(data: Record<string, unknown> | null): void {
+		const settings = this.settings as unknown as Record<string, unknown>;
+		const endpoint = data?.customEndpoint;
+		const modelId = data?.customModelId;
+		delete settings.customEndpoint;
+		delete settings.customModelId;
+		if (typeof endpoint !== "string" || !endpoint || data?.customProviders) return;
+
+		this.settings.customProviders = [{
+			id: "custom",
+			name: t("settings.customEndpoint"),
+			protocol: "openai",
+			baseUrl: endpoint.replace(/\/chat\/completions\/?$/, ""),
+			// 旧設定ではAPI鍵を入力できなかったため認証なしで引き継ぐ
+			authScheme: "none",
+			authHeaderName: "",
+			headers: {},
+			models: typeof modelId === "string" && modelId ? [modelId] : [],
+			toolUse: "auto",
+		}];
+	}
+
+	/**
+	 * Tool Use を使うか判定
+	 * probeToolUse のプロバイダーは試験リクエストで確認し、結果を接続先・モデル単位でキャッシュする
+	 */
+	async resolveToolSupport(provider: LLMProvider, model: string, apiKey: string, signal?: AbortSignal): Promise<boolean> {
+		// モデル一覧（fetchModels の結果等）で非対応と分かっているモデルは試験しない
+		if (!getModelCapabilities(provider, model).tools) return false;
+		if (!provider.probeToolUse) return true;
+
+		const key = toolProbeKey(provider, model);
+		const cached = this.settings.toolSupportCache[key];
+		if (cached !== undefined) return cached;
+		// 送信を中止した後は試験しない（結果はどのみち使われない）
+		if (signal?.aborted) return false;
+
+		new Notice(t("notice.toolProbeRunning", { model }));
+		const supported = await probeToolSupport(provider, model, apiKey, signal);
+		// 判定不能（接続エラー等）はキャッシュせず、今回はテキストタグ方式で送る
+		if (supported === undefined) return false;
+		this.settings.toolSupportCache[key] = supported;
+		await this.saveSettings();
+		return supported;
+	}
+
+	/** プロバイダーの Tool Use 判定結果を破棄（次回送信時に再確認） */
+	async clearToolSupportCache(providerId: string): Promise<void> {
+		const cache = this.settings.toolSupportCache;
+		for (const key of Object.keys(cache)) {
+			if (key.startsWith(`${providerId}|`)) delete cache[key];
+		}
+		await this.saveSettings();
+	}
+
+	/**
+	 * settings.openaiResponsesModels を OpenAI プロバイダーに反映
+	 */
+	syncOpenAIApiMode(): void {
+		const openai = this.providerRegistry.get("openai");
+		if (openai instanceof OpenAIProvider) {
+			openai.responsesModels = new Set(this.settings.openaiResponsesModels);
+		}
+	}
+
+	/**
+	 * settings.replay を記録・再生プロバイダーに反映
+	 */
+	syncReplayConfig(): void {
+		const replay = this.providerRegistry.get("replay");
+		if (replay instanceof ReplayProvider) replay.configure(this.settings.replay);
+	}
+
+	/**
+	 * settings.debugLogEnabled に合わせてデバッグログの記録を切り替え
+	 */
+	syncDebugLog(): void {
+		setDebugLog(this.settings.debugLogEnabled ? this.debugLog : null);
+	}
+
+	/**
+	 * デバッグログを不具合報告用のノートとして Vault に書き出す
+	 */
+	async exportDebugLog(): Promise<void> {
+		const entries = await this.debugLog.readAll();
+		if (entries.length === 0) {
+			new Notice(t("notice.debugLogEmpty"));
+			return;
+		}
+		const now = new Date();
+		const stamp = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, "0")}${String(now.getDate()).padStart(2, "0")}-${String(now.getHours()).padStart(2, "0")}${String(now.getMinutes()).padStart(2, "0")}${String(now.getSeconds()).padStart(2, "0")}`;
+		const path = `${DISPLAY_NAME} debug log ${stamp}.md`;
+		const content = [
+			`# ${DISPLAY_NAME} debug log`,
+			"",
+			`- Version: ${this.manifest.version}`,
+			`- Device: ${getDeviceType()}`,
+			`- Exported: ${now.toISOString()}`,
+			`- Requests: ${entries.length}`,
+			"",
+			"API keys and custom header values are redacted from URLs, headers, bodies and responses. Request bodies may contain note content; review before sharing.",
+			"",
+			"```json",
+			JSON.stringify(entries, null, 2),
+			"```",
+			"",
+		].join("\n");
+		await this.vaultReader.createNote(path, content);
+		new Notice(t("notice.debugLogExported", { path }));
+	}
+
+	/**
+	 * settings.ollamaNumCtx / ollamaKeepAlive を Ollama プロバイダーに反映
+	 */
+	syncOllamaOptions(): void {
+		const ollama = this.providerRegistry.get("ollama");
+		if (ollama instanceof OllamaProvider) {
+			ollama.configure({ numCtx: this.settings.ollamaNumCtx, keepAlive: this.settings.ollamaKeepAlive });
+		}
+	}
+
+	/**
+	 * settings.openRouter を OpenRouter プロバイダーに反映
+	 */
+	syncOpenRouterConfig(): void {
+		const openRouter = this.providerRegistry.get("openrouter");
+		if (openRouter instanceof OpenRouterProvider) openRouter.configure(this.settings.openRouter);
+	}
+
+	/**
+	 * settings.azure をチャット・Embedding の Azure OpenAI プロバイダーに反映
+	 */
+	syncAzureConfig(): void {
+		const chat = this.providerRegistry.get("azure");
+		if (chat instanceof AzureOpenAIProvider) chat.configure(this.settings.azure);
+		const embedding = this.embeddingProviderRegistry.get("azure");
+		if (embedding instanceof AzureOpenAIEmbeddingProvider) embedding.configure(this.settings.azure);
+	}
+
+	/**
+	 * 接続先の上書き設定を組み込みプロバイダーと Embedding プロバイダーに適用
+	 */
+	applyEndpointOverrides(): void {
+		const overrides = this.settings.providerOverrides;
+		for (const provider of this.providerRegistry.getAll()) {
+			provider.endpoint?.setOverride(overrides[provider.id]);
+		}
+		for (const provider of this.embeddingProviderRegistry.getAll()) {
+			provider.endpoint?.setOverride(overrides[provider.id]);
+		}
+	}
+
+	/**
+	 * settings.customProviders をプロバイダーレジストリに反映
+	 * 既存インスタンスは設定を更新し（取得済みモデルを維持）、削除されたものは登録解除する
+	 * Embedding モデルを持つものは Embedding プロバイダーとしても登録する
+	 */
+	syncCustomProviders(): void {
+		const configs: CustomProviderConfig[] = this.settings.customProviders;
+		const ids = new Set(configs.map((c) => c.id));
+		for (const provider of this.providerRegistry.getAll()) {
+			if (provider instanceof CustomEndpointProvider && !ids.has(provider.id)) {
+				this.providerRegistry.unregister(provider.id);
+			}
+		}
+		for (const config of configs) {
+			const existing = this.providerRegistry.get(config.id);
+			if (existing instanceof CustomEndpointProvider) {
+				existing.configure(config);
+			} else {
+				this.providerRegistry.register(new CustomEndpointProvider(config));
+			}
+		}
+
+		const embeddingIds = new Set(configs.filter((c) => (c.embeddingModels ?? []).length > 0).map((c) => c.id));
+		for (const provider of this.embeddingProviderRegistry.getAll()) {
+			if (provider instanceof CustomEmbeddingProvider && !embeddingIds.has(provider.id)) {
+				this.embeddingProviderRegistry.unregister(provider.id);
+			}
+		}
+		for (const config of configs) {
+			if (!embeddingIds.has(config.id)) continue;
+			const existing = this.embeddingProviderRegistry.get(config.id);
+			if (existing instanceof CustomEmbeddingProvider) {
+				existing.configure(config);
+			} else {
+				this.embeddingProviderRegistry.register(new CustomEmbeddingProvider(config));
+			}
+		}
+	}
+
+	/**
+	 * localhost の既知ポートで動いている OpenAI 互換サーバーを検出し、プロバイダーとして登録
+	 * Ollama はネイティブのプロバイダーを有効化し、それ以外はカスタムエンドポイント（ID: local-<port>）として追加・更新する
+	 * @returns 検出したサーバー数
+	 */
+	async detectLocalServers(): Promise<number> {
+		new Notice(t("notice.localDiscoveryRunning"));
+		const servers = await discoverLocalServers();
+		if (servers.length === 0) {
+			new Notice(t("notice.localDiscoveryNone"));
+			return 0;
+		}
+
+		for (const server of servers) {
+			if (server.port === OLLAMA_PORT) {
+				this.settings.enableOllama = true;
+				const ollama = this.providerRegistry.get("ollama");
+				if (ollama instanceof OllamaProvider) {
+					try {
+						ollama.models = await ollama.fetchModels("");
+					} catch {
+						// /api/tags が使えない場合は既存の一覧を維持
+					}
+				}
+				continue;
+			}
+
+			const id = `local-${server.port}`;
+			const existing = this.settings.customProviders.find((c) => c.id === id);
+			const config: CustomProviderConfig = existing ?? {
+				...createCustomProviderConfig(`${server.name} (localhost:${server.port})`),
+				id,
+				baseUrl: server.baseUrl,
+				authScheme: "none",
+			};
+			config.models = server.models;
+			config.embeddingModels = server.embeddingModels;
+			if (!existing) this.settings.customProviders.push(config);
+		}
+
+		await this.saveSettings();
+		this.syncCustomProviders();
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_CHAT)) {
+			if (leaf.view instanceof ChatView) leaf.view.updateModelSelector();
+		}
+
+		new Notice(t("notice.localDiscoveryFound", {
+			servers: servers.map((s) => `${s.name} (:${s.port}) — ${s.models.length + s.embeddingModels.length}`).join(", "),
+		}));
+		return servers.length;
 	}
 
 	async saveSettings(): Promise<void> {
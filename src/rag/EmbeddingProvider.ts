@@ -1,12 +1,18 @@
 /**
  * EmbeddingProvider — Embedding API抽象化
  *
- * OpenAI / Gemini / Ollama の3プロバイダーに対応
+ * OpenAI / Gemini / Ollama / Azure OpenAI の4プロバイダーと、
+ * Embedding モデルを持つカスタムエンドポイント（OpenAI 互換）に対応
  * 全API通信は requestUrl() (Obsidian API) を使用
  * Node.js API (`require('http')` 等) は使用禁止
  */
 
 import { requestUrl } from "obsidian";
+import { ProviderEndpoint } from "../llm/endpointOverride";
+import type { AzureOpenAIConfig } from "../llm/AzureOpenAIProvider";
+import { DEFAULT_AZURE_API_VERSION, azureBaseUrl, isAzureEmbeddingModel } from "../llm/AzureOpenAIProvider";
+import type { CustomProviderConfig } from "../llm/CustomEndpointProvider";
+import { buildCustomAuthHeaders } from "../llm/CustomEndpointProvider";
 
 // --- インターフェース定義 ---
 
@@ -23,6 +29,8 @@ export interface EmbeddingProvider {
 	name: string;
 	models: EmbeddingModelInfo[];
 	requiresApiKey: boolean;
+	/** 接続先（チャット用プロバイダーと同じ上書き設定を適用する。Azure は独自の接続設定を使うため持たない） */
+	endpoint?: ProviderEndpoint;
 
 	/** バッチEmbedding生成（ドキュメント用） */
 	embed(texts: string[], apiKey: string, model: string, dimensions?: number): Promise<EmbedResult>;
@@ -48,6 +56,7 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
 	id = "openai";
 	name = "OpenAI";
 	requiresApiKey = true;
+	endpoint = new ProviderEndpoint("https://api.openai.com/v1");
 	models: EmbeddingModelInfo[] = [
 		{ id: "text-embedding-3-small", name: "text-embedding-3-small", dimensions: 1536, reducedDimensions: 512, costPer1MTokens: 0.02 },
 		{ id: "text-embedding-3-large", name: "text-embedding-3-large", dimensions: 3072, reducedDimensions: 512, costPer1MTokens: 0.13 },
@@ -96,12 +105,12 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
 				}
 
 				const response = await requestUrl({
-					url: "https://api.openai.com/v1/embeddings",
+					url: this.endpoint.url("/embeddings"),
 					method: "POST",
-					headers: {
+					headers: this.endpoint.headers({
 						"Authorization": `Bearer ${apiKey}`,
 						"Content-Type": "application/json",
-					},
+					}),
 					body: JSON.stringify(body),
 					throw: false,
 				});
@@ -152,6 +161,7 @@ export class GeminiEmbeddingProvider implements EmbeddingProvider {
 	id = "gemini";
 	name = "Google Gemini";
 	requiresApiKey = true;
+	endpoint = new ProviderEndpoint("https://generativelanguage.googleapis.com/v1beta");
 	models: EmbeddingModelInfo[] = [
 		{ id: "gemini-embedding-001", name: "Gemini Embedding 001", dimensions: 3072, reducedDimensions: 768, costPer1MTokens: 0 },
 	];
@@ -195,11 +205,11 @@ export class GeminiEmbeddingProvider implements EmbeddingProvider {
 					body.outputDimensionality = dimensions;
 				}
 
-				const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:embedContent?key=${apiKey}`;
+				const url = this.endpoint.url(`/models/${model}:embedContent`, { key: apiKey });
 				const response = await requestUrl({
 					url,
 					method: "POST",
-					headers: { "Content-Type": "application/json" },
+					headers: this.endpoint.headers({ "Content-Type": "application/json" }),
 					body: JSON.stringify(body),
 					throw: false,
 				});
@@ -252,11 +262,11 @@ export class GeminiEmbeddingProvider implements EmbeddingProvider {
 					return req;
 				});
 
-				const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${apiKey}`;
+				const url = this.endpoint.url(`/models/${model}:batchEmbedContents`, { key: apiKey });
 				const response = await requestUrl({
 					url,
 					method: "POST",
-					headers: { "Content-Type": "application/json" },
+					headers: this.endpoint.headers({ "Content-Type": "application/json" }),
 					body: JSON.stringify({ requests }),
 					throw: false,
 				});
@@ -301,6 +311,7 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
 	id = "ollama";
 	name = "Ollama (Local)";
 	requiresApiKey = false;
+	endpoint = new ProviderEndpoint("http://localhost:11434");
 	models: EmbeddingModelInfo[] = [
 		{ id: "nomic-embed-text", name: "nomic-embed-text", dimensions: 768, costPer1MTokens: 0 },
 		{ id: "mxbai-embed-large", name: "mxbai-embed-large", dimensions: 1024, costPer1MTokens: 0 },
@@ -337,9 +348,9 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
 			try {
 				// Try requestUrl first (Obsidian API)
 				const response = await requestUrl({
-					url: "http://localhost:11434/api/embed",
+					url: this.endpoint.url("/api/embed"),
 					method: "POST",
-					headers: { "Content-Type": "application/json" },
+					headers: this.endpoint.headers({ "Content-Type": "application/json" }),
 					body: JSON.stringify({ model, input: texts }),
 					throw: false,
 				});
@@ -359,6 +370,217 @@ export class OllamaEmbeddingProvider implements EmbeddingProvider {
 	}
 }
 
+// --- Azure OpenAI ---
+
+/** 基になるモデルごとの次元数・料金（デプロイ名ではなくモデル名で引く） */
+const AZURE_EMBEDDING_MODELS: Record<string, Omit<EmbeddingModelInfo, "id" | "name">> = {
+	"text-embedding-3-small": { dimensions: 1536, reducedDimensions: 512, costPer1MTokens: 0.02 },
+	"text-embedding-3-large": { dimensions: 3072, reducedDimensions: 512, costPer1MTokens: 0.13 },
+	"text-embedding-ada-002": { dimensions: 1536, costPer1MTokens: 0.1 },
+};
+
+/**
+ * Azure OpenAI Embedding
+ * settings.azure のデプロイメントのうち Embedding モデルのものをモデル一覧とする（model ID = デプロイ名）
+ */
+export class AzureOpenAIEmbeddingProvider implements EmbeddingProvider {
+	id = "azure";
+	name = "Azure OpenAI";
+	requiresApiKey = true;
+	models: EmbeddingModelInfo[] = [];
+
+	private config: AzureOpenAIConfig = { endpoint: "", apiVersion: DEFAULT_AZURE_API_VERSION, deployments: [] };
+
+	configure(config: AzureOpenAIConfig): void {
+		this.config = config;
+		this.models = config.deployments
+			.filter((d) => isAzureEmbeddingModel(d.model))
+			.map((d) => ({
+				id: d.name,
+				name: d.name === d.model ? d.name : `${d.name} (${d.model})`,
+				...(AZURE_EMBEDDING_MODELS[d.model] ?? { dimensions: 1536 }),
+			}));
+	}
+
+	getDimensions(model: string, compact?: boolean): number {
+		const info = this.models.find((m) => m.id === model);
+		if (!info) return 1536;
+		return compact && info.reducedDimensions ? info.reducedDimensions : info.dimensions;
+	}
+
+	async embed(texts: string[], apiKey: string, model: string, dimensions?: number): Promise<EmbedResult> {
+		const BATCH_SIZE = 100;
+		const allEmbeddings: number[][] = [];
+		let totalTokens = 0;
+
+		for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+			const batch = texts.slice(i, i + BATCH_SIZE);
+			const result = await this.callWithRetry(batch, apiKey, model, dimensions);
+			allEmbeddings.push(...result.embeddings);
+			totalTokens += result.totalTokens;
+			if (i + BATCH_SIZE < texts.length) {
+				await sleep(0);
+			}
+		}
+
+		return { embeddings: allEmbeddings, totalTokens };
+	}
+
+	async embedSingle(text: string, apiKey: string, model: string, dimensions?: number): Promise<number[]> {
+		const result = await this.callWithRetry([text], apiKey, model, dimensions);
+		return result.embeddings[0];
+	}
+
+	private async callWithRetry(texts: string[], apiKey: string, deployment: string, dimensions?: number, retries = 3): Promise<EmbedResult> {
+		const apiVersion = encodeURIComponent(this.config.apiVersion || DEFAULT_AZURE_API_VERSION);
+		const url = `${azureBaseUrl(this.config)}/openai/deployments/${encodeURIComponent(deployment)}/embeddings?api-version=${apiVersion}`;
+
+		for (let attempt = 0; attempt < retries; attempt++) {
+			try {
+				const body: Record<string, unknown> = {
+					input: texts,
+					encoding_format: "float",
+				};
+				if (dimensions) {
+					body.dimensions = dimensions;
+				}
+
+				const response = await requestUrl({
+					url,
+					method: "POST",
+					headers: {
+						"api-key": apiKey,
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify(body),
+					throw: false,
+				});
+
+				if (response.status === 429) {
+					const delay = Math.pow(2, attempt) * 1000;
+					console.warn(`Azure OpenAI Embedding rate limited, retrying in ${delay}ms...`);
+					await sleep(delay);
+					continue;
+				}
+
+				if (response.status >= 500) {
+					if (attempt < retries - 1) {
+						await sleep(1000);
+						continue;
+					}
+					throw new Error(`Azure OpenAI Embedding API error: ${response.status}`);
+				}
+
+				if (response.status !== 200) {
+					const errorMsg = response.json?.error?.message ?? `HTTP ${response.status}`;
+					throw new Error(`Azure OpenAI Embedding API error: ${errorMsg}`);
+				}
+
+				const data = response.json;
+				const embeddings = (data.data as Array<{ embedding: number[]; index: number }>)
+					.sort((a, b) => a.index - b.index)
+					.map((d) => d.embedding);
+				const usedTokens = data.usage?.total_tokens ?? 0;
+
+				return { embeddings, totalTokens: usedTokens };
+			} catch (e) {
+				if (attempt === retries - 1) throw e;
+				if ((e as Error).message?.includes("429")) {
+					await sleep(Math.pow(2, attempt) * 1000);
+					continue;
+				}
+				throw e;
+			}
+		}
+		throw new Error("Azure OpenAI Embedding: max retries exceeded");
+	}
+}
+
+// --- カスタムエンドポイント ---
+
+/**
+ * カスタムエンドポイント（OpenAI 互換の /embeddings）
+ * 設定の embeddingModels（ローカルサーバー検出時に確認済みのもの）をモデル一覧とし、
+ * IDと認証方式はチャット用のカスタムプロバイダーと共有する
+ */
+export class CustomEmbeddingProvider implements EmbeddingProvider {
+	id: string;
+	name: string;
+	requiresApiKey: boolean;
+	models: EmbeddingModelInfo[] = [];
+
+	private config: CustomProviderConfig;
+
+	constructor(config: CustomProviderConfig) {
+		this.config = config;
+		this.id = config.id;
+		this.name = config.name;
+		this.requiresApiKey = config.authScheme !== "none";
+		this.configure(config);
+	}
+
+	configure(config: CustomProviderConfig): void {
+		this.config = config;
+		this.name = config.name;
+		this.requiresApiKey = config.authScheme !== "none";
+		this.models = (config.embeddingModels ?? []).map((m) => ({ id: m.id, name: m.id, dimensions: m.dimensions, costPer1MTokens: 0 }));
+	}
+
+	getDimensions(model: string, _compact?: boolean): number {
+		return this.models.find((m) => m.id === model)?.dimensions ?? this.models[0]?.dimensions ?? 768;
+	}
+
+	async embed(texts: string[], apiKey: string, model: string, _dimensions?: number): Promise<EmbedResult> {
+		// ローカルサーバーは大きなバッチで失敗しやすいため小さめに分割
+		const BATCH_SIZE = 32;
+		const allEmbeddings: number[][] = [];
+		let totalTokens = 0;
+
+		for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+			const batch = texts.slice(i, i + BATCH_SIZE);
+			const result = await this.callApi(batch, apiKey, model);
+			allEmbeddings.push(...result.embeddings);
+			totalTokens += result.totalTokens;
+			if (i + BATCH_SIZE < texts.length) {
+				await sleep(0);
+			}
+		}
+
+		return { embeddings: allEmbeddings, totalTokens };
+	}
+
+	async embedSingle(text: string, apiKey: string, model: string, _dimensions?: number): Promise<number[]> {
+		const result = await this.callApi([text], apiKey, model);
+		return result.embeddings[0];
+	}
+
+	private async callApi(texts: string[], apiKey: string, model: string): Promise<EmbedResult> {
+		const baseUrl = this.config.baseUrl.trim().replace(/\/+$/, "");
+		// dimensions は多くのローカルサーバーが未対応のため送らない（次元数は検出時に確認済み）
+		const response = await requestUrl({
+			url: `${baseUrl}/embeddings`,
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...buildCustomAuthHeaders(this.config, apiKey),
+			},
+			body: JSON.stringify({ model, input: texts, encoding_format: "float" }),
+			throw: false,
+		});
+
+		if (response.status !== 200) {
+			const errorMsg = response.json?.error?.message ?? `HTTP ${response.status}`;
+			throw new Error(`${this.name} Embedding API error: ${errorMsg}`);
+		}
+
+		const data = response.json;
+		const embeddings = (data.data as Array<{ embedding: number[]; index: number }>)
+			.sort((a, b) => a.index - b.index)
+			.map((d) => d.embedding);
+		return { embeddings, totalTokens: data.usage?.total_tokens ?? 0 };
+	}
+}
+
 // --- レジストリ ---
 
 export class EmbeddingProviderRegistry {
@@ -368,15 +590,25 @@ export class EmbeddingProviderRegistry {
 		const openai = new OpenAIEmbeddingProvider();
 		const gemini = new GeminiEmbeddingProvider();
 		const ollama = new OllamaEmbeddingProvider();
+		const azure = new AzureOpenAIEmbeddingProvider();
 		this.providers.set(openai.id, openai);
 		this.providers.set(gemini.id, gemini);
 		this.providers.set(ollama.id, ollama);
+		this.providers.set(azure.id, azure);
 	}
 
 	get(id: string): EmbeddingProvider | undefined {
 		return this.providers.get(id);
 	}
 
+	register(provider: EmbeddingProvider): void {
+		this.providers.set(provider.id, provider);
+	}
+
+	unregister(id: string): void {
+		this.providers.delete(id);
+	}
+
 	getAll(): EmbeddingProvider[] {
 		return Array.from(this.providers.values());
 	}
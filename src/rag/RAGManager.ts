@@ -747,16 +747,21 @@ export class RAGManager {
 		const parts: string[] = [t("rag.contextHeader")];
 
 		for (const result of results) {
-			const { chunk, score } = result;
-			const headingInfo = chunk.heading ? ` > ${chunk.heading}` : "";
-			parts.push(
-				`--- [[${chunk.fileName}]]${headingInfo} (${chunk.filePath}, score: ${score.toFixed(2)}) ---\n${chunk.content}`,
-			);
+			parts.push(this.formatRAGResult(result));
 		}
 
 		return parts.join("\n\n");
 	}
 
+	/**
+	 * 検索結果1件をLLMコンテキスト文字列に変換（見出しは含まない）
+	 */
+	formatRAGResult(result: SearchResult): string {
+		const { chunk, score } = result;
+		const headingInfo = chunk.heading ? ` > ${chunk.heading}` : "";
+		return `--- [[${chunk.fileName}]]${headingInfo} (${chunk.filePath}, score: ${score.toFixed(2)}) ---\n${chunk.content}`;
+	}
+
 	/**
 	 * vault_searchツールの実行ロジック（Phase 2: async化）
 	 */
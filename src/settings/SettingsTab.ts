@@ -2,10 +2,18 @@ import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type LLMAssistantPlugin from "../main";
 import { VIEW_TYPE_CHAT, DISPLAY_NAME, getSystemPromptPresets } from "../constants";
 import type { SecurityLevel } from "../security/SecretManager";
-import type { CustomEndpointProvider } from "../llm/CustomEndpointProvider";
+import { CustomEndpointProvider, DEFAULT_AUTH_HEADERS, createCustomProviderConfig, type CustomAuthScheme, type CustomProtocol, type CustomToolUseMode, type CustomProviderConfig } from "../llm/CustomEndpointProvider";
 import type { LLMProvider } from "../llm/LLMProvider";
 import { t, setLocale, resolveLocale } from "../i18n";
-import { isMobile } from "../utils/platform";
+import { isDesktop, isMobile } from "../utils/platform";
+import { formatCost } from "../llm/pricing";
+import { supportsResponsesApi } from "../llm/openaiResponses";
+import { acceptsParam, getModelCapabilities, type ModelCapabilities } from "../llm/capabilities";
+import { OllamaProvider, type OllamaInstalledModel } from "../llm/OllamaProvider";
+import { ReplayProvider, type ReplayConfig } from "../llm/ReplayProvider";
+import type { EndpointOverride } from "../llm/endpointOverride";
+import { AzureOpenAIProvider, DEFAULT_AZURE_API_VERSION, listAzureDeployments, type AzureDeployment } from "../llm/AzureOpenAIProvider";
+import { OpenRouterProvider, type OpenRouterKeyInfo } from "../llm/OpenRouterProvider";
 
 export class LLMAssistantSettingTab extends PluginSettingTab {
 	plugin: LLMAssistantPlugin;
@@ -76,6 +84,10 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 		const activeProvider = this.plugin.providerRegistry.get(
 			this.plugin.settings.activeProvider
 		);
+		// 選択中のモデルの機能（非対応の設定項目を無効化する）
+		const activeCaps = activeProvider
+			? getModelCapabilities(activeProvider, this.plugin.settings.activeModel)
+			: undefined;
 		if (activeProvider) {
 			const modelSetting = new Setting(containerEl)
 				.setName(t("settings.model"))
@@ -89,18 +101,49 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 						this.plugin.settings.activeModel = value;
 						await this.plugin.saveSettings();
 						this.syncChatViewModelSelector();
+						// モデル別の設定（Responses API 等）を再描画
+						this.display();
 					});
 				});
+			if (activeCaps) {
+				modelSetting.descEl.createDiv({ text: this.formatCapabilities(activeCaps) });
+			}
 
 			// モデルリスト更新ボタン（fetchModels対応プロバイダーのみ）
 			if (activeProvider.fetchModels) {
 				modelSetting.addButton((btn) => {
 					btn.setButtonText(t("settings.refreshModels"));
 					btn.onClick(async () => {
-						await this.refreshModels(activeProvider, btn);
+						// カスタムプロバイダー・Azure は取得結果を設定に保存する
+						if (activeProvider instanceof CustomEndpointProvider) {
+							await this.fetchCustomModels(activeProvider.getConfig(), btn);
+						} else if (activeProvider instanceof AzureOpenAIProvider) {
+							await this.fetchAzureDeployments(btn);
+						} else {
+							await this.refreshModels(activeProvider, btn);
+						}
 					});
 				});
 			}
+
+			// OpenAI: モデルごとの Responses API 切り替え（対応モデルのみ）
+			const activeModel = this.plugin.settings.activeModel;
+			if (activeProvider.id === "openai" && supportsResponsesApi(activeModel)) {
+				new Setting(containerEl)
+					.setName(t("settings.openaiResponsesApi"))
+					.setDesc(t("settings.openaiResponsesApiDesc", { model: activeModel }))
+					.addToggle((toggle) => {
+						const models = this.plugin.settings.openaiResponsesModels;
+						toggle.setValue(models.includes(activeModel));
+						toggle.onChange(async (value) => {
+							this.plugin.settings.openaiResponsesModels = value
+								? [...models.filter((m) => m !== activeModel), activeModel]
+								: models.filter((m) => m !== activeModel);
+							await this.plugin.saveSettings();
+							this.plugin.syncOpenAIApiMode();
+						});
+					});
+			}
 		}
 
 		// セキュリティレベル選択
@@ -145,7 +188,7 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 		new Setting(containerEl).setName(t("settings.apiKeys")).setHeading();
 
 		allProviders.filter((p) => p.requiresApiKey).forEach((provider) => {
-			// OpenRouter / Ollama にはトグルを表示
+			// OpenRouter / Ollama / Azure にはトグルを表示
 			const toggleKey = this.getProviderToggleKey(provider.id);
 			if (toggleKey) {
 				new Setting(containerEl)
@@ -265,37 +308,26 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 						this.syncChatViewModelSelector();
 					});
 				});
+
+			// Ollama のオプションとモデル管理（有効時のみ）
+			if (this.plugin.settings.enableOllama && ollamaProvider instanceof OllamaProvider) {
+				this.displayOllamaSection(containerEl, ollamaProvider);
+			}
 		}
 
-		// カスタムエンドポイント設定
-		new Setting(containerEl).setName(t("settings.customEndpoint")).setHeading();
+		// OpenRouter のルーティング設定（有効時のみ）
+		const openRouterProvider = allProviders.find((p) => p.id === "openrouter");
+		if (this.plugin.settings.enableOpenRouter && openRouterProvider instanceof OpenRouterProvider) {
+			this.displayOpenRouterSection(containerEl, openRouterProvider);
+		}
 
-		new Setting(containerEl)
-			.setName(t("settings.endpointUrl"))
-			.setDesc(t("settings.endpointUrlDesc"))
-			.addText((text) => {
-				text.inputEl.addClass("llm-settings-input-full");
-				text.setPlaceholder(t("settings.endpointUrlPlaceholder"));
-				text.setValue(this.plugin.settings.customEndpoint);
-				text.onChange(async (value) => {
-					this.plugin.settings.customEndpoint = value;
-					await this.plugin.saveSettings();
-					this.applyCustomEndpoint();
-				});
-			});
+		// Azure OpenAI 接続設定（有効時のみ）
+		if (this.plugin.settings.enableAzure) {
+			this.displayAzureSection(containerEl);
+		}
 
-		new Setting(containerEl)
-			.setName(t("settings.modelId"))
-			.setDesc(t("settings.modelIdDesc"))
-			.addText((text) => {
-				text.setPlaceholder(t("settings.modelIdPlaceholder"));
-				text.setValue(this.plugin.settings.customModelId);
-				text.onChange(async (value) => {
-					this.plugin.settings.customModelId = value;
-					await this.plugin.saveSettings();
-					this.applyCustomEndpoint();
-				});
-			});
+		// カスタムエンドポイント設定
+		this.displayCustomProvidersSection(containerEl);
 
 		// 表示設定
 		new Setting(containerEl).setName(t("settings.advanced")).setHeading();
@@ -335,19 +367,70 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName(t("settings.promptCaching"))
+			.setDesc(t("settings.promptCachingDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.promptCaching);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.promptCaching = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		const temperatureSupported = !activeCaps || acceptsParam(activeCaps, "temperature");
 		new Setting(containerEl)
 			.setName(t("settings.temperature"))
-			.setDesc(t("settings.temperatureDesc"))
+			.setDesc(temperatureSupported ? t("settings.temperatureDesc") : t("settings.temperatureUnsupported"))
 			.addSlider((slider) => {
 				slider.setLimits(0, 1, 0.1);
 				slider.setValue(this.plugin.settings.temperature);
 				slider.setDynamicTooltip();
+				slider.setDisabled(!temperatureSupported);
 				slider.onChange(async (value) => {
 					this.plugin.settings.temperature = value;
 					await this.plugin.saveSettings();
 				});
 			});
 
+		const reasoningSupported = !activeCaps || activeCaps.reasoning;
+		new Setting(containerEl)
+			.setName(t("settings.reasoningEffort"))
+			.setDesc(reasoningSupported ? t("settings.reasoningEffortDesc") : t("settings.reasoningUnsupported"))
+			.addDropdown((dropdown) => {
+				dropdown.setDisabled(!reasoningSupported);
+				dropdown.addOption("off", t("settings.reasoningOff"));
+				dropdown.addOption("low", t("settings.reasoningLow"));
+				dropdown.addOption("medium", t("settings.reasoningMedium"));
+				dropdown.addOption("high", t("settings.reasoningHigh"));
+				dropdown.setValue(this.plugin.settings.reasoningEffort);
+				dropdown.onChange(async (value) => {
+					this.plugin.settings.reasoningEffort = value as "off" | "low" | "medium" | "high";
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.fallbackChain"))
+			.setDesc(t("settings.fallbackChainDesc"))
+			.addTextArea((text) => {
+				text.inputEl.rows = 3;
+				text.setPlaceholder(t("settings.fallbackChainPlaceholder"));
+				text.setValue(this.plugin.settings.fallbackChain.map((f) => `${f.provider}:${f.model}`).join("\n"));
+				text.onChange(async (value) => {
+					// 1行1件 "provider:model"（モデルIDにはコロンを含み得るので最初のコロンで分割）
+					this.plugin.settings.fallbackChain = value.split("\n")
+						.map((line) => line.trim())
+						.filter((line) => line.includes(":"))
+						.map((line) => {
+							const sep = line.indexOf(":");
+							return { provider: line.slice(0, sep).trim(), model: line.slice(sep + 1).trim() };
+						})
+						.filter((f) => f.provider && f.model);
+					await this.plugin.saveSettings();
+				});
+			});
+
 		const presets = getSystemPromptPresets();
 		new Setting(containerEl)
 			.setName(t("settings.preset"))
@@ -380,6 +463,9 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 				});
 			});
 
+		// 利用コストと予算
+		this.displayCostSection(containerEl);
+
 		// コンテキストスコープ設定
 		new Setting(containerEl).setName(t("settings.contextScope")).setHeading();
 
@@ -397,6 +483,42 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(containerEl)
+			.setName(t("settings.autoAttachImages"))
+			.setDesc(t("settings.autoAttachImagesDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.autoAttachEmbeddedImages);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.autoAttachEmbeddedImages = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.contextTrim"))
+			.setDesc(t("settings.contextTrimDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.contextTrimEnabled);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.contextTrimEnabled = value;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		if (this.plugin.settings.contextTrimEnabled) {
+			new Setting(containerEl)
+				.setName(t("settings.contextSummary"))
+				.setDesc(t("settings.contextSummaryDesc"))
+				.addToggle((toggle) => {
+					toggle.setValue(this.plugin.settings.contextSummaryEnabled);
+					toggle.onChange(async (value) => {
+						this.plugin.settings.contextSummaryEnabled = value;
+						await this.plugin.saveSettings();
+					});
+				});
+		}
+
 		// 「高度な設定」アコーディオン（RAG / Embedding）
 		const advancedDetailsEl = containerEl.createEl("details", {
 			cls: "llm-settings-advanced-details",
@@ -638,6 +760,9 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 					// モバイル警告: localhostはスマホ自身を指す
 					const mobileTipEl = advancedDetailsEl.createDiv({ cls: "llm-embedding-privacy-note" });
 					mobileTipEl.createEl("small", { text: t("settings.ragEmbeddingOllamaMobileTip") });
+				} else if (selectedProviderId === "azure") {
+					const tipEl = advancedDetailsEl.createDiv({ cls: "llm-rag-note" });
+					tipEl.createEl("small", { text: t("settings.ragEmbeddingAzureTip") });
 				}
 
 				// Embeddingモデル選択
@@ -806,6 +931,15 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 			}
 		}
 
+		// 接続先の上書き（プロキシ・ゲートウェイ）
+		this.displayEndpointOverridesSection(advancedDetailsEl);
+
+		// デバッグログ
+		this.displayDebugLogSection(advancedDetailsEl);
+
+		// 記録・再生
+		this.displayReplaySection(advancedDetailsEl);
+
 		// バージョン情報
 		const versionEl = containerEl.createEl("div", {
 			cls: "llm-settings-version",
@@ -815,6 +949,882 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 		});
 	}
 
+	/**
+	 * 利用コスト（今月の合計・モデル別内訳）と予算設定
+	 */
+	private displayCostSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName(t("settings.cost")).setHeading();
+
+		const ledger = this.plugin.costLedger;
+		const summary = new Setting(containerEl)
+			.setName(t("settings.costThisMonth", { cost: formatCost(ledger.getMonthlyTotal()) }))
+			.setDesc(t("settings.costThisMonthDesc"));
+		summary.addButton((btn) => {
+			btn.setButtonText(t("settings.costReset"));
+			btn.setWarning();
+			btn.onClick(async () => {
+				await ledger.reset();
+				new Notice(t("notice.costLedgerReset"));
+				this.display();
+			});
+		});
+
+		const breakdown = ledger.getMonthlyBreakdown();
+		if (breakdown.length > 0) {
+			const listEl = containerEl.createDiv({ cls: "llm-cost-breakdown" });
+			for (const row of breakdown) {
+				listEl.createEl("small", {
+					text: t("settings.costBreakdownRow", {
+						provider: row.provider,
+						model: row.model,
+						requests: row.requests,
+						cost: formatCost(row.cost),
+					}),
+				});
+			}
+		}
+
+		new Setting(containerEl)
+			.setName(t("settings.budgetMonthly"))
+			.setDesc(t("settings.budgetMonthlyDesc"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.inputEl.min = "0";
+				text.setPlaceholder("0");
+				text.setValue(this.plugin.settings.budgetMonthlyLimit ? String(this.plugin.settings.budgetMonthlyLimit) : "");
+				text.onChange(async (value) => {
+					this.plugin.settings.budgetMonthlyLimit = Math.max(0, parseFloat(value) || 0);
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.budgetConversation"))
+			.setDesc(t("settings.budgetConversationDesc"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.inputEl.min = "0";
+				text.setPlaceholder("0");
+				text.setValue(this.plugin.settings.budgetConversationLimit ? String(this.plugin.settings.budgetConversationLimit) : "");
+				text.onChange(async (value) => {
+					this.plugin.settings.budgetConversationLimit = Math.max(0, parseFloat(value) || 0);
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.budgetWarnRatio"))
+			.setDesc(t("settings.budgetWarnRatioDesc"))
+			.addSlider((slider) => {
+				slider.setLimits(0.5, 1, 0.05);
+				slider.setValue(this.plugin.settings.budgetWarnRatio);
+				slider.setDynamicTooltip();
+				slider.onChange(async (value) => {
+					this.plugin.settings.budgetWarnRatio = value;
+					await this.plugin.saveSettings();
+				});
+			});
+	}
+
+	/**
+	 * ユーザー定義プロバイダーの一覧と編集フォーム
+	 */
+	private displayCustomProvidersSection(containerEl: HTMLElement): void {
+		const heading = new Setting(containerEl)
+			.setName(t("settings.customEndpoint"))
+			.setDesc(t("settings.customEndpointDesc"))
+			.setHeading();
+		// ローカルサーバー検出（localhost はデスクトップでのみ意味を持つ）
+		if (isDesktop()) {
+			heading.addButton((btn) => {
+				btn.setButtonText(t("settings.detectLocalServers"));
+				btn.setTooltip(t("settings.detectLocalServersDesc"));
+				btn.onClick(async () => {
+					btn.setDisabled(true);
+					try {
+						await this.plugin.detectLocalServers();
+					} finally {
+						btn.setDisabled(false);
+					}
+					this.display();
+				});
+			});
+		}
+		heading
+			.addButton((btn) => {
+				btn.setButtonText(t("settings.customProviderAdd"));
+				btn.onClick(async () => {
+					const count = this.plugin.settings.customProviders.length;
+					this.plugin.settings.customProviders.push(
+						createCustomProviderConfig(t("settings.customProviderDefaultName", { n: count + 1 })),
+					);
+					await this.saveCustomProviders();
+					this.display();
+				});
+			});
+
+		for (const config of this.plugin.settings.customProviders) {
+			const groupEl = containerEl.createDiv({ cls: "llm-custom-provider" });
+
+			new Setting(groupEl)
+				.setName(t("settings.customProviderName"))
+				.addText((text) => {
+					text.setValue(config.name);
+					text.onChange(async (value) => {
+						config.name = value;
+						await this.saveCustomProviders();
+					});
+				})
+				.addButton((btn) => {
+					btn.setButtonText(t("settings.customProviderDelete"));
+					btn.setWarning();
+					btn.onClick(async () => {
+						await this.deleteCustomProvider(config);
+						this.display();
+					});
+				});
+
+			new Setting(groupEl)
+				.setName(t("settings.customProviderProtocol"))
+				.addDropdown((dropdown) => {
+					dropdown.addOption("openai", t("settings.customProtocolOpenAI"));
+					dropdown.addOption("anthropic", t("settings.customProtocolAnthropic"));
+					dropdown.addOption("gemini", t("settings.customProtocolGemini"));
+					dropdown.setValue(config.protocol);
+					dropdown.onChange(async (value) => {
+						config.protocol = value as CustomProtocol;
+						await this.saveCustomProviders();
+						this.display();
+					});
+				});
+
+			new Setting(groupEl)
+				.setName(t("settings.endpointUrl"))
+				.setDesc(t("settings.endpointUrlDesc"))
+				.addText((text) => {
+					text.inputEl.addClass("llm-settings-input-full");
+					text.setPlaceholder(t("settings.endpointUrlPlaceholder"));
+					text.setValue(config.baseUrl);
+					text.onChange(async (value) => {
+						config.baseUrl = value;
+						await this.saveCustomProviders();
+					});
+				});
+
+			const authSetting = new Setting(groupEl)
+				.setName(t("settings.customProviderAuth"))
+				.setDesc(t("settings.customProviderAuthDesc"))
+				.addDropdown((dropdown) => {
+					dropdown.addOption("bearer", t("settings.customAuthBearer"));
+					dropdown.addOption("header", t("settings.customAuthHeader"));
+					dropdown.addOption("none", t("settings.customAuthNone"));
+					dropdown.setValue(config.authScheme);
+					dropdown.onChange(async (value) => {
+						config.authScheme = value as CustomAuthScheme;
+						await this.saveCustomProviders();
+						// API鍵入力欄の表示/非表示を反映
+						this.display();
+					});
+				});
+			if (config.authScheme === "header") {
+				authSetting.addText((text) => {
+					text.setPlaceholder(DEFAULT_AUTH_HEADERS[config.protocol]);
+					text.setValue(config.authHeaderName);
+					text.onChange(async (value) => {
+						config.authHeaderName = value.trim();
+						await this.saveCustomProviders();
+					});
+				});
+			}
+
+			new Setting(groupEl)
+				.setName(t("settings.customProviderHeaders"))
+				.setDesc(t("settings.customProviderHeadersDesc"))
+				.addTextArea((text) => {
+					text.setPlaceholder(t("settings.customProviderHeadersPlaceholder"));
+					text.setValue(Object.entries(config.headers).map(([k, v]) => `${k}: ${v}`).join("\n"));
+					text.onChange(async (value) => {
+						config.headers = parseKeyValueLines(value, ":");
+						await this.saveCustomProviders();
+					});
+				});
+
+			new Setting(groupEl)
+				.setName(t("settings.customProviderModels"))
+				.setDesc(t("settings.customProviderModelsDesc"))
+				.addTextArea((text) => {
+					text.setPlaceholder(t("settings.modelIdPlaceholder"));
+					text.setValue(config.models.join("\n"));
+					text.onChange(async (value) => {
+						config.models = value.split("\n").map((line) => line.trim()).filter((line) => line.length > 0);
+						await this.saveCustomProviders();
+					});
+				})
+				.addButton((btn) => {
+					btn.setButtonText(t("settings.refreshModels"));
+					btn.onClick(() => {
+						void this.fetchCustomModels(config, btn);
+					});
+				});
+
+			// 検出時に /embeddings で確認済みの Embedding モデル（RAG の Embedding プロバイダーとして選択可能）
+			const embeddingModels = config.embeddingModels ?? [];
+			if (embeddingModels.length > 0) {
+				new Setting(groupEl)
+					.setName(t("settings.customProviderEmbeddingModels"))
+					.setDesc(t("settings.customProviderEmbeddingModelsDesc", {
+						models: embeddingModels.map((m) => `${m.id} (${m.dimensions}d)`).join(", "),
+					}));
+			}
+
+			new Setting(groupEl)
+				.setName(t("settings.customProviderToolUse"))
+				.setDesc(t("settings.customProviderToolUseDesc"))
+				.addDropdown((dropdown) => {
+					dropdown.addOption("auto", t("settings.customToolUseAuto"));
+					dropdown.addOption("on", t("settings.customToolUseOn"));
+					dropdown.addOption("off", t("settings.customToolUseOff"));
+					dropdown.setValue(config.toolUse);
+					dropdown.onChange(async (value) => {
+						config.toolUse = value as CustomToolUseMode;
+						await this.saveCustomProviders();
+					});
+				})
+				.addButton((btn) => {
+					btn.setButtonText(t("settings.toolProbeReset"));
+					btn.onClick(async () => {
+						await this.plugin.clearToolSupportCache(config.id);
+						new Notice(t("notice.toolProbeReset", { name: config.name || config.id }));
+					});
+				});
+		}
+	}
+
+	/**
+	 * Ollama のリクエストオプション（num_ctx / keep_alive）とモデル管理（一覧・取得・削除）
+	 */
+	private displayOllamaSection(containerEl: HTMLElement, provider: OllamaProvider): void {
+		new Setting(containerEl)
+			.setName(t("settings.ollama"))
+			.setDesc(t("settings.ollamaDesc"))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.ollamaNumCtx"))
+			.setDesc(t("settings.ollamaNumCtxDesc"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.setPlaceholder("0");
+				text.setValue(this.plugin.settings.ollamaNumCtx > 0 ? String(this.plugin.settings.ollamaNumCtx) : "");
+				text.onChange(async (value) => {
+					const num = parseInt(value, 10);
+					this.plugin.settings.ollamaNumCtx = !isNaN(num) && num > 0 ? num : 0;
+					await this.plugin.saveSettings();
+					this.plugin.syncOllamaOptions();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.ollamaKeepAlive"))
+			.setDesc(t("settings.ollamaKeepAliveDesc"))
+			.addText((text) => {
+				text.setPlaceholder(t("settings.ollamaKeepAlivePlaceholder"));
+				text.setValue(this.plugin.settings.ollamaKeepAlive);
+				text.onChange(async (value) => {
+					this.plugin.settings.ollamaKeepAlive = value.trim();
+					await this.plugin.saveSettings();
+					this.plugin.syncOllamaOptions();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.ollamaToolProbe"))
+			.setDesc(t("settings.ollamaToolProbeDesc"))
+			.addButton((btn) => {
+				btn.setButtonText(t("settings.toolProbeReset"));
+				btn.onClick(async () => {
+					await this.plugin.clearToolSupportCache(provider.id);
+					new Notice(t("notice.toolProbeReset", { name: provider.name }));
+				});
+			});
+
+		// インストール済みモデル（サーバーから非同期で取得）
+		new Setting(containerEl).setName(t("settings.ollamaInstalled"));
+		const listEl = containerEl.createDiv({ cls: "llm-ollama-models" });
+		void this.renderOllamaModels(listEl, provider);
+
+		// モデルの取得（/api/pull）
+		let modelName = "";
+		const pullSetting = new Setting(containerEl)
+			.setName(t("settings.ollamaPull"))
+			.setDesc(t("settings.ollamaPullDesc"));
+		const progressEl = containerEl.createEl("progress", { cls: "llm-ollama-pull-progress" });
+		progressEl.hide();
+		pullSetting
+			.addText((text) => {
+				text.setPlaceholder(t("settings.ollamaPullPlaceholder"));
+				text.onChange((value) => {
+					modelName = value.trim();
+				});
+			})
+			.addButton((btn) => {
+				btn.setButtonText(t("settings.ollamaPullButton"));
+				btn.onClick(async () => {
+					if (!modelName) return;
+					const name = modelName;
+					btn.setDisabled(true);
+					progressEl.removeAttribute("value");
+					progressEl.show();
+					try {
+						await provider.pullModel(name, (progress) => {
+							if (progress.total && progress.completed !== undefined) {
+								progressEl.max = progress.total;
+								progressEl.value = progress.completed;
+								const percent = Math.floor((progress.completed / progress.total) * 100);
+								pullSetting.setDesc(`${progress.status} (${percent}%)`);
+							} else {
+								// ダウンロード以外の段階（manifest 取得・検証等）は不確定表示
+								progressEl.removeAttribute("value");
+								pullSetting.setDesc(progress.status);
+							}
+						});
+						new Notice(t("notice.ollamaPulled", { model: name }));
+						await this.refreshOllamaModels(listEl, provider);
+					} catch (err) {
+						const msg = err instanceof Error ? err.message : String(err);
+						new Notice(t("notice.ollamaPullFailed", { model: name, message: msg }), 8000);
+					} finally {
+						progressEl.hide();
+						pullSetting.setDesc(t("settings.ollamaPullDesc"));
+						btn.setDisabled(false);
+					}
+				});
+			});
+	}
+
+	/**
+	 * インストール済みモデルの一覧を描画（サイズ・パラメータ数・量子化と削除ボタン）
+	 */
+	private async renderOllamaModels(listEl: HTMLElement, provider: OllamaProvider): Promise<void> {
+		listEl.empty();
+		listEl.createEl("small", { text: t("settings.ollamaLoading") });
+
+		let installed: OllamaInstalledModel[];
+		try {
+			installed = await provider.listInstalledModels();
+		} catch (err) {
+			listEl.empty();
+			const msg = err instanceof Error ? err.message : String(err);
+			listEl.createEl("small", { text: t("settings.ollamaListFailed", { message: msg }) });
+			return;
+		}
+
+		listEl.empty();
+		if (installed.length === 0) {
+			listEl.createEl("small", { text: t("settings.ollamaInstalledEmpty") });
+			return;
+		}
+		for (const model of installed) {
+			const desc = [this.plugin.formatBytes(model.size), model.parameterSize, model.quantization]
+				.filter((part) => part)
+				.join(" · ");
+			new Setting(listEl)
+				.setName(model.name)
+				.setDesc(desc)
+				.addButton((btn) => {
+					btn.setButtonText(t("settings.ollamaDeleteModel"));
+					btn.setWarning();
+					btn.onClick(async () => {
+						btn.setDisabled(true);
+						try {
+							await provider.deleteModel(model.name);
+							new Notice(t("notice.ollamaDeleted", { model: model.name }));
+							await this.refreshOllamaModels(listEl, provider);
+						} catch (err) {
+							const msg = err instanceof Error ? err.message : String(err);
+							new Notice(t("notice.ollamaDeleteFailed", { model: model.name, message: msg }), 8000);
+							btn.setDisabled(false);
+						}
+					});
+				});
+		}
+	}
+
+	/** 取得・削除後にモデル一覧とモデル選択肢を更新 */
+	private async refreshOllamaModels(listEl: HTMLElement, provider: OllamaProvider): Promise<void> {
+		try {
+			provider.models = await provider.fetchModels("");
+			this.syncChatViewModelSelector();
+		} catch {
+			// 一覧の描画側でエラーを表示する
+		}
+		await this.renderOllamaModels(listEl, provider);
+	}
+
+	/**
+	 * OpenRouter のクレジット残高・プロバイダーのルーティング・フォールバックモデル
+	 */
+	private displayOpenRouterSection(containerEl: HTMLElement, provider: OpenRouterProvider): void {
+		const config = this.plugin.settings.openRouter;
+		new Setting(containerEl)
+			.setName(t("settings.openRouter"))
+			.setDesc(t("settings.openRouterDesc"))
+			.setHeading();
+
+		const creditsSetting = new Setting(containerEl)
+			.setName(t("settings.openRouterCredits"))
+			.setDesc(t("settings.openRouterCreditsDesc"));
+		creditsSetting.addButton((btn) => {
+			btn.setButtonText(t("settings.openRouterCheckCredits"));
+			btn.onClick(async () => {
+				const apiKey = await this.plugin.secretManager.getApiKey(provider.id);
+				if (!apiKey) {
+					new Notice(t("notice.modelsRefreshNoKey"));
+					return;
+				}
+				btn.setButtonText(t("settings.openRouterCheckingCredits"));
+				btn.setDisabled(true);
+				try {
+					const info = await provider.fetchKeyInfo(apiKey);
+					creditsSetting.setDesc(formatKeyInfo(info));
+				} catch (err) {
+					const msg = err instanceof Error ? err.message : String(err);
+					new Notice(t("notice.openRouterCreditsFailed", { message: msg }), 8000);
+				} finally {
+					btn.setButtonText(t("settings.openRouterCheckCredits"));
+					btn.setDisabled(false);
+				}
+			});
+		});
+
+		new Setting(containerEl)
+			.setName(t("settings.openRouterProviderOrder"))
+			.setDesc(t("settings.openRouterProviderOrderDesc"))
+			.addText((text) => {
+				text.inputEl.addClass("llm-settings-input-full");
+				text.setPlaceholder(t("settings.openRouterProviderOrderPlaceholder"));
+				text.setValue(config.providerOrder.join(", "));
+				text.onChange(async (value) => {
+					config.providerOrder = value.split(",").map((s) => s.trim()).filter((s) => s.length > 0);
+					await this.saveOpenRouterConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.openRouterAllowFallbacks"))
+			.setDesc(t("settings.openRouterAllowFallbacksDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(config.allowFallbacks);
+				toggle.onChange(async (value) => {
+					config.allowFallbacks = value;
+					await this.saveOpenRouterConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.openRouterDenyDataCollection"))
+			.setDesc(t("settings.openRouterDenyDataCollectionDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(config.denyDataCollection);
+				toggle.onChange(async (value) => {
+					config.denyDataCollection = value;
+					await this.saveOpenRouterConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.openRouterFallbackModels"))
+			.setDesc(t("settings.openRouterFallbackModelsDesc"))
+			.addTextArea((text) => {
+				text.setPlaceholder(t("settings.openRouterFallbackModelsPlaceholder"));
+				text.setValue(config.fallbackModels.join("\n"));
+				text.onChange(async (value) => {
+					config.fallbackModels = value.split("\n").map((s) => s.trim()).filter((s) => s.length > 0);
+					await this.saveOpenRouterConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.openRouterMiddleOut"))
+			.setDesc(t("settings.openRouterMiddleOutDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(config.middleOut);
+				toggle.onChange(async (value) => {
+					config.middleOut = value;
+					await this.saveOpenRouterConfig();
+				});
+			});
+	}
+
+	/**
+	 * Azure OpenAI のリソース・api-version・デプロイメント
+	 */
+	private displayAzureSection(containerEl: HTMLElement): void {
+		const config = this.plugin.settings.azure;
+		new Setting(containerEl)
+			.setName(t("settings.azure"))
+			.setDesc(t("settings.azureDesc"))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.azureEndpoint"))
+			.setDesc(t("settings.azureEndpointDesc"))
+			.addText((text) => {
+				text.inputEl.addClass("llm-settings-input-full");
+				text.setPlaceholder(t("settings.azureEndpointPlaceholder"));
+				text.setValue(config.endpoint);
+				text.onChange(async (value) => {
+					config.endpoint = value.trim();
+					await this.saveAzureConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.azureApiVersion"))
+			.addText((text) => {
+				text.setPlaceholder(DEFAULT_AZURE_API_VERSION);
+				text.setValue(config.apiVersion);
+				text.onChange(async (value) => {
+					config.apiVersion = value.trim();
+					await this.saveAzureConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.azureDeployments"))
+			.setDesc(t("settings.azureDeploymentsDesc"))
+			.addTextArea((text) => {
+				text.setPlaceholder(t("settings.azureDeploymentsPlaceholder"));
+				text.setValue(config.deployments.map((d) => d.name === d.model ? d.name : `${d.name}=${d.model}`).join("\n"));
+				text.onChange(async (value) => {
+					config.deployments = parseDeploymentLines(value);
+					await this.saveAzureConfig();
+				});
+			})
+			.addButton((btn) => {
+				btn.setButtonText(t("settings.refreshModels"));
+				btn.onClick(() => {
+					void this.fetchAzureDeployments(btn);
+				});
+			});
+	}
+
+	/**
+	 * リクエスト/レスポンスのデバッグログ（記録の切り替え・書き出し・削除）
+	 */
+	private displayDebugLogSection(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName(t("settings.debugLog")).setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.debugLogEnabled"))
+			.setDesc(t("settings.debugLogEnabledDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.debugLogEnabled);
+				toggle.onChange(async (value) => {
+					this.plugin.settings.debugLogEnabled = value;
+					await this.plugin.saveSettings();
+					this.plugin.syncDebugLog();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.debugLogExport"))
+			.setDesc(t("settings.debugLogExportDesc"))
+			.addButton((btn) => {
+				btn.setButtonText(t("settings.debugLogExportButton"));
+				btn.onClick(async () => {
+					try {
+						await this.plugin.exportDebugLog();
+					} catch (e) {
+						new Notice(t("notice.debugLogExportFailed", { error: e instanceof Error ? e.message : String(e) }));
+					}
+				});
+			})
+			.addButton((btn) => {
+				btn.setButtonText(t("settings.debugLogClear"));
+				btn.setWarning();
+				btn.onClick(async () => {
+					await this.plugin.debugLog.clear();
+					new Notice(t("notice.debugLogCleared"));
+				});
+			});
+	}
+
+	/**
+	 * 記録・再生（ReplayProvider）のモード・対象プロバイダー・フィクスチャの保存先
+	 */
+	private displayReplaySection(containerEl: HTMLElement): void {
+		const config = this.plugin.settings.replay;
+		const provider = this.plugin.providerRegistry.get("replay");
+		new Setting(containerEl)
+			.setName(t("settings.replay"))
+			.setDesc(t("settings.replayDesc"))
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.replayMode"))
+			.setDesc(t("settings.replayModeDesc"))
+			.addDropdown((dropdown) => {
+				dropdown.addOption("off", t("settings.replayModeOff"));
+				dropdown.addOption("record", t("settings.replayModeRecord"));
+				dropdown.addOption("replay", t("settings.replayModeReplay"));
+				dropdown.setValue(config.mode);
+				dropdown.onChange(async (value) => {
+					config.mode = value as ReplayConfig["mode"];
+					// 無効化した場合は最初の有効プロバイダーに切り替え
+					if (config.mode === "off" && this.plugin.settings.activeProvider === "replay") {
+						const firstEnabled = this.plugin.providerRegistry.getAll()
+							.find((p) => this.isProviderEnabled(p.id) && p.id !== "replay");
+						if (firstEnabled) {
+							this.plugin.settings.activeProvider = firstEnabled.id;
+							this.plugin.settings.activeModel = firstEnabled.models[0]?.id ?? "";
+						}
+					}
+					await this.saveReplayConfig();
+					this.display();
+				});
+			});
+
+		if (config.mode === "off") return;
+
+		new Setting(containerEl)
+			.setName(t("settings.replayTarget"))
+			.setDesc(t("settings.replayTargetDesc"))
+			.addDropdown((dropdown) => {
+				for (const p of this.plugin.providerRegistry.getAll()) {
+					if (p.id === "replay" || !this.isProviderEnabled(p.id)) continue;
+					dropdown.addOption(p.id, p.name);
+				}
+				dropdown.setValue(config.target);
+				dropdown.onChange(async (value) => {
+					config.target = value;
+					await this.saveReplayConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.replayFolder"))
+			.setDesc(t("settings.replayFolderDesc"))
+			.addText((text) => {
+				text.setPlaceholder(t("settings.replayFolderPlaceholder"));
+				text.setValue(config.folder);
+				text.onChange(async (value) => {
+					config.folder = value.trim();
+					await this.saveReplayConfig();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.replayTiming"))
+			.setDesc(t("settings.replayTimingDesc"))
+			.addToggle((toggle) => {
+				toggle.setValue(config.preserveTiming);
+				toggle.onChange(async (value) => {
+					config.preserveTiming = value;
+					await this.saveReplayConfig();
+				});
+			});
+
+		if (provider instanceof ReplayProvider) {
+			const fixturesSetting = new Setting(containerEl).setName(t("settings.replayFixtures"));
+			void provider.listFixtures().then((fixtures) => {
+				fixturesSetting.setDesc(t("settings.replayFixturesCount", { count: fixtures.length }));
+			});
+			fixturesSetting.addButton((btn) => {
+				btn.setButtonText(t("settings.replayFixturesClear"));
+				btn.setWarning();
+				btn.onClick(async () => {
+					const count = await provider.clearFixtures();
+					new Notice(t("notice.replayFixturesCleared", { count }));
+					this.display();
+				});
+			});
+		}
+	}
+
+	private async saveReplayConfig(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.syncReplayConfig();
+		this.syncChatViewModelSelector();
+	}
+
+	/**
+	 * 組み込みプロバイダーのベースURL・追加ヘッダー・クエリの上書き
+	 */
+	private displayEndpointOverridesSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName(t("settings.endpointOverrides"))
+			.setDesc(t("settings.endpointOverridesDesc"))
+			.setHeading();
+
+		for (const provider of this.plugin.providerRegistry.getAll()) {
+			const endpoint = provider.endpoint;
+			if (!endpoint) continue;
+			const current = this.plugin.settings.providerOverrides[provider.id] ?? { baseUrl: "", headers: {}, query: {} };
+			const update = async (patch: Partial<EndpointOverride>): Promise<void> => {
+				Object.assign(current, patch);
+				const isEmpty = !current.baseUrl.trim()
+					&& Object.keys(current.headers).length === 0
+					&& Object.keys(current.query).length === 0;
+				if (isEmpty) {
+					delete this.plugin.settings.providerOverrides[provider.id];
+				} else {
+					this.plugin.settings.providerOverrides[provider.id] = current;
+				}
+				await this.plugin.saveSettings();
+				this.plugin.applyEndpointOverrides();
+			};
+
+			const groupEl = containerEl.createDiv({ cls: "llm-endpoint-override" });
+			new Setting(groupEl)
+				.setName(provider.name)
+				.setDesc(t("settings.endpointOverrideBaseUrl"))
+				.addText((text) => {
+					text.inputEl.addClass("llm-settings-input-full");
+					text.setPlaceholder(endpoint.defaultBaseUrl);
+					text.setValue(current.baseUrl);
+					text.onChange(async (value) => {
+						await update({ baseUrl: value.trim() });
+					});
+				});
+			new Setting(groupEl)
+				.setName(t("settings.customProviderHeaders"))
+				.setDesc(t("settings.customProviderHeadersDesc"))
+				.addTextArea((text) => {
+					text.setPlaceholder(t("settings.customProviderHeadersPlaceholder"));
+					text.setValue(Object.entries(current.headers).map(([k, v]) => `${k}: ${v}`).join("\n"));
+					text.onChange(async (value) => {
+						await update({ headers: parseKeyValueLines(value, ":") });
+					});
+				});
+			new Setting(groupEl)
+				.setName(t("settings.endpointOverrideQuery"))
+				.setDesc(t("settings.endpointOverrideQueryDesc"))
+				.addTextArea((text) => {
+					text.setPlaceholder(t("settings.endpointOverrideQueryPlaceholder"));
+					text.setValue(Object.entries(current.query).map(([k, v]) => `${k}=${v}`).join("\n"));
+					text.onChange(async (value) => {
+						await update({ query: parseKeyValueLines(value, "=") });
+					});
+				});
+		}
+	}
+
+	/** カスタムプロバイダー設定を保存し、レジストリとチャット画面のモデル一覧に反映 */
+	private async saveCustomProviders(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.syncCustomProviders();
+		this.syncChatViewModelSelector();
+	}
+
+	private async deleteCustomProvider(config: CustomProviderConfig): Promise<void> {
+		const settings = this.plugin.settings;
+		settings.customProviders = settings.customProviders.filter((c) => c.id !== config.id);
+		try {
+			await this.plugin.secretManager.deleteApiKey(config.id);
+		} catch {
+			// 鍵が未保存の場合など
+		}
+		// 使用中だった場合は最初の有効プロバイダーに切り替え
+		if (settings.activeProvider === config.id) {
+			const firstEnabled = this.plugin.providerRegistry.getAll()
+				.find((p) => this.isProviderEnabled(p.id) && p.id !== config.id);
+			if (firstEnabled) {
+				settings.activeProvider = firstEnabled.id;
+				settings.activeModel = firstEnabled.models[0]?.id ?? "";
+			}
+		}
+		// Embedding プロバイダーとして使用中だった場合は既定に戻す
+		if (settings.ragEmbeddingProvider === config.id) {
+			settings.ragEmbeddingProvider = "openai";
+			settings.ragEmbeddingModel = this.plugin.embeddingProviderRegistry.get("openai")?.models[0]?.id ?? "";
+		}
+		await this.saveCustomProviders();
+	}
+
+	private async saveOpenRouterConfig(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.syncOpenRouterConfig();
+	}
+
+	private async saveAzureConfig(): Promise<void> {
+		await this.plugin.saveSettings();
+		this.plugin.syncAzureConfig();
+		this.syncChatViewModelSelector();
+	}
+
+	/**
+	 * Azure のデプロイメント一覧を取得して設定に保存（チャット・Embedding の両方に反映）
+	 */
+	private async fetchAzureDeployments(btn: { setButtonText(text: string): void; setDisabled(disabled: boolean): void }): Promise<void> {
+		const config = this.plugin.settings.azure;
+		const apiKey = await this.plugin.secretManager.getApiKey("azure");
+		if (!apiKey) {
+			new Notice(t("notice.modelsRefreshNoKey"));
+			return;
+		}
+
+		btn.setButtonText(t("settings.refreshingModels"));
+		btn.setDisabled(true);
+		try {
+			config.deployments = await listAzureDeployments(config, apiKey);
+			await this.saveAzureConfig();
+			new Notice(t("notice.modelsRefreshed", { count: config.deployments.length }));
+			this.display();
+		} catch (err) {
+			const msg = err instanceof Error ? err.message : String(err);
+			new Notice(t("notice.azureDeploymentsFailed", { message: msg }), 8000);
+		} finally {
+			btn.setButtonText(t("settings.refreshModels"));
+			btn.setDisabled(false);
+		}
+	}
+
+	/**
+	 * /models からモデル一覧を取得して設定に保存
+	 */
+	private async fetchCustomModels(config: CustomProviderConfig, btn: { setButtonText(text: string): void; setDisabled(disabled: boolean): void }): Promise<void> {
+		const provider = this.plugin.providerRegistry.get(config.id);
+		if (!provider?.fetchModels) return;
+		const apiKey = await this.plugin.secretManager.getApiKey(config.id) ?? "";
+		if (provider.requiresApiKey && !apiKey) {
+			new Notice(t("notice.modelsRefreshNoKey"));
+			return;
+		}
+
+		btn.setButtonText(t("settings.refreshingModels"));
+		btn.setDisabled(true);
+		try {
+			const models = await provider.fetchModels(apiKey);
+			config.models = models.map((m) => m.id);
+			await this.saveCustomProviders();
+			new Notice(t("notice.modelsRefreshed", { count: models.length }));
+			this.display();
+		} catch (err) {
+			const msg = err instanceof Error ? err.message : String(err);
+			new Notice(t("notice.modelsRefreshFailed", { message: msg }), 8000);
+		} finally {
+			btn.setButtonText(t("settings.refreshModels"));
+			btn.setDisabled(false);
+		}
+	}
+
+	/**
+	 * モデルの機能の一覧（モデル選択の説明に表示）
+	 */
+	private formatCapabilities(caps: ModelCapabilities): string {
+		const items: string[] = [];
+		if (caps.tools) items.push(t("capability.tools"));
+		if (caps.vision) items.push(t("capability.vision"));
+		if (caps.pdf) items.push(t("capability.pdf"));
+		if (caps.reasoning) items.push(t("capability.reasoning"));
+		if (caps.jsonMode) items.push(t("capability.jsonMode"));
+		if (caps.maxOutputTokens !== undefined) {
+			items.push(t("capability.maxOutput", { tokens: caps.maxOutputTokens.toLocaleString() }));
+		}
+		return t("settings.modelCapabilities", { list: items.length > 0 ? items.join(" · ") : t("capability.none") });
+	}
+
 	private async refreshModels(provider: LLMProvider, btn: { setButtonText(text: string): void; setDisabled(disabled: boolean): void }): Promise<void> {
 		if (!provider.fetchModels) return;
 
@@ -912,7 +1922,7 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 		const providerId = this.plugin.settings.ragEmbeddingProvider;
 		const keyId = this.plugin.settings.ragEmbeddingUseSharedKey ? providerId : `embedding-${providerId}`;
 		const apiKey = await this.plugin.secretManager.getApiKey(keyId) ?? "";
-		if (!apiKey && providerId !== "ollama") {
+		if (!apiKey && this.plugin.embeddingProviderRegistry.get(providerId)?.requiresApiKey) {
 			new Notice(t("error.apiKeyNotSet", { name: providerId }));
 			btn.setDisabled(false);
 			return;
@@ -939,20 +1949,11 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 		}
 	}
 
-	private applyCustomEndpoint(): void {
-		const provider = this.plugin.providerRegistry.get("custom") as CustomEndpointProvider | undefined;
-		if (provider) {
-			provider.configure(
-				this.plugin.settings.customEndpoint,
-				this.plugin.settings.customModelId,
-			);
-		}
-	}
-
 	/** トグル対象プロバイダーの設定キーを返す。対象外なら null */
 	private getProviderToggleKey(providerId: string): keyof import("../constants").LLMAssistantSettings | null {
 		if (providerId === "openrouter") return "enableOpenRouter";
 		if (providerId === "ollama") return "enableOllama";
+		if (providerId === "azure") return "enableAzure";
 		return null;
 	}
 
@@ -960,6 +1961,48 @@ export class LLMAssistantSettingTab extends PluginSettingTab {
 	isProviderEnabled(providerId: string): boolean {
 		if (providerId === "openrouter") return this.plugin.settings.enableOpenRouter;
 		if (providerId === "ollama") return this.plugin.settings.enableOllama;
+		if (providerId === "azure") return this.plugin.settings.enableAzure;
+		if (providerId === "replay") return this.plugin.settings.replay.mode !== "off";
 		return true;
 	}
 }
+
+/**
+ * "Name: value" / "name=value" 形式の行をオブジェクトに変換（最初の区切り文字で分割、空行・不正な行は無視）
+ */
+function parseKeyValueLines(text: string, separator: ":" | "="): Record<string, string> {
+	const result: Record<string, string> = {};
+	for (const line of text.split("\n")) {
+		const sep = line.indexOf(separator);
+		if (sep <= 0) continue;
+		const name = line.slice(0, sep).trim();
+		if (name) result[name] = line.slice(sep + 1).trim();
+	}
+	return result;
+}
+
+/**
+ * "deployment=model" 形式の行をデプロイメント一覧に変換（"=model" 省略時はデプロイ名をモデル名とみなす）
+ */
+function parseDeploymentLines(text: string): AzureDeployment[] {
+	const deployments: AzureDeployment[] = [];
+	for (const line of text.split("\n")) {
+		const sep = line.indexOf("=");
+		const name = (sep < 0 ? line : line.slice(0, sep)).trim();
+		if (!name) continue;
+		const model = sep < 0 ? "" : line.slice(sep + 1).trim();
+		deployments.push({ name, model: model || name });
+	}
+	return deployments;
+}
+
+/**
+ * OpenRouter のキー情報を表示用の文字列に変換
+ */
+function formatKeyInfo(info: OpenRouterKeyInfo): string {
+	const remaining = info.limitRemaining !== null
+		? t("settings.openRouterCreditsRemaining", { remaining: formatCost(info.limitRemaining), limit: formatCost(info.limit ?? 0) })
+		: t("settings.openRouterCreditsUnlimited");
+	const usage = t("settings.openRouterCreditsUsage", { usage: formatCost(info.usage) });
+	return info.isFreeTier ? `${remaining} / ${usage} (${t("settings.openRouterFreeTier")})` : `${remaining} / ${usage}`;
+}
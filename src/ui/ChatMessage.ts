@@ -1,16 +1,70 @@
 import { setIcon } from "obsidian";
 import { t } from "../i18n";
+import type { TokenUsage } from "../llm/LLMProvider";
+import type { ContextSummary, ContextTrim } from "../llm/contextBudget";
+import { formatTokenCount } from "../utils/TokenCounter";
+import { formatCost } from "../llm/pricing";
+
+/**
+ * メッセージに添付したVaultファイルの参照（本体は保存せず、再送時にVaultから読み直す）
+ */
+export interface MessageAttachment {
+	type: "image" | "pdf";
+	path: string;
+	name: string;
+	mimeType: string;
+	/** PDF: ページ数 */
+	pages?: number;
+}
 
 export interface MessageData {
 	role: "user" | "assistant" | "system";
 	content: string;
 	timestamp: number;
+	/** モデルの推論（thinking）テキスト */
+	reasoning?: string;
+	/** トークン使用量（Tool Use の複数ラウンドは合算） */
+	usage?: TokenUsage;
+	/** 推定コスト（USD、価格情報がある場合のみ） */
+	cost?: number;
+	/** 添付ファイル（ユーザーメッセージのみ） */
+	attachments?: MessageAttachment[];
+	/** 実際に応答したプロバイダーID / モデルID（フォールバック時は切り替え後） */
+	provider?: string;
+	model?: string;
+	/** ルーティング先の上流プロバイダー（OpenRouter のみ） */
+	upstreamProvider?: string;
+	/** デバッグログに記録したリクエストのID（デバッグログ有効時のみ） */
+	debugIds?: string[];
+	/** コンテキストウィンドウに収めるために削った内容（削った場合のみ） */
+	contextTrim?: ContextTrim;
+	/**
+	 * 比較モードの各モデルの応答（比較モードで送信したアシスタントメッセージのみ）
+	 * content 等には選んだ候補の内容を、usage / cost には全候補の合計を保持する
+	 */
+	candidates?: MessageData[];
+	/** 候補の送信時に更新した会話の要約（比較モードの候補のみ。選んだ場合に会話の要約にする） */
+	contextSummary?: ContextSummary;
+	/** 会話を続ける応答として選んだ候補の位置（未選択なら undefined） */
+	selectedCandidate?: number;
+	/** 比較モードの候補: 送信から応答完了までの時間（ms） */
+	latencyMs?: number;
+	/** 比較モードの候補: 応答の生成に失敗した（選択できない） */
+	failed?: boolean;
 }
 
 export class ChatMessage {
 	private containerEl: HTMLElement;
 	private messageEl: HTMLElement;
 	private contentEl: HTMLElement;
+	private reasoningEl: HTMLDetailsElement | null = null;
+	private contextTrimEl: HTMLDetailsElement | null = null;
+	private reasoningBodyEl: HTMLElement | null = null;
+	private modelEl: HTMLElement | null = null;
+	private usageEl: HTMLElement | null = null;
+	private attachmentsEl: HTMLElement | null = null;
+	private headerEl: HTMLElement;
+	private inspectBtn: HTMLElement | null = null;
 	private data: MessageData;
 
 	constructor(parentEl: HTMLElement, data: MessageData, onEdit?: () => void) {
@@ -31,6 +85,7 @@ export class ChatMessage {
 
 		// メッセージヘッダー（ラベル + 編集ボタン）
 		const headerEl = this.messageEl.createDiv({ cls: "llm-message-header" });
+		this.headerEl = headerEl;
 
 		// ロールラベル
 		const labelEl = headerEl.createDiv({ cls: "llm-message-label" });
@@ -43,6 +98,14 @@ export class ChatMessage {
 			headerEl.createSpan({ cls: "llm-message-timestamp", text: timeStr });
 		}
 
+		// 応答したモデル・トークン使用量（アシスタントメッセージのみ）
+		if (this.data.role === "assistant") {
+			this.modelEl = headerEl.createSpan({ cls: "llm-message-model" });
+			this.updateModel(this.data.provider, this.data.model, this.data.upstreamProvider);
+			this.usageEl = headerEl.createSpan({ cls: "llm-message-usage" });
+			this.updateUsage(this.data.usage);
+		}
+
 		// ユーザーメッセージにのみ編集ボタンを追加
 		if (this.data.role === "user" && onEdit) {
 			const editBtn = headerEl.createEl("button", {
@@ -53,11 +116,43 @@ export class ChatMessage {
 			editBtn.addEventListener("click", () => onEdit());
 		}
 
+		// 削ったコンテキストの表示（折りたたみ、削った場合のみ表示）
+		if (this.data.role === "assistant") {
+			this.contextTrimEl = this.messageEl.createEl("details", { cls: "llm-message-context-trim" });
+			this.setContextTrim(this.data.contextTrim);
+		}
+
+		// 推論セクション（折りたたみ、内容がある場合のみ表示）
+		if (this.data.role === "assistant") {
+			this.reasoningEl = this.messageEl.createEl("details", { cls: "llm-message-reasoning" });
+			this.reasoningEl.createEl("summary", { text: t("message.reasoning") });
+			this.reasoningBodyEl = this.reasoningEl.createDiv({ cls: "llm-message-reasoning-content" });
+			this.updateReasoning(this.data.reasoning ?? "");
+		}
+
+		// 添付のサムネイル（renderAttachments で描画）
+		if (this.data.attachments && this.data.attachments.length > 0) {
+			this.attachmentsEl = this.messageEl.createDiv({ cls: "llm-message-attachments" });
+		}
+
 		// メッセージコンテンツ
 		this.contentEl = this.messageEl.createDiv({ cls: "llm-message-content" });
 		this.contentEl.textContent = this.data.content;
 	}
 
+	/**
+	 * リクエスト/レスポンスのインスペクターを開くボタンを表示（既に表示済みなら何もしない）
+	 */
+	setInspector(onInspect: () => void): void {
+		if (this.inspectBtn) return;
+		this.inspectBtn = this.headerEl.createEl("button", {
+			cls: "llm-message-inspect-btn clickable-icon",
+			attr: { "aria-label": t("message.inspect") },
+		});
+		setIcon(this.inspectBtn, "bug");
+		this.inspectBtn.addEventListener("click", () => onInspect());
+	}
+
 	getContentEl(): HTMLElement {
 		return this.contentEl;
 	}
@@ -74,6 +169,127 @@ export class ChatMessage {
 		}
 	}
 
+	/**
+	 * コンテキストウィンドウに収めるために削った内容を表示
+	 */
+	setContextTrim(trim: ContextTrim | undefined): void {
+		this.data.contextTrim = trim;
+		if (!this.contextTrimEl) return;
+		this.contextTrimEl.empty();
+		this.contextTrimEl.toggleClass("is-hidden", !trim);
+		if (!trim) return;
+
+		const summaryEl = this.contextTrimEl.createEl("summary");
+		setIcon(summaryEl.createSpan({ cls: "llm-message-context-trim-icon" }), "scissors");
+		summaryEl.createSpan({
+			text: t("message.contextTrimmed", {
+				tokens: formatTokenCount(trim.estimatedTokens),
+				budget: formatTokenCount(trim.budget),
+			}),
+		});
+
+		const listEl = this.contextTrimEl.createEl("ul");
+		if (trim.messages > 0) {
+			listEl.createEl("li", {
+				text: t(trim.summarized ? "message.contextTrimMessagesSummarized" : "message.contextTrimMessages", { count: trim.messages }),
+			});
+		}
+		if (trim.rag.length > 0) {
+			listEl.createEl("li", { text: t("message.contextTrimRag", { count: trim.rag.length, names: trim.rag.join(", ") }) });
+		}
+		if (trim.linked.length > 0) {
+			listEl.createEl("li", { text: t("message.contextTrimLinked", { count: trim.linked.length, names: trim.linked.join(", ") }) });
+		}
+		if (trim.overBudget) {
+			listEl.createEl("li", { cls: "llm-message-context-trim-warning", text: t("message.contextOverBudget") });
+		}
+	}
+
+	updateReasoning(reasoning: string): void {
+		this.data.reasoning = reasoning || undefined;
+		if (!this.reasoningEl || !this.reasoningBodyEl) return;
+		this.reasoningBodyEl.textContent = reasoning;
+		this.reasoningEl.toggleClass("is-hidden", !reasoning);
+		if (reasoning) {
+			this.messageEl.removeClass("is-hidden");
+		}
+	}
+
+	/**
+	 * 添付のサムネイル（画像）・ファイル名（PDF）を描画
+	 * @param resolveSrc Vaultパス → 表示用URL（ファイルが存在しない場合は null）
+	 */
+	renderAttachments(resolveSrc: (path: string) => string | null): void {
+		if (!this.attachmentsEl || !this.data.attachments) return;
+		this.attachmentsEl.empty();
+		for (const attachment of this.data.attachments) {
+			const src = resolveSrc(attachment.path);
+			if (src && attachment.type === "pdf") {
+				const chip = this.attachmentsEl.createDiv({
+					cls: "llm-attachment-file",
+					attr: { "aria-label": attachment.path },
+				});
+				setIcon(chip.createSpan(), "file-text");
+				chip.createSpan({ text: attachment.name });
+			} else if (src) {
+				this.attachmentsEl.createEl("img", {
+					cls: "llm-attachment-thumb",
+					attr: { src, alt: attachment.name, "aria-label": attachment.path },
+				});
+			} else {
+				// 削除・移動されたファイル
+				this.attachmentsEl.createSpan({ cls: "llm-attachment-missing", text: attachment.name });
+			}
+		}
+	}
+
+	/**
+	 * 応答したプロバイダー/モデルを表示（OpenRouter はルーティング先のプロバイダーも表示）
+	 */
+	updateModel(provider: string | undefined, model: string | undefined, upstream?: string): void {
+		this.data.provider = provider;
+		this.data.model = model;
+		this.data.upstreamProvider = upstream;
+		if (!this.modelEl) return;
+		if (!model) {
+			this.modelEl.addClass("is-hidden");
+			return;
+		}
+		this.modelEl.removeClass("is-hidden");
+		this.modelEl.setText(upstream ? t("message.via", { model, provider: upstream }) : model);
+		this.modelEl.setAttribute("aria-label", provider ? `${provider} / ${model}` : model);
+	}
+
+	updateUsage(usage: TokenUsage | undefined, cost?: number): void {
+		this.data.usage = usage;
+		if (cost !== undefined) this.data.cost = cost;
+		if (!this.usageEl) return;
+		if (!usage) {
+			this.usageEl.addClass("is-hidden");
+			return;
+		}
+		this.usageEl.removeClass("is-hidden");
+		let text = `↑${formatTokenCount(usage.inputTokens)} ↓${formatTokenCount(usage.outputTokens)}`;
+		if (usage.cacheReadTokens) {
+			text += ` ⚡${formatTokenCount(usage.cacheReadTokens)}`;
+		}
+		if (this.data.cost !== undefined) {
+			text += ` · ${formatCost(this.data.cost)}`;
+		}
+		this.usageEl.textContent = text;
+		let label = t("message.usage", {
+			input: usage.inputTokens.toLocaleString(),
+			output: usage.outputTokens.toLocaleString(),
+		});
+		if (usage.cacheReadTokens || usage.cacheWriteTokens) {
+			label += "\n" + t("message.usageCache", {
+				read: (usage.cacheReadTokens ?? 0).toLocaleString(),
+				write: (usage.cacheWriteTokens ?? 0).toLocaleString(),
+			});
+		}
+		this.usageEl.setAttribute("aria-label", label);
+	}
+
 	appendContent(chunk: string): void {
 		this.data.content += chunk;
 		this.contentEl.textContent = this.data.content;
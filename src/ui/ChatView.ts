@@ -2,17 +2,30 @@ import { ItemView, MarkdownRenderer, MarkdownView, Menu, Notice, WorkspaceLeaf,
 import "../obsidian.d";
 import { VIEW_TYPE_CHAT, DISPLAY_NAME } from "../constants";
 import type LLMAssistantPlugin from "../main";
-import type { LLMProvider, Message, ToolDefinition, ToolResult } from "../llm/LLMProvider";
-import { sendRequest, RateLimitError } from "../llm/streaming";
+import type { Attachment, ChatRequest, ChatResponse, LLMProvider, Message, SystemPromptBlock, TokenUsage, ToolDefinition, ToolResult, ToolUseBlock } from "../llm/LLMProvider";
+import { joinSystemBlocks, sumUsage } from "../llm/LLMProvider";
+import { calculateCost, findModelPricing, formatCost } from "../llm/pricing";
+import { applyImageLimits, base64ByteLength, findModelInfo, getImageMimeType, truncateToTokens } from "../llm/attachments";
+import { sendRequest, RateLimitError, isProviderUnavailableError } from "../llm/streaming";
+import type { RetryInfo } from "../llm/retry";
 import { NoteContext } from "../vault/NoteContext";
 import { ConversationManager, type Conversation } from "./ConversationManager";
 import { ConversationListModal } from "./ConversationListModal";
+import { CompareModelsModal } from "./CompareModelsModal";
+import { DebugInspectorModal } from "./DebugInspectorModal";
+import { GenerationParamsPopover } from "./GenerationParamsPopover";
 import { FilePickerModal } from "./FilePickerModal";
 import { ChatInput } from "./ChatInput";
-import { ChatMessage, type MessageData } from "./ChatMessage";
+import { ChatMessage, type MessageAttachment, type MessageData } from "./ChatMessage";
 import { setupMobileViewportHandler } from "./responsive";
 import { t } from "../i18n";
 import { estimateTokens } from "../utils/TokenCounter";
+import { clampMaxTokens, getModelCapabilities, type ModelCapabilities } from "../llm/capabilities";
+import { generationOverrideKey, hasGenerationOverrides, resolveGenerationParams, type GenerationParams } from "../llm/generationParams";
+import { SUMMARY_MAX_TOKENS, computeBudget, fitToContext, hasTrimmed, toSystemBlocks, type ContextPart, type ContextSummary } from "../llm/contextBudget";
+
+/** PDFを抽出テキストで送る場合に使える、コンテキストウィンドウに対する割合 */
+const PDF_TEXT_CONTEXT_RATIO = 0.5;
 
 /** Anthropic Tool Use API 用のツール定義 */
 const VAULT_TOOLS: ToolDefinition[] = [
@@ -101,6 +114,28 @@ interface EditHunk {
 	applied: boolean;
 }
 
+/** LLM呼び出し先（フォールバックチェーンの1要素） */
+interface LLMTarget {
+	provider: LLMProvider;
+	model: string;
+	apiKey: string;
+}
+
+/** Tool Use の1ラウンド分（プロバイダー非依存の形式で保持し、切り替え先の形式で再構築する） */
+interface ToolRound {
+	providerId: string;
+	content: string;
+	toolUses: ToolUseBlock[];
+	rawParts?: unknown[];
+	results: ToolResult[];
+}
+
+/** 送信先ごとに組み立てたプロンプト（添付は送信先のモデルの上限に合わせて変換する） */
+interface PreparedPrompt {
+	messages: Message[];
+	systemBlocks: SystemPromptBlock[];
+}
+
 export class ChatView extends ItemView {
 	plugin: LLMAssistantPlugin;
 	private chatOutput: HTMLElement;
@@ -112,14 +147,23 @@ export class ChatView extends ItemView {
 	private conversationManager: ConversationManager;
 	private currentConversationId: string | null = null;
 	private messages: MessageData[] = [];
+	/** 省略した古い会話ターンの要約（設定で要約を有効にした場合のみ） */
+	private contextSummary: ContextSummary | null = null;
 	private isGenerating = false;
 	private viewportCleanup: { destroy: () => void } | null = null;
 	private scrollToBottomBtn: HTMLElement | null = null;
 	private abortController: AbortController | null = null;
+	private generatingLabelEl: HTMLElement | null = null;
 	private regenerateBtn: HTMLElement | null = null;
 	private welcomeEl: HTMLElement | null = null;
 	private currentScope: "active" | "local" | "vault" = "active";
 	private scopeButtons: Map<"active" | "local" | "vault", HTMLButtonElement> = new Map();
+	/** 比較モード（設定の compareTargets に同時送信） */
+	private compareMode = false;
+	private compareBtn: HTMLElement | null = null;
+	/** 生成パラメータの上書き（モデル選択の横のボタンで開く） */
+	private paramsBtn: HTMLElement | null = null;
+	private paramsPopover: GenerationParamsPopover | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: LLMAssistantPlugin) {
 		super(leaf);
@@ -209,6 +253,7 @@ export class ChatView extends ItemView {
 	onClose(): Promise<void> {
 		this.viewportCleanup?.destroy();
 		this.viewportCleanup = null;
+		this.paramsPopover?.close();
 		this.chatInput?.destroy();
 		this.contentEl.empty();
 
@@ -225,7 +270,21 @@ export class ChatView extends ItemView {
 			this.plugin.settings.activeProvider = providerId;
 			this.plugin.settings.activeModel = modelId;
 			void this.plugin.saveSettings();
+			this.paramsPopover?.close();
+			this.updateParamsButton();
+		});
+
+		// 生成パラメータ（選択中のモデル・プロバイダー単位の上書き）
+		this.paramsPopover = new GenerationParamsPopover(this.plugin, () => this.updateParamsButton());
+		this.paramsBtn = this.headerEl.createEl("button", {
+			cls: "llm-header-btn clickable-icon",
+			attr: { "aria-label": t("header.generationParams") },
+		});
+		setIcon(this.paramsBtn, "sliders-horizontal");
+		this.paramsBtn.addEventListener("click", () => {
+			this.toggleParamsPopover();
 		});
+		this.updateParamsButton();
 
 		// 右側: 新規チャット + ⊕メニュー
 		const headerActions = this.headerEl.createDiv({ cls: "llm-header-actions" });
@@ -242,6 +301,16 @@ export class ChatView extends ItemView {
 			});
 		});
 
+		// 比較モード（複数のモデルに同時送信）
+		this.compareBtn = headerActions.createEl("button", {
+			cls: "llm-header-btn clickable-icon",
+			attr: { "aria-label": t("header.compare") },
+		});
+		setIcon(this.compareBtn, "git-compare");
+		this.compareBtn.addEventListener("click", () => {
+			this.toggleCompareMode();
+		});
+
 		// ⊕ 多機能メニューボタン
 		const menuBtn = headerActions.createEl("button", {
 			cls: "llm-header-btn clickable-icon",
@@ -289,6 +358,27 @@ export class ChatView extends ItemView {
 	/** 設定画面からのモデルリスト更新時に呼ばれる */
 	updateModelSelector(): void {
 		this.populateModelSelector();
+		this.updateParamsButton();
+	}
+
+	private toggleParamsPopover(): void {
+		const popover = this.paramsPopover;
+		if (!popover || !this.paramsBtn) return;
+		if (popover.isOpen) {
+			popover.close();
+			return;
+		}
+		const { activeProvider, activeModel } = this.plugin.settings;
+		const top = this.headerEl.offsetTop + this.headerEl.offsetHeight;
+		popover.open(this.contentEl, this.paramsBtn, top, activeProvider, activeModel);
+	}
+
+	/** 選択中のモデル・プロバイダーに上書きがあればボタンを強調 */
+	private updateParamsButton(): void {
+		const { activeProvider, activeModel, generationOverrides } = this.plugin.settings;
+		const active = hasGenerationOverrides(generationOverrides[generationOverrideKey(activeProvider)])
+			|| hasGenerationOverrides(generationOverrides[generationOverrideKey(activeProvider, activeModel)]);
+		this.paramsBtn?.toggleClass("is-active", active);
 	}
 
 	private populateModelSelector(): void {
@@ -316,9 +406,55 @@ export class ChatView extends ItemView {
 		});
 	}
 
+	/** 有効なプロバイダーの全モデル（比較モードの選択肢） */
+	private getModelOptions(): Array<{ value: string; label: string }> {
+		const options: Array<{ value: string; label: string }> = [];
+		for (const provider of this.plugin.providerRegistry.getAll()) {
+			if (!this.isProviderEnabled(provider.id)) continue;
+			for (const model of provider.models) {
+				options.push({ value: `${provider.id}::${model.id}`, label: `${provider.name} / ${model.name}` });
+			}
+		}
+		return options;
+	}
+
+	/**
+	 * 比較モードの切り替え（オンにする時は比較するモデルを選択）
+	 */
+	private toggleCompareMode(): void {
+		if (this.compareMode) {
+			this.setCompareMode(false);
+			return;
+		}
+		const options = this.getModelOptions();
+		if (options.length < 2) {
+			new Notice(t("notice.compareNeedsModels"));
+			return;
+		}
+		new CompareModelsModal(this.app, options, this.plugin.settings.compareTargets, (targets) => {
+			if (targets.length < 2) {
+				new Notice(t("notice.compareNeedsModels"));
+				return;
+			}
+			this.plugin.settings.compareTargets = targets;
+			void this.plugin.saveSettings();
+			this.setCompareMode(true);
+			new Notice(t("notice.compareOn", { names: targets.map((x) => x.model).join(", ") }));
+		}).open();
+	}
+
+	private setCompareMode(enabled: boolean): void {
+		this.compareMode = enabled;
+		this.compareBtn?.toggleClass("is-active", enabled);
+		// 比較中の送信先は選択したモデル（モデルセレクタは使わない）
+		this.modelSelector.disabled = enabled;
+	}
+
 	private isProviderEnabled(providerId: string): boolean {
 		if (providerId === "openrouter") return this.plugin.settings.enableOpenRouter;
 		if (providerId === "ollama") return this.plugin.settings.enableOllama;
+		if (providerId === "azure") return this.plugin.settings.enableAzure;
+		if (providerId === "replay") return this.plugin.settings.replay.mode !== "off";
 		return true;
 	}
 
@@ -364,6 +500,47 @@ export class ChatView extends ItemView {
 				});
 		});
 
+		// 🖼 画像を添付（画像入力非対応のモデルでは無効。比較モードは列ごとに判定するため有効）
+		const activeCaps = this.getActiveCapabilities();
+		menu.addItem((item) => {
+			item.setTitle(t("toolbar.attachImage"))
+				.setIcon("image")
+				.setDisabled(!this.compareMode && activeCaps !== undefined && !activeCaps.vision)
+				.onClick(() => {
+					new FilePickerModal(this.app, (file) => {
+						void this.noteContext.addImage(file).then((entry) => {
+							if (entry) {
+								this.updateContextBar();
+								new Notice(t("notice.attached", { name: file.name }));
+							} else {
+								new Notice(t("notice.alreadyAttachedOrLimit"));
+							}
+						});
+					}, this.plugin.vaultReader.getImageFiles(), t("filePicker.imagePlaceholder")).open();
+				});
+		});
+
+		// 📕 PDFを添付
+		menu.addItem((item) => {
+			item.setTitle(t("toolbar.attachPdf"))
+				.setIcon("file-text")
+				.onClick(() => {
+					new FilePickerModal(this.app, (file) => {
+						this.noteContext.addPdf(file).then((entry) => {
+							if (entry) {
+								this.updateContextBar();
+								new Notice(t("notice.attached", { name: file.name }));
+							} else {
+								new Notice(t("notice.alreadyAttachedOrLimit"));
+							}
+						}).catch((e: unknown) => {
+							console.error("Failed to read PDF:", e);
+							new Notice(t("notice.pdfReadFailed", { name: file.name }));
+						});
+					}, this.plugin.vaultReader.getPdfFiles(), t("filePicker.pdfPlaceholder")).open();
+				});
+		});
+
 		menu.addSeparator();
 
 		// 📋 応答をコピー
@@ -426,8 +603,9 @@ export class ChatView extends ItemView {
 	private updateContextBar(): void {
 		this.contextBar.empty();
 		const entries = this.noteContext.getEntries();
+		const attachments = this.noteContext.getAttachments();
 
-		if (entries.length === 0) {
+		if (entries.length === 0 && attachments.length === 0) {
 			this.contextBar.addClass("is-hidden");
 			return;
 		}
@@ -451,6 +629,33 @@ export class ChatView extends ItemView {
 			});
 		}
 
+		// 添付の画像（サムネイル）・PDF（ページ数・推定トークン数）
+		for (const attachment of attachments) {
+			const tag = this.contextBar.createDiv({ cls: "llm-context-tag llm-context-tag-attachment" });
+			if (attachment.type === "image") {
+				tag.createEl("img", {
+					cls: "llm-context-thumb",
+					attr: { src: this.plugin.vaultReader.getResourcePath(attachment.file), alt: attachment.file.name },
+				});
+				tag.createSpan({ text: attachment.file.name, cls: "llm-context-tag-name" });
+			} else {
+				setIcon(tag.createSpan({ cls: "llm-context-tag-icon" }), "file-text");
+				tag.createSpan({
+					text: `${attachment.file.basename} (${attachment.pages ?? 0}p, ${attachment.tokens ?? 0}t)`,
+					cls: "llm-context-tag-name",
+				});
+			}
+			const removeBtn = tag.createEl("button", {
+				cls: "llm-context-tag-remove",
+				text: "\u00D7",
+				attr: { "aria-label": t("conversation.delete") },
+			});
+			removeBtn.addEventListener("click", () => {
+				this.noteContext.removeFile(attachment.file.path);
+				this.updateContextBar();
+			});
+		}
+
 		// トータルトークン数
 		this.contextBar.createSpan({
 			text: `Total: ${this.noteContext.getFormattedTokens()}`,
@@ -493,9 +698,20 @@ export class ChatView extends ItemView {
 		void this.handleSend(text);
 	}
 
-	private async handleSend(text: string): Promise<void> {
+	/**
+	 * メッセージを送信
+	 * @param resend 再生成時に送り直す元のメッセージの添付（指定時は現在の添付・埋め込み画像を使わない）
+	 */
+	private async handleSend(text: string, resend?: MessageAttachment[]): Promise<void> {
 		if (!text.trim() || this.isGenerating) return;
 
+		// 比較モードの応答を選ぶまでは会話を続けない（選べる応答がない場合を除く）
+		const last = this.messages[this.messages.length - 1];
+		if (last?.candidates && last.selectedCandidate === undefined && last.candidates.some((c) => !c.failed)) {
+			new Notice(t("notice.compareSelectFirst"));
+			return;
+		}
+
 		// ウェルカムメッセージを非表示
 		this.hideWelcome();
 
@@ -503,15 +719,22 @@ export class ChatView extends ItemView {
 		this.regenerateBtn?.remove();
 		this.regenerateBtn = null;
 
-		// ユーザーメッセージを追加
+		// ユーザーメッセージを追加（添付画像・アクティブノートの埋め込み画像を含む）
+		const attachments = resend ?? this.collectAttachments();
 		const userMsg: MessageData = {
 			role: "user",
 			content: text,
 			timestamp: Date.now(),
+			...(attachments.length > 0 ? { attachments } : {}),
 		};
 		this.messages.push(userMsg);
 		void this.renderMessage(userMsg, this.messages.length - 1);
 
+		if (this.compareMode) {
+			await this.sendComparison(text, resend === undefined);
+			return;
+		}
+
 		// LLMプロバイダーを取得
 		const provider = this.plugin.providerRegistry.get(
 			this.plugin.settings.activeProvider
@@ -534,7 +757,284 @@ export class ChatView extends ItemView {
 		}
 		const finalApiKey = apiKey || "";
 
-		// 生成開始
+		// 予算チェック（超過時は送信をブロック、警告閾値に達したら通知のみ）
+		if (!this.checkBudget()) return;
+
+		// 生成開始（Tool Use の試験リクエスト中も二重送信を防ぎ、停止ボタンで中断できるようにする）
+		const generatingEl = this.startGenerating();
+
+		// Tool Use を使うか（カスタムエンドポイント・ローカルサーバーは初回のみ試験リクエストで確認）
+		const model = this.plugin.settings.activeModel;
+		const useToolUse = await this.plugin.resolveToolSupport(provider, model, finalApiKey, this.abortController?.signal);
+
+		// 呼び出し先: 現在のプロバイダー → フォールバックチェーン
+		const targets = await this.resolveTargets(
+			{ provider, model, apiKey: finalApiKey },
+			this.messages.some((m) => m.attachments?.some((a) => a.type === "image")),
+			useToolUse,
+		);
+		if (this.abortController?.signal.aborted) {
+			await this.finishGenerating(generatingEl);
+			return;
+		}
+
+		// 添付の画像・PDFは1回の送信で使い切る（再生成時は次の送信用の添付を残す）
+		if (!resend) {
+			this.noteContext.clearAttachments();
+			this.updateContextBar();
+		}
+
+		// アシスタントメッセージの枠を先に作成（空コンテンツは ChatMessage 側で自動非表示）
+		const assistantMsg: MessageData = {
+			role: "assistant",
+			content: "",
+			timestamp: Date.now(),
+		};
+		this.messages.push(assistantMsg);
+		const messageComponent = new ChatMessage(this.chatOutput, assistantMsg);
+
+		try {
+			const parts = await this.buildSystemPrompt(text, useToolUse);
+			const history = this.messages
+				.filter((m) => m.role !== "system")
+				.slice(0, -1); // 空のアシスタントメッセージは除外
+
+			// フォールバック先を含め送信先ごとに、コンテキストウィンドウに収まるように調整し、
+			// 会話履歴をMessage[]形式に変換（添付はVaultから読み込み、モデルの上限を適用）
+			await this.generateReply(
+				targets,
+				useToolUse,
+				async (target) => {
+					const fitted = await this.fitContext(parts, history, target, useToolUse, assistantMsg, messageComponent, this.contextSummary);
+					this.contextSummary = fitted.summary;
+					return { messages: await this.buildChatMessages(fitted.history, target), systemBlocks: fitted.systemBlocks };
+				},
+				assistantMsg,
+				messageComponent,
+			);
+		} catch (err) {
+			this.showReplyError(err, assistantMsg, messageComponent);
+		} finally {
+			// コストは応答ごとに記録済み（中断・エラー時も完了した応答の分を表示）
+			if (assistantMsg.usage) {
+				messageComponent.updateUsage(assistantMsg.usage);
+			}
+			await this.finishGenerating(generatingEl);
+		}
+	}
+
+	/**
+	 * 比較モード: 同じメッセージを選択したモデルに並列に送信し、応答を列に並べて表示
+	 * ユーザーが選んだ応答で会話を続ける（全候補をアシスタントメッセージに保存）
+	 */
+	private async sendComparison(text: string, consumeAttachments: boolean): Promise<void> {
+		// 送信先を解決（無効化・未登録・APIキー未設定のものは除外）
+		const targets: LLMTarget[] = [];
+		const skipped: string[] = [];
+		for (const entry of this.plugin.settings.compareTargets) {
+			const provider = this.isProviderEnabled(entry.provider)
+				? this.plugin.providerRegistry.get(entry.provider)
+				: undefined;
+			const apiKey = provider ? await this.getApiKey(provider) : null;
+			if (!provider || (provider.requiresApiKey && !apiKey)) {
+				skipped.push(`${entry.provider} / ${entry.model}`);
+				continue;
+			}
+			targets.push({ provider, model: entry.model, apiKey: apiKey || "" });
+		}
+		if (skipped.length > 0) {
+			new Notice(t("notice.compareSkipped", { names: skipped.join(", ") }));
+		}
+		if (targets.length === 0) {
+			this.showError(t("error.compareNoTargets"));
+			return;
+		}
+
+		if (!this.checkBudget()) return;
+
+		// 試験リクエスト中も二重送信を防ぎ、停止ボタンで中断できるようにする
+		const generatingEl = this.startGenerating();
+
+		const useToolUse = await Promise.all(
+			targets.map((target) => this.plugin.resolveToolSupport(target.provider, target.model, target.apiKey, this.abortController?.signal)),
+		);
+		if (this.abortController?.signal.aborted) {
+			await this.finishGenerating(generatingEl);
+			return;
+		}
+
+		// 添付の画像・PDFは1回の送信で使い切る（再生成時は次の送信用の添付を残す）
+		if (consumeAttachments) {
+			this.noteContext.clearAttachments();
+			this.updateContextBar();
+		}
+
+		const history = this.messages.filter((m) => m.role !== "system");
+		const candidates: MessageData[] = targets.map((target) => ({
+			role: "assistant",
+			content: "",
+			timestamp: Date.now(),
+			provider: target.provider.id,
+			model: target.model,
+		}));
+		const assistantMsg: MessageData = {
+			role: "assistant",
+			content: "",
+			timestamp: Date.now(),
+			candidates,
+		};
+		this.messages.push(assistantMsg);
+		const { rowEl, components } = this.renderComparison(assistantMsg);
+
+		const fail = (err: unknown, i: number): void => {
+			const stopped = err instanceof DOMException && err.name === "AbortError" && candidates[i].content.trim() !== "";
+			this.showReplyError(err, candidates[i], components[i]);
+			if (!stopped) candidates[i].failed = true;
+		};
+
+		// システムプロンプトは Tool Use の有無ごとに1回だけ構築（RAG 検索を重複させない）
+		const prompts = new Map<boolean, ContextPart[]>();
+		const runs: Array<Promise<void>> = [];
+		for (const [i, target] of targets.entries()) {
+			try {
+				let parts = prompts.get(useToolUse[i]);
+				if (!parts) {
+					parts = await this.buildSystemPrompt(text, useToolUse[i]);
+					prompts.set(useToolUse[i], parts);
+				}
+				// コンテキストウィンドウはモデルごとに異なるため、履歴の調整も候補ごとに行う
+				// 要約は候補ごとに保持し、選んだ候補のものを会話の要約にする
+				const fitted = await this.fitContext(parts, history, target, useToolUse[i], candidates[i], components[i], this.contextSummary);
+				if (fitted.summary && fitted.summary !== this.contextSummary) {
+					candidates[i].contextSummary = fitted.summary;
+				}
+				const prompt: PreparedPrompt = {
+					messages: await this.buildChatMessages(fitted.history, target),
+					systemBlocks: fitted.systemBlocks,
+				};
+				const startedAt = Date.now();
+				runs.push(
+					this.generateReply([target], useToolUse[i], () => Promise.resolve(prompt), candidates[i], components[i])
+						.catch((err: unknown) => fail(err, i))
+						.finally(() => {
+							candidates[i].latencyMs = Date.now() - startedAt;
+						}),
+				);
+			} catch (err) {
+				fail(err, i);
+			}
+		}
+		await Promise.all(runs);
+
+		// コストは候補の応答ごとに記録済み。会話全体の集計用に合計をアシスタントメッセージに保持
+		for (const [i, candidate] of candidates.entries()) {
+			if (candidate.usage) {
+				components[i].updateUsage(candidate.usage);
+			}
+			assistantMsg.usage = sumUsage(assistantMsg.usage, candidate.usage);
+			if (candidate.cost !== undefined) {
+				assistantMsg.cost = (assistantMsg.cost ?? 0) + candidate.cost;
+			}
+		}
+		// 選べる応答がない場合はエラー内容をそのまま履歴に残す
+		if (candidates.every((c) => c.failed)) {
+			assistantMsg.content = candidates[0].content;
+		}
+
+		await this.finishGenerating(generatingEl);
+		this.updateComparison(rowEl, assistantMsg);
+	}
+
+	/**
+	 * 比較モードの応答を列に並べて表示
+	 */
+	private renderComparison(msg: MessageData): { rowEl: HTMLElement; components: ChatMessage[] } {
+		const rowEl = this.chatOutput.createDiv({ cls: "llm-compare" });
+		const columnsEl = rowEl.createDiv({ cls: "llm-compare-columns" });
+		const components = (msg.candidates ?? []).map((candidate) => {
+			const columnEl = columnsEl.createDiv({ cls: "llm-compare-column" });
+			const provider = candidate.provider ? this.plugin.providerRegistry.get(candidate.provider) : undefined;
+			columnEl.createDiv({
+				cls: "llm-compare-column-title",
+				text: `${provider?.name ?? candidate.provider ?? ""} / ${candidate.model ?? ""}`,
+			});
+			const component = new ChatMessage(columnEl, candidate);
+			if (candidate.debugIds && candidate.debugIds.length > 0) {
+				component.setInspector(() => this.openInspector(candidate));
+			}
+			if (candidate.failed) {
+				component.getMessageEl().addClass("llm-message-error");
+			}
+			columnEl.createDiv({ cls: "llm-compare-footer" });
+			return component;
+		});
+		this.updateComparison(rowEl, msg);
+		return { rowEl, components };
+	}
+
+	/**
+	 * 比較モードの各列の状態（所要時間・選択ボタン・選んだ応答の強調）を更新
+	 */
+	private updateComparison(rowEl: HTMLElement, msg: MessageData): void {
+		const columns = Array.from(rowEl.querySelectorAll<HTMLElement>(".llm-compare-column"));
+		const selected = msg.selectedCandidate;
+		for (const [i, candidate] of (msg.candidates ?? []).entries()) {
+			const columnEl = columns[i];
+			const footerEl = columnEl?.querySelector<HTMLElement>(".llm-compare-footer");
+			if (!columnEl || !footerEl) continue;
+			columnEl.toggleClass("is-selected", selected === i);
+			columnEl.toggleClass("is-dimmed", selected !== undefined && selected !== i);
+
+			footerEl.empty();
+			if (candidate.latencyMs !== undefined) {
+				footerEl.createSpan({
+					cls: "llm-compare-latency",
+					text: t("compare.latency", { seconds: (candidate.latencyMs / 1000).toFixed(1) }),
+				});
+			}
+			if (selected === i) {
+				footerEl.createSpan({ cls: "llm-compare-selected", text: t("compare.selected") });
+			} else if (selected === undefined && !candidate.failed && !this.isGenerating) {
+				const pickBtn = footerEl.createEl("button", { cls: "llm-compare-pick-btn mod-cta", text: t("compare.pick") });
+				pickBtn.addEventListener("click", () => {
+					this.selectCandidate(rowEl, msg, i);
+				});
+			}
+		}
+	}
+
+	/**
+	 * 比較モードの応答を選んで会話を続ける（選んだモデルを現在のモデルにして比較モードを終了）
+	 */
+	private selectCandidate(rowEl: HTMLElement, msg: MessageData, index: number): void {
+		const candidate = msg.candidates?.[index];
+		if (!candidate || this.isGenerating) return;
+		msg.selectedCandidate = index;
+		msg.content = candidate.content;
+		msg.reasoning = candidate.reasoning;
+		msg.provider = candidate.provider;
+		msg.model = candidate.model;
+		msg.upstreamProvider = candidate.upstreamProvider;
+		if (candidate.contextSummary) {
+			this.contextSummary = candidate.contextSummary;
+		}
+		this.updateComparison(rowEl, msg);
+
+		if (candidate.provider && candidate.model) {
+			this.plugin.settings.activeProvider = candidate.provider;
+			this.plugin.settings.activeModel = candidate.model;
+			void this.plugin.saveSettings();
+			this.populateModelSelector();
+		}
+		this.setCompareMode(false);
+		void this.saveCurrentConversation();
+		this.chatInput.focus();
+	}
+
+	/**
+	 * 生成中の状態に切り替え（入力を無効化し、生成中インジケーターと停止ボタンを表示）
+	 */
+	private startGenerating(): HTMLElement {
 		this.isGenerating = true;
 		this.abortController = new AbortController();
 		this.chatInput.disable();
@@ -551,127 +1051,142 @@ export class ChatView extends ItemView {
 		stopBtn.addEventListener("click", () => {
 			this.abortController?.abort();
 		});
+		return generatingEl;
+	}
 
-		// アシスタントメッセージの枠を先に作成（空コンテンツは ChatMessage 側で自動非表示）
-		const assistantMsg: MessageData = {
-			role: "assistant",
-			content: "",
-			timestamp: Date.now(),
-		};
-		this.messages.push(assistantMsg);
-		const messageComponent = new ChatMessage(this.chatOutput, assistantMsg);
-
-		try {
-			// システムプロンプトを構築
-			const systemPrompt = await this.buildSystemPrompt(text, provider);
-
-			// 会話履歴をMessage[]形式に変換
-			const chatMessages: Message[] = this.messages
-				.filter((m) => m.role !== "system")
-				.slice(0, -1) // 空のアシスタントメッセージは除外
-				.map((m) => ({
-					role: m.role as "user" | "assistant",
-					content: m.content,
-				}));
-
-			// プロバイダーに応じてLLM呼び出し方式を分岐
-			let finalContent: string;
-			let writeOperations: Array<{path: string, content: string}>;
+	/**
+	 * 生成終了: 入力を戻して再生成ボタンを表示し、会話を保存
+	 */
+	private async finishGenerating(generatingEl: HTMLElement): Promise<void> {
+		generatingEl.remove();
+		this.generatingLabelEl = null;
+		this.isGenerating = false;
+		this.abortController = null;
+		this.chatInput.enable();
+		this.chatInput.enableSend();
+		this.chatInput.focus();
+		this.chatOutput.scrollTop = this.chatOutput.scrollHeight;
+		// 再生成ボタンを表示
+		this.showRegenerateButton();
+		// 自動保存
+		await this.saveCurrentConversation();
+	}
 
-			if (provider.supportsToolUse) {
-				// Tool Use API を使用（Anthropic, OpenAI, Gemini, OpenRouter）
-				const result = await this.callLLMWithToolUse(
-					provider, chatMessages, systemPrompt, finalApiKey,
-					assistantMsg, messageComponent,
-				);
-				finalContent = result.text;
-				writeOperations = result.writeProposals;
-			} else {
-				// テキストタグ方式（Ollama, Custom等）
-				const rawContent = await this.callLLMWithFileReading(
-					provider, chatMessages, systemPrompt, finalApiKey,
-					assistantMsg, messageComponent,
-				);
-				writeOperations = this.parseVaultWriteTags(rawContent);
-				finalContent = this.stripVaultWriteTags(rawContent);
+	/**
+	 * LLMを呼び出して応答を生成し、Markdownで再レンダリングして編集提案を表示
+	 * @param prepare 送信先のプロンプトを組み立てる（送信先ごとに1回だけ呼び、各ラウンドで使い回す）
+	 */
+	private async generateReply(
+		targets: LLMTarget[],
+		useToolUse: boolean,
+		prepare: (target: LLMTarget) => Promise<PreparedPrompt>,
+		assistantMsg: MessageData,
+		messageComponent: ChatMessage,
+	): Promise<void> {
+		const prompts = new Map<LLMTarget, Promise<PreparedPrompt>>();
+		const getPrompt = (target: LLMTarget): Promise<PreparedPrompt> => {
+			let prompt = prompts.get(target);
+			if (!prompt) {
+				prompt = prepare(target);
+				prompts.set(target, prompt);
 			}
+			return prompt;
+		};
 
-			assistantMsg.content = finalContent;
+		// プロバイダーに応じてLLM呼び出し方式を分岐
+		let finalContent: string;
+		let writeOperations: Array<{path: string, content: string}>;
 
-			// MarkdownRendererで再レンダリング
-			const contentEl = messageComponent.getContentEl();
-			contentEl.empty();
-			await MarkdownRenderer.render(
-				this.app,
-				assistantMsg.content,
-				contentEl,
-				"",
-				this
+		if (useToolUse) {
+			// Tool Use API を使用（Anthropic, OpenAI, Gemini, OpenRouter + 対応を確認済みのローカル・カスタム）
+			const result = await this.callLLMWithToolUse(
+				targets, getPrompt,
+				assistantMsg, messageComponent,
 			);
-			this.addCodeCopyButtons(contentEl);
+			finalContent = result.text;
+			writeOperations = result.writeProposals;
+		} else {
+			// テキストタグ方式（Tool 非対応のローカル・カスタム）
+			const rawContent = await this.callLLMWithFileReading(
+				targets, getPrompt,
+				assistantMsg, messageComponent,
+			);
+			writeOperations = this.parseVaultWriteTags(rawContent);
+			finalContent = this.stripVaultWriteTags(rawContent);
+		}
 
-			// 編集提案UIを表示
-			for (const op of writeOperations) {
-				await this.renderEditProposal(contentEl, op);
-			}
-		} catch (err) {
-			// Abort（停止ボタン）の場合はエラー表示せず、途中の応答を保持
-			if (err instanceof DOMException && err.name === "AbortError") {
-				if (!assistantMsg.content.trim()) {
-					assistantMsg.content = t("chat.stopped");
-				}
-				messageComponent.updateContent(assistantMsg.content);
-			} else {
-				let errorContent: string;
-				if (err instanceof RateLimitError) {
-					errorContent = this.buildRateLimitMessage(err.providerId);
-				} else {
-					const errorMsg = err instanceof Error ? err.message : String(err);
-					errorContent = t("error.occurred", { message: errorMsg });
-				}
-				assistantMsg.content = errorContent;
-				messageComponent.updateContent(errorContent);
-				messageComponent.getMessageEl().addClass("llm-message-error");
+		assistantMsg.content = finalContent;
+
+		// MarkdownRendererで再レンダリング
+		const contentEl = messageComponent.getContentEl();
+		contentEl.empty();
+		await MarkdownRenderer.render(
+			this.app,
+			assistantMsg.content,
+			contentEl,
+			"",
+			this
+		);
+		this.addCodeCopyButtons(contentEl);
+
+		// 編集提案UIを表示
+		for (const op of writeOperations) {
+			await this.renderEditProposal(contentEl, op);
+		}
+	}
+
+	/**
+	 * 応答の生成に失敗した場合の表示
+	 * Abort（停止ボタン）の場合はエラー表示せず、途中の応答を保持
+	 */
+	private showReplyError(err: unknown, assistantMsg: MessageData, messageComponent: ChatMessage): void {
+		if (err instanceof DOMException && err.name === "AbortError") {
+			if (!assistantMsg.content.trim()) {
+				assistantMsg.content = t("chat.stopped");
 			}
-		} finally {
-			generatingEl.remove();
-			this.isGenerating = false;
-			this.abortController = null;
-			this.chatInput.enable();
-			this.chatInput.enableSend();
-			this.chatInput.focus();
-			this.chatOutput.scrollTop = this.chatOutput.scrollHeight;
-			// 再生成ボタンを表示
-			this.showRegenerateButton();
-			// 自動保存
-			await this.saveCurrentConversation();
+			messageComponent.updateContent(assistantMsg.content);
+			return;
+		}
+		let errorContent: string;
+		if (err instanceof RateLimitError) {
+			errorContent = this.buildRateLimitMessage(err.providerId);
+		} else {
+			const errorMsg = err instanceof Error ? err.message : String(err);
+			errorContent = t("error.occurred", { message: errorMsg });
 		}
+		assistantMsg.content = errorContent;
+		messageComponent.updateContent(errorContent);
+		messageComponent.getMessageEl().addClass("llm-message-error");
 	}
 
 	/**
 	 * システムプロンプトを構築（コンテキスト、アクティブノート、wikilink、Vault一覧を含む）
 	 * スコープ: active（現在のノートのみ）/ local（+一次リンク先）/ vault（Vault全体）
+	 * コンテキストウィンドウの予算に応じて削れるよう、RAG 検索結果・リンク先ノートは1件ずつの要素で返す
 	 */
-	private async buildSystemPrompt(userText: string, provider?: LLMProvider): Promise<string> {
-		const parts: string[] = [];
+	private async buildSystemPrompt(userText: string, useToolUse: boolean): Promise<ContextPart[]> {
+		// 会話を通して変わりにくい順に3つのブロックに分ける（前の2つはプロンプトキャッシュの対象）
+		const parts: ContextPart[] = [];
+		const addInstruction = (text: string): void => { parts.push({ block: 0, kind: "fixed", text }); };
+		const addNote = (text: string): void => { parts.push({ block: 1, kind: "fixed", text }); };
 		const scope = this.currentScope;
 
 		// 1. ユーザーのカスタムシステムプロンプト
 		if (this.plugin.settings.systemPrompt) {
-			parts.push(this.plugin.settings.systemPrompt);
+			addInstruction(this.plugin.settings.systemPrompt);
 		}
 
-		// 2. ファイル読み込み・編集機能の指示（プロバイダーで分岐）
-		if (provider?.supportsToolUse) {
-			parts.push(t("context.toolUseInstruction"));
+		// 2. ファイル読み込み・編集機能の指示（Tool Use の有無で分岐）
+		if (useToolUse) {
+			addInstruction(t("context.toolUseInstruction"));
 			// Dataview未インストール時の案内
 			const hasDataview = !!(this.app as any).plugins?.plugins?.["dataview"]?.api;
 			if (!hasDataview) {
-				parts.push(t("context.dataviewSuggestion"));
+				addInstruction(t("context.dataviewSuggestion"));
 			}
 		} else {
-			parts.push(t("context.vaultReadInstruction"));
-			parts.push(t("context.vaultWriteInstruction"));
+			addInstruction(t("context.vaultReadInstruction"));
+			addInstruction(t("context.vaultWriteInstruction"));
 		}
 
 		// 3. Vault全体のファイル一覧（Vault全体スコープのみ）
@@ -680,14 +1195,14 @@ export class ChatView extends ItemView {
 			const vaultFiles = this.plugin.vaultReader.getVaultFileList(200);
 			if (vaultFiles.length > 0) {
 				const fileList = vaultFiles.join("\n");
-				parts.push(`${t("context.vaultFiles")}\n${fileList}`);
+				addInstruction(`${t("context.vaultFiles")}\n${fileList}`);
 			}
 		}
 
 		// 4. コンテキスト（手動添付ノート）
 		const contextText = this.noteContext.buildContextText();
 		if (contextText) {
-			parts.push(contextText);
+			addNote(contextText);
 		}
 
 		// 5. アクティブノートを自動取得（手動添付済みの場合は重複回避）
@@ -703,7 +1218,7 @@ export class ChatView extends ItemView {
 			);
 			if (!alreadyAttached) {
 				const content = await this.plugin.vaultReader.cachedReadFile(activeFile);
-				parts.push(`${t("context.activeNote")}\n--- ${activeFile.name} (${activeFile.path}) ---\n${content}`);
+				addNote(`${t("context.activeNote")}\n--- ${activeFile.name} (${activeFile.path}) ---\n${content}`);
 			}
 		}
 
@@ -728,12 +1243,17 @@ export class ChatView extends ItemView {
 				const tokens = estimateTokens(content);
 				if (tokens > tokenBudget) continue;
 				tokenBudget -= tokens;
-				parts.push(`--- ${linkedFile.basename} (${linkedFile.path}) ---\n${content}`);
+				parts.push({
+					block: 1,
+					kind: "linked",
+					text: `--- ${linkedFile.basename} (${linkedFile.path}) ---\n${content}`,
+					label: linkedFile.basename,
+				});
 				included++;
 			}
 			const remaining = resolvedLinked.length - included;
 			if (remaining > 0) {
-				parts.push(t("scope.linkedNotesOmitted", { count: remaining }));
+				addNote(t("scope.linkedNotesOmitted", { count: remaining }));
 			}
 		}
 
@@ -743,7 +1263,12 @@ export class ChatView extends ItemView {
 			const alreadyInContext = this.noteContext.getEntries().some(e => e.file.path === linked.path);
 			const isActiveFile = activeFile && activeFile.path === linked.path;
 			if (!alreadyInContext && !isActiveFile) {
-				parts.push(`--- ${linked.name} (${linked.path}) ---\n${linked.content}`);
+				parts.push({
+					block: 2,
+					kind: "linked",
+					text: `--- ${linked.name} (${linked.path}) ---\n${linked.content}`,
+					label: linked.name,
+				});
 			}
 		}
 
@@ -751,13 +1276,123 @@ export class ChatView extends ItemView {
 		if (scope === "vault" && this.plugin.ragManager?.isBuilt()) {
 			const embeddingApiKey = await this.getEmbeddingApiKey();
 			const ragResults = await this.plugin.ragManager.search(userText, undefined, undefined, embeddingApiKey);
-			if (ragResults.length > 0) {
-				const ragContext = this.plugin.ragManager.buildRAGContext(ragResults);
-				parts.push(ragContext);
+			for (const result of ragResults) {
+				parts.push({
+					block: 2,
+					kind: "rag",
+					text: this.plugin.ragManager.formatRAGResult(result),
+					header: t("rag.contextHeader"),
+					label: result.chunk.heading ? `${result.chunk.fileName} > ${result.chunk.heading}` : result.chunk.fileName,
+				});
+			}
+		}
+
+		return parts;
+	}
+
+	/**
+	 * システムプロンプトと会話履歴をモデルのコンテキストウィンドウに収まるように調整
+	 * 削った内容はアシスタントメッセージに表示し、要約が有効なら省略したターンを要約に追加する
+	 * @param summary それまでの会話の要約（更新後の要約を返す。呼び出し側が保存先を決める）
+	 */
+	private async fitContext(
+		parts: ContextPart[],
+		history: MessageData[],
+		target: LLMTarget,
+		useToolUse: boolean,
+		assistantMsg: MessageData,
+		messageComponent: ChatMessage,
+		summary: ContextSummary | null,
+	): Promise<{ systemBlocks: SystemPromptBlock[]; history: MessageData[]; summary: ContextSummary | null }> {
+		const settings = this.plugin.settings;
+		if (!settings.contextTrimEnabled) {
+			return { systemBlocks: toSystemBlocks(parts), history, summary };
+		}
+
+		// 編集・再生成で要約済みの範囲が変わっていたら要約を破棄
+		if (summary && history[summary.messages - 1]?.timestamp !== summary.until) {
+			summary = null;
+		}
+		const summarize = settings.contextSummaryEnabled;
+		// 要約済みのターンは送らない（要約で置き換える）
+		const base = summarize ? summary?.messages ?? 0 : 0;
+
+		const contextWindow = findModelInfo(target.provider.models, target.model)?.contextWindow ?? 128000;
+		// 応答の分はモデルの最大出力トークン数で制限した後の値を確保する
+		const requested = this.getGenerationParams(target).maxTokens ?? settings.maxTokens;
+		const maxTokens = clampMaxTokens(requested, getModelCapabilities(target.provider, target.model)) ?? requested;
+		const budget = computeBudget(contextWindow, maxTokens, useToolUse) - (summarize ? SUMMARY_MAX_TOKENS : 0);
+		const fit = fitToContext(history.slice(base), parts, budget);
+		const start = base + fit.start;
+
+		if (summarize && fit.start > 0) {
+			try {
+				summary = await this.summarizeTurns(target, history.slice(base, start), summary, assistantMsg, messageComponent);
+				fit.trim.summarized = true;
+			} catch (err) {
+				if (err instanceof DOMException && err.name === "AbortError") throw err;
+				console.warn("Failed to summarize earlier messages:", err);
+				new Notice(t("notice.contextSummaryFailed"));
 			}
 		}
 
-		return parts.join("\n\n");
+		const keptParts = [...fit.parts];
+		if (summarize && summary) {
+			keptParts.push({ block: 1, kind: "fixed", text: summary.text, header: t("context.conversationSummary") });
+		}
+
+		// 要約済みのターンも含めて省略した件数を表示（フォールバック時は切り替え先の結果で置き換える）
+		fit.trim.messages = start;
+		const trim = hasTrimmed(fit.trim) ? fit.trim : undefined;
+		assistantMsg.contextTrim = trim;
+		messageComponent.setContextTrim(trim);
+		return { systemBlocks: toSystemBlocks(keptParts), history: history.slice(start), summary };
+	}
+
+	/**
+	 * 省略する会話ターンを既存の要約と合わせて要約
+	 * 使用量はアシスタントメッセージに合算する（コストの記録対象）
+	 */
+	private async summarizeTurns(
+		target: LLMTarget,
+		turns: MessageData[],
+		previous: ContextSummary | null,
+		assistantMsg: MessageData,
+		messageComponent: ChatMessage,
+	): Promise<ContextSummary> {
+		const lines: string[] = [];
+		if (previous) {
+			lines.push(`${t("context.conversationSummary")}\n${previous.text}`);
+		}
+		for (const m of turns) {
+			lines.push(`${m.role === "user" ? t("message.user") : t("message.assistant")}: ${m.content}`);
+		}
+
+		const response = await sendRequest(
+			target.provider,
+			{
+				model: target.model,
+				messages: [{ role: "user", content: lines.join("\n\n") }],
+				systemPrompt: t("context.summaryInstruction", { tokens: SUMMARY_MAX_TOKENS }),
+				maxTokens: SUMMARY_MAX_TOKENS,
+				stream: false,
+			},
+			target.apiKey,
+			undefined,
+			this.abortController?.signal,
+			{ onDebugTrace: (id: string) => this.addDebugTrace(assistantMsg, messageComponent, id) },
+		);
+		assistantMsg.usage = sumUsage(assistantMsg.usage, response.usage);
+		await this.recordCost(assistantMsg, target, response.usage);
+		const text = response.content.trim();
+		if (!text) throw new Error("Empty summary");
+
+		const covered = (previous?.messages ?? 0) + turns.length;
+		return {
+			text,
+			messages: covered,
+			until: turns[turns.length - 1].timestamp,
+		};
 	}
 
 	/**
@@ -765,16 +1400,15 @@ export class ChatView extends ItemView {
 	 * 最大3回までファイル読み込みループを実行
 	 */
 	private async callLLMWithFileReading(
-		provider: LLMProvider,
-		chatMessages: Message[],
-		systemPrompt: string,
-		apiKey: string,
+		targets: LLMTarget[],
+		getPrompt: (target: LLMTarget) => Promise<PreparedPrompt>,
 		assistantMsg: MessageData,
 		messageComponent: ChatMessage,
 	): Promise<string> {
 		const MAX_FILE_READ_ROUNDS = 3;
-		let currentMessages = [...chatMessages];
-		let currentSystemPrompt = systemPrompt;
+		// ファイル読み込みラウンドで会話に追加したメッセージ
+		let fileReadMessages: Message[] = [];
+		let targetIndex = 0;
 
 		for (let round = 0; round <= MAX_FILE_READ_ROUNDS; round++) {
 			// ストリーミング用にコンテンツをリセット（ループ2回目以降）
@@ -783,25 +1417,36 @@ export class ChatView extends ItemView {
 				messageComponent.updateContent(t("chat.readingFiles"));
 			}
 
-			const response = await sendRequest(
-				provider,
-				{
-					model: this.plugin.settings.activeModel,
-					messages: currentMessages,
-					systemPrompt: currentSystemPrompt || undefined,
-					temperature: this.plugin.settings.temperature,
-					maxTokens: this.plugin.settings.maxTokens,
-					stream: this.plugin.settings.streamingEnabled,
+			const sent = await this.sendWithFallback(
+				targets,
+				targetIndex,
+				async (target) => {
+					const prompt = await getPrompt(target);
+					return {
+						model: target.model,
+						messages: [...prompt.messages, ...fileReadMessages],
+						systemPrompt: joinSystemBlocks(prompt.systemBlocks) || undefined,
+						systemBlocks: prompt.systemBlocks,
+						promptCaching: this.plugin.settings.promptCaching,
+						...this.getGenerationParams(target),
+						stream: this.plugin.settings.streamingEnabled,
+					};
 				},
-				apiKey,
 				(token: string) => {
 					assistantMsg.content += token;
 					const displayContent = this.getStreamingDisplayContent(assistantMsg.content);
 					messageComponent.updateContent(displayContent);
 					this.chatOutput.scrollTop = this.chatOutput.scrollHeight;
 				},
-				this.abortController?.signal,
+				assistantMsg,
+				messageComponent,
 			);
+			const response = sent.response;
+			targetIndex = sent.index;
+
+			// 使用量を記録（ファイル読み込みラウンドは合算）
+			assistantMsg.usage = sumUsage(assistantMsg.usage, response.usage);
+			messageComponent.updateUsage(assistantMsg.usage);
 
 			// 最終コンテンツを設定（常にフィルタ済みで表示）
 			if (response.content && assistantMsg.content !== response.content) {
@@ -837,8 +1482,8 @@ export class ChatView extends ItemView {
 			// vault_readタグ除去後に空になる場合、プレースホルダーを入れる
 			// （Gemini等、空のmodelメッセージを受け付けないプロバイダー対策）
 			const assistantContent = strippedAssistant || t("chat.readingFiles");
-			currentMessages = [
-				...currentMessages,
+			fileReadMessages = [
+				...fileReadMessages,
 				{ role: "assistant" as const, content: assistantContent },
 				{ role: "user" as const, content: `${t("context.fileContentsProvided")}\n\n${fileContentText}` },
 			];
@@ -853,16 +1498,15 @@ export class ChatView extends ItemView {
 	 * vault_write: ユーザー承認待ち（提案を蓄積してtool_resultで「表示済み」と返す）
 	 */
 	private async callLLMWithToolUse(
-		provider: LLMProvider,
-		chatMessages: Message[],
-		systemPrompt: string,
-		apiKey: string,
+		targets: LLMTarget[],
+		getPrompt: (target: LLMTarget) => Promise<PreparedPrompt>,
 		assistantMsg: MessageData,
 		messageComponent: ChatMessage,
 	): Promise<{ text: string; writeProposals: Array<{path: string, content: string}> }> {
 		const MAX_TOOL_ROUNDS = 5;
 		const writeProposals: Array<{path: string, content: string}> = [];
-		let currentMessages: Message[] = [...chatMessages];
+		const toolRounds: ToolRound[] = [];
+		let targetIndex = 0;
 
 		for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
 			// ループ2回目以降はコンテンツをリセット
@@ -883,25 +1527,38 @@ export class ChatView extends ItemView {
 				...(isVaultScope && hasDataview ? [DATAVIEW_QUERY_TOOL] : []),
 			];
 
-			const response = await sendRequest(
-				provider,
-				{
-					model: this.plugin.settings.activeModel,
-					messages: currentMessages,
-					systemPrompt: systemPrompt || undefined,
-					temperature: this.plugin.settings.temperature,
-					maxTokens: this.plugin.settings.maxTokens,
-					stream: false, // Tool Use はストリーミング不可（requestUrl一括受信）
-					tools,
+			const sent = await this.sendWithFallback(
+				targets,
+				targetIndex,
+				async (target) => {
+					const prompt = await getPrompt(target);
+					return {
+						model: target.model,
+						// 途中でプロバイダーが切り替わっても、その形式で履歴を再構築する
+						messages: [...prompt.messages, ...this.buildToolHistory(target.provider, toolRounds)],
+						systemPrompt: joinSystemBlocks(prompt.systemBlocks) || undefined,
+						systemBlocks: prompt.systemBlocks,
+						promptCaching: this.plugin.settings.promptCaching,
+						...this.getGenerationParams(target),
+						stream: this.plugin.settings.streamingEnabled,
+						tools,
+					};
 				},
-				apiKey,
 				(token: string) => {
 					assistantMsg.content += token;
 					messageComponent.updateContent(assistantMsg.content);
 					this.chatOutput.scrollTop = this.chatOutput.scrollHeight;
 				},
-				this.abortController?.signal,
+				assistantMsg,
+				messageComponent,
 			);
+			const response = sent.response;
+			const provider = sent.target.provider;
+			targetIndex = sent.index;
+
+			// 使用量を記録（Tool Use ラウンドは合算）
+			assistantMsg.usage = sumUsage(assistantMsg.usage, response.usage);
+			messageComponent.updateUsage(assistantMsg.usage);
 
 			// テキスト部分を更新
 			if (response.content) {
@@ -918,17 +1575,6 @@ export class ChatView extends ItemView {
 			// --- Tool Use の処理（プロバイダー非依存） ---
 			messageComponent.updateContent(t("chat.readingFiles"));
 
-			// アシスタントメッセージを会話履歴に追加（プロバイダー固有形式）
-			if (provider.buildAssistantToolUseMessage) {
-				currentMessages.push(
-					provider.buildAssistantToolUseMessage(
-						response.content || "",
-						response.toolUses,
-						response.rawAssistantParts,
-					)
-				);
-			}
-
 			// 各ツールを実行
 			const toolResults: ToolResult[] = [];
 			for (const toolUse of response.toolUses) {
@@ -997,13 +1643,328 @@ export class ChatView extends ItemView {
 				}
 			}
 
-			// ツール実行結果をメッセージとして追加（プロバイダー固有形式）
+			// ラウンドを記録（次回送信時にプロバイダー固有形式へ変換）
+			toolRounds.push({
+				providerId: provider.id,
+				content: response.content || "",
+				toolUses: response.toolUses,
+				rawParts: response.rawAssistantParts,
+				results: toolResults,
+			});
+		}
+
+		return { text: assistantMsg.content, writeProposals };
+	}
+
+	/**
+	 * 呼び出し先の一覧を構築（現在のプロバイダー + 設定のフォールバックチェーン）
+	 * 無効化・未登録・APIキー未設定のプロバイダーは除外
+	 * Tool Use で送信する場合は Tool Use 対応のプロバイダー・モデルにのみ、
+	 * 画像を含む会話では画像入力対応モデルにのみフォールバックする
+	 */
+	private async resolveTargets(primary: LLMTarget, needsVision: boolean, useToolUse: boolean): Promise<LLMTarget[]> {
+		const targets: LLMTarget[] = [primary];
+		for (const entry of this.plugin.settings.fallbackChain) {
+			if (!this.isProviderEnabled(entry.provider)) continue;
+			const provider = this.plugin.providerRegistry.get(entry.provider);
+			if (!provider || !entry.model) continue;
+			const caps = getModelCapabilities(provider, entry.model);
+			if (useToolUse && !caps.tools) continue;
+			if (needsVision && !caps.vision) continue;
+			if (targets.some((x) => x.provider.id === provider.id && x.model === entry.model)) continue;
+			const apiKey = await this.getApiKey(provider);
+			if (provider.requiresApiKey && !apiKey) continue;
+			if (useToolUse && !(await this.plugin.resolveToolSupport(provider, entry.model, apiKey || "", this.abortController?.signal))) continue;
+			targets.push({ provider, model: entry.model, apiKey: apiKey || "" });
+		}
+		return targets;
+	}
+
+	/**
+	 * フォールバックチェーンを順に試してリクエストを送信
+	 * レート制限・過負荷・プロバイダー障害で失敗した場合のみ次の候補に切り替える
+	 * @param startIndex 前ラウンドで応答した候補の位置（切り替え後はそのまま継続）
+	 * @param buildParams 候補ごとのリクエスト（切り替え時に切り替え先のモデルに合わせて組み立てる）
+	 */
+	private async sendWithFallback(
+		targets: LLMTarget[],
+		startIndex: number,
+		buildParams: (target: LLMTarget) => Promise<ChatRequest>,
+		onToken: (token: string) => void,
+		assistantMsg: MessageData,
+		messageComponent: ChatMessage,
+	): Promise<{ response: ChatResponse; target: LLMTarget; index: number }> {
+		// デバッグログ: 切り替え理由を次の候補のリクエストに記録
+		let debugNotes: string[] = [];
+		for (let i = startIndex; ; i++) {
+			const target = targets[i];
+			try {
+				const response = await sendRequest(
+					target.provider,
+					await buildParams(target),
+					target.apiKey,
+					onToken,
+					this.abortController?.signal,
+					{
+						onReasoning: (token: string) => this.appendReasoning(assistantMsg, messageComponent, token),
+						onRetry: (info) => this.showRetryStatus(info),
+						onDebugTrace: (id: string) => this.addDebugTrace(assistantMsg, messageComponent, id),
+						debugNotes,
+					},
+				);
+				await this.recordCost(assistantMsg, target, response.usage);
+				// OpenRouter の models フォールバックでは実際に応答したモデルを表示
+				const model = response.upstreamProvider && response.model ? response.model : target.model;
+				messageComponent.updateModel(target.provider.id, model, response.upstreamProvider);
+				return { response, target, index: i };
+			} catch (err) {
+				const next = targets[i + 1];
+				if (!next || this.abortController?.signal.aborted || !isProviderUnavailableError(err)) throw err;
+				console.warn(`${target.provider.name} (${target.model}) unavailable, falling back:`, err);
+				debugNotes = [`fallback from ${target.provider.id} / ${target.model}: ${err instanceof Error ? err.message : String(err)}`];
+				new Notice(t("notice.fallback", {
+					from: `${target.provider.name} / ${target.model}`,
+					to: `${next.provider.name} / ${next.model}`,
+				}));
+			}
+		}
+	}
+
+	/**
+	 * 記録済みの Tool Use ラウンドを指定プロバイダーの形式で会話履歴に変換
+	 * 生データ（thinking の署名等）は同じプロバイダーで生成されたものだけを引き継ぐ
+	 */
+	private buildToolHistory(provider: LLMProvider, rounds: ToolRound[]): Message[] {
+		const history: Message[] = [];
+		for (const round of rounds) {
+			if (provider.buildAssistantToolUseMessage) {
+				history.push(provider.buildAssistantToolUseMessage(
+					round.content,
+					round.toolUses,
+					round.providerId === provider.id ? round.rawParts : undefined,
+				));
+			}
 			if (provider.buildToolResultMessages) {
-				currentMessages.push(...provider.buildToolResultMessages(toolResults));
+				history.push(...provider.buildToolResultMessages(round.results));
 			}
 		}
+		return history;
+	}
 
-		return { text: assistantMsg.content, writeProposals };
+	/**
+	 * 送信する添付を収集（手動添付の画像・PDF + 設定有効時はアクティブノートの埋め込み画像）
+	 */
+	private collectAttachments(): MessageAttachment[] {
+		const attachments: MessageAttachment[] = this.noteContext.getAttachments().map((entry) => ({
+			type: entry.type,
+			path: entry.file.path,
+			name: entry.file.name,
+			mimeType: entry.mimeType,
+			...(entry.pages !== undefined ? { pages: entry.pages } : {}),
+		}));
+
+		// 埋め込み画像は画像入力対応モデルの場合のみ（非対応モデルで毎回警告しないため）
+		const settings = this.plugin.settings;
+		const provider = this.plugin.providerRegistry.get(settings.activeProvider);
+		const acceptsImages = provider !== undefined && getModelCapabilities(provider, settings.activeModel).vision !== undefined;
+		if (settings.autoAttachEmbeddedImages && acceptsImages) {
+			const activeFile = this.plugin.vaultReader.getActiveFile()
+				?? this.plugin.vaultReader.getMostRecentLeafFile(this.app);
+			if (activeFile) {
+				for (const file of this.plugin.vaultReader.getEmbeddedImages(activeFile)) {
+					const mimeType = getImageMimeType(file.extension);
+					if (!mimeType || attachments.some((a) => a.path === file.path)) continue;
+					attachments.push({ type: "image", path: file.path, name: file.name, mimeType });
+				}
+			}
+		}
+		return attachments;
+	}
+
+	/**
+	 * 表示用メッセージを送信用の Message[] に変換
+	 * 添付は Vault から読み込み、モデルの上限に合わせて調整する:
+	 *   画像: 枚数・サイズ上限を超える分は除外して通知
+	 *   PDF: ネイティブ入力の上限内ならそのまま、それ以外は抽出テキストとして本文に追加
+	 */
+	private async buildChatMessages(messages: MessageData[], target: LLMTarget): Promise<Message[]> {
+		const chatMessages: Message[] = [];
+		const images: Attachment[] = [];
+		const pdfs: Array<{ message: Message; attachment: Attachment; path: string; pages: number; text: string }> = [];
+		for (const m of messages) {
+			const message: Message = { role: m.role as "user" | "assistant", content: m.content };
+			for (const ref of m.attachments ?? []) {
+				const file = this.plugin.vaultReader.getFileByPath(ref.path);
+				if (!file) continue;
+				if (ref.type === "pdf") {
+					const pdf = await this.plugin.vaultReader.readPdf(file);
+					const attachment: Attachment = { type: "pdf", mimeType: ref.mimeType, data: pdf.data, name: ref.name };
+					pdfs.push({ message, attachment, path: ref.path, pages: pdf.pages, text: pdf.text });
+				} else {
+					const data = await this.plugin.vaultReader.readBinaryBase64(file);
+					const attachment: Attachment = { type: "image", mimeType: ref.mimeType, data, name: ref.name };
+					images.push(attachment);
+					(message.attachments ??= []).push(attachment);
+				}
+			}
+			chatMessages.push(message);
+		}
+
+		const caps = getModelCapabilities(target.provider, target.model);
+		if (images.length > 0) {
+			const limits = caps.vision;
+			if (!limits) {
+				new Notice(t("notice.imagesNotSupported", { model: target.model }));
+			}
+			const { kept, oversized, overCount } = applyImageLimits(images, limits);
+			if (limits && oversized.length > 0) {
+				new Notice(t("notice.imagesTooLarge", { names: oversized.join(", ") }));
+			}
+			if (overCount.length > 0) {
+				new Notice(t("notice.imagesTooMany", { max: limits?.maxImages ?? 0, names: overCount.join(", ") }));
+			}
+			for (const message of chatMessages) {
+				if (!message.attachments) continue;
+				message.attachments = message.attachments.filter((a) => kept.has(a));
+				if (message.attachments.length === 0) delete message.attachments;
+			}
+		}
+
+		if (pdfs.length > 0) {
+			const pdfLimits = caps.pdf;
+			const contextWindow = findModelInfo(target.provider.models, target.model)?.contextWindow ?? 128000;
+			let remainingBytes = pdfLimits?.maxBytes ?? 0;
+			let remainingPages = pdfLimits?.maxPages ?? 0;
+			let textBudget = Math.floor(contextWindow * PDF_TEXT_CONTEXT_RATIO);
+			const asText: string[] = [];
+			const truncated: string[] = [];
+			const noText: string[] = [];
+			// 新しいメッセージの PDF を優先してネイティブ送信枠を割り当てる
+			for (const pdf of [...pdfs].reverse()) {
+				const bytes = base64ByteLength(pdf.attachment.data);
+				if (pdfLimits && bytes <= remainingBytes && pdf.pages <= remainingPages) {
+					remainingBytes -= bytes;
+					remainingPages -= pdf.pages;
+					(pdf.message.attachments ??= []).unshift(pdf.attachment);
+					continue;
+				}
+				if (!pdf.text.trim()) {
+					noText.push(pdf.attachment.name);
+					continue;
+				}
+				asText.push(pdf.attachment.name);
+				// ネイティブ非対応/上限超過 → 抽出テキストを本文の前に追加
+				const fitted = truncateToTokens(pdf.text, Math.max(0, textBudget));
+				textBudget -= estimateTokens(fitted.text);
+				if (fitted.truncated) truncated.push(pdf.attachment.name);
+				pdf.message.content = `--- ${pdf.attachment.name} (${pdf.path}) ---\n${fitted.text}${fitted.truncated ? "\n[...]" : ""}\n\n${pdf.message.content}`;
+			}
+			if (asText.length > 0) {
+				new Notice(t("notice.pdfAsText", { model: target.model, names: asText.join(", ") }));
+			}
+			if (truncated.length > 0) {
+				new Notice(t("notice.pdfTruncated", { names: truncated.join(", ") }));
+			}
+			if (noText.length > 0) {
+				new Notice(t("notice.pdfNoText", { names: noText.join(", ") }));
+			}
+		}
+		return chatMessages;
+	}
+
+	/**
+	 * 月間/会話ごとの予算を確認
+	 * @returns 送信を続行してよい場合 true
+	 */
+	private checkBudget(): boolean {
+		const settings = this.plugin.settings;
+		const status = this.plugin.costLedger.checkBudget(this.currentConversationId, {
+			monthly: settings.budgetMonthlyLimit,
+			conversation: settings.budgetConversationLimit,
+			warnRatio: settings.budgetWarnRatio,
+		});
+		if (status.state === "ok" || status.scope === undefined) return true;
+
+		const vars = {
+			spent: formatCost(status.spent ?? 0),
+			limit: formatCost(status.limit ?? 0),
+		};
+		if (status.state === "exceeded") {
+			this.showError(t(`error.budgetExceeded.${status.scope}`, vars));
+			return false;
+		}
+		new Notice(t(`notice.budgetWarning.${status.scope}`, vars), 8000);
+		return true;
+	}
+
+	/**
+	 * 応答1件分のコストを、その応答を返したプロバイダー/モデルで算出してメッセージと台帳に記録
+	 * Tool Use のラウンド・フォールバック・要約でプロバイダーが混在しても応答ごとに正しく計上する
+	 */
+	private async recordCost(assistantMsg: MessageData, target: LLMTarget, usage: TokenUsage | undefined): Promise<void> {
+		if (!usage) return;
+		const pricing = findModelPricing(target.provider.models, target.model);
+		// プロバイダーが返した実際のコスト（OpenRouter）を価格表からの概算より優先
+		const cost = usage.cost ?? (pricing ? calculateCost(usage, pricing) : undefined);
+		if (cost !== undefined) {
+			assistantMsg.cost = (assistantMsg.cost ?? 0) + cost;
+		}
+
+		if (!this.currentConversationId) {
+			this.currentConversationId = this.conversationManager.generateId();
+		}
+		try {
+			await this.plugin.costLedger.record({
+				timestamp: Date.now(),
+				provider: target.provider.id,
+				model: target.model,
+				conversationId: this.currentConversationId,
+				inputTokens: usage.inputTokens,
+				outputTokens: usage.outputTokens,
+				cost: cost ?? 0,
+			});
+		} catch (e) {
+			console.warn("Failed to record cost:", e);
+		}
+	}
+
+	/**
+	 * 送信先の生成パラメータ（全体の設定 + プロバイダー・モデル単位の上書き。推論非対応のモデルには推論を要求しない）
+	 */
+	private getGenerationParams(target: LLMTarget): GenerationParams {
+		const params = resolveGenerationParams(this.plugin.settings, target.provider.id, target.model);
+		if (params.reasoning && !getModelCapabilities(target.provider, target.model).reasoning) {
+			return { ...params, reasoning: undefined };
+		}
+		return params;
+	}
+
+	/** 選択中のモデルの機能（プロバイダー未登録なら undefined） */
+	private getActiveCapabilities(): ModelCapabilities | undefined {
+		const { activeProvider, activeModel } = this.plugin.settings;
+		const provider = this.plugin.providerRegistry.get(activeProvider);
+		return provider ? getModelCapabilities(provider, activeModel) : undefined;
+	}
+
+	/**
+	 * 推論トークンをアシスタントメッセージに追記（Tool Use の複数ラウンドにわたって蓄積）
+	 */
+	private appendReasoning(assistantMsg: MessageData, messageComponent: ChatMessage, token: string): void {
+		assistantMsg.reasoning = (assistantMsg.reasoning ?? "") + token;
+		messageComponent.updateReasoning(assistantMsg.reasoning);
+		this.chatOutput.scrollTop = this.chatOutput.scrollHeight;
+	}
+
+	/**
+	 * デバッグログに記録したリクエストをアシスタントメッセージに関連付け、インスペクターを開けるようにする
+	 */
+	private addDebugTrace(assistantMsg: MessageData, messageComponent: ChatMessage, id: string): void {
+		assistantMsg.debugIds = [...(assistantMsg.debugIds ?? []), id];
+		messageComponent.setInspector(() => this.openInspector(assistantMsg));
+	}
+
+	private openInspector(msg: MessageData): void {
+		new DebugInspectorModal(this.app, this.plugin.debugLog, msg.debugIds ?? []).open();
 	}
 
 	/**
@@ -1045,7 +2006,7 @@ export class ChatView extends ItemView {
 	private async getEmbeddingApiKey(): Promise<string> {
 		if (!this.plugin.settings.ragEmbeddingEnabled) return "";
 		const providerId = this.plugin.settings.ragEmbeddingProvider;
-		if (providerId === "ollama") return "";
+		if (!this.plugin.embeddingProviderRegistry.get(providerId)?.requiresApiKey) return "";
 		if (this.plugin.settings.ragEmbeddingUseSharedKey) {
 			return await this.plugin.secretManager.getApiKey(providerId) ?? "";
 		}
@@ -1488,7 +2449,7 @@ export class ChatView extends ItemView {
 
 	private showGeneratingIndicator(): HTMLElement {
 		const el = this.chatOutput.createDiv({ cls: "llm-generating" });
-		el.createSpan({ text: t("chat.generating") });
+		this.generatingLabelEl = el.createSpan({ text: t("chat.generating") });
 		const dots = el.createDiv({ cls: "llm-generating-dots" });
 		dots.createEl("span");
 		dots.createEl("span");
@@ -1497,6 +2458,24 @@ export class ChatView extends ItemView {
 		return el;
 	}
 
+	/**
+	 * 自動リトライの待機状況を生成中インジケーターに表示
+	 */
+	private showRetryStatus(info: RetryInfo): void {
+		if (!this.generatingLabelEl) return;
+		if (info.remainingMs <= 0) {
+			this.generatingLabelEl.setText(t("chat.generating"));
+			this.generatingLabelEl.removeAttribute("title");
+			return;
+		}
+		this.generatingLabelEl.setText(t("chat.retrying", {
+			seconds: Math.ceil(info.remainingMs / 1000),
+			attempt: info.attempt,
+			max: info.maxAttempts,
+		}));
+		this.generatingLabelEl.setAttribute("title", info.reason);
+	}
+
 	private showRegenerateButton(): void {
 		// 最後のユーザーメッセージを探す
 		const lastUserIndex = this.messages.map(m => m.role).lastIndexOf("user");
@@ -1518,7 +2497,8 @@ export class ChatView extends ItemView {
 			for (let i = 0; i < this.messages.length; i++) {
 				void this.renderMessage(this.messages[i], i);
 			}
-			void this.handleSend(userMsg.content);
+			// 添付は元のメッセージのものを送り直す（送信時に現在の添付は使い切っているため）
+			void this.handleSend(userMsg.content, userMsg.attachments ?? []);
 		});
 	}
 
@@ -1589,7 +2569,27 @@ export class ChatView extends ItemView {
 		const onEdit = (msg.role === "user" && index !== undefined && !this.isGenerating)
 			? () => this.editMessage(index)
 			: undefined;
+		if (msg.candidates) {
+			const { components } = this.renderComparison(msg);
+			for (const [i, candidate] of msg.candidates.entries()) {
+				if (!candidate.content || candidate.failed) continue;
+				const contentEl = components[i].getContentEl();
+				contentEl.empty();
+				await MarkdownRenderer.render(this.app, candidate.content, contentEl, "", this);
+				this.addCodeCopyButtons(contentEl);
+			}
+			this.chatOutput.scrollTop = this.chatOutput.scrollHeight;
+			return;
+		}
+
 		const messageEl = new ChatMessage(this.chatOutput, msg, onEdit);
+		if (msg.role === "assistant" && msg.debugIds && msg.debugIds.length > 0) {
+			messageEl.setInspector(() => this.openInspector(msg));
+		}
+		messageEl.renderAttachments((path) => {
+			const file = this.plugin.vaultReader.getFileByPath(path);
+			return file ? this.plugin.vaultReader.getResourcePath(file) : null;
+		});
 
 		if (msg.role === "assistant" && msg.content) {
 			const contentEl = messageEl.getContentEl();
@@ -1644,6 +2644,8 @@ export class ChatView extends ItemView {
 			createdAt: this.messages[0]?.timestamp || now,
 			updatedAt: now,
 			scope: this.currentScope,
+			...(this.contextSummary ? { contextSummary: this.contextSummary } : {}),
+			usage: this.messages.reduce<TokenUsage | undefined>((total, m) => sumUsage(total, m.usage), undefined),
 		};
 
 		await this.conversationManager.save(conversation);
@@ -1653,6 +2655,7 @@ export class ChatView extends ItemView {
 		this.clearChat();
 		this.currentConversationId = conversation.id;
 		this.messages = [...conversation.messages];
+		this.contextSummary = conversation.contextSummary ?? null;
 
 		// スコープを復元（未保存の古い会話は設定のデフォルトを使用）
 		const savedScope = conversation.scope ?? this.plugin.settings.contextScope ?? "active";
@@ -1675,6 +2678,7 @@ export class ChatView extends ItemView {
 
 	private clearChat(): void {
 		this.messages = [];
+		this.contextSummary = null;
 		this.currentConversationId = null;
 		this.chatOutput.empty();
 		this.noteContext.clear();
@@ -0,0 +1,102 @@
+import { App, Modal, Setting } from "obsidian";
+import type { FallbackTarget } from "../constants";
+import { t } from "../i18n";
+
+/** 比較できるモデル数の上限（列が狭くなりすぎないように） */
+export const MAX_COMPARE_TARGETS = 4;
+
+/**
+ * 比較モードで同時に送信するプロバイダー/モデルの選択モーダル
+ */
+export class CompareModelsModal extends Modal {
+	/** 選択肢（値: "providerId::modelId"） */
+	private options: Array<{ value: string; label: string }>;
+	private selected: string[];
+	private onSubmit: (targets: FallbackTarget[]) => void;
+
+	constructor(
+		app: App,
+		options: Array<{ value: string; label: string }>,
+		initial: FallbackTarget[],
+		onSubmit: (targets: FallbackTarget[]) => void,
+	) {
+		super(app);
+		this.options = options;
+		this.onSubmit = onSubmit;
+		const values = new Set(options.map((o) => o.value));
+		this.selected = initial
+			.map((target) => `${target.provider}::${target.model}`)
+			.filter((value) => values.has(value))
+			.slice(0, MAX_COMPARE_TARGETS);
+		// 2件に満たない場合は先頭から補う
+		for (const option of options) {
+			if (this.selected.length >= 2) break;
+			if (!this.selected.includes(option.value)) this.selected.push(option.value);
+		}
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("llm-compare-modal");
+
+		contentEl.createEl("h3", { text: t("compare.title") });
+		contentEl.createEl("p", { text: t("compare.desc", { max: MAX_COMPARE_TARGETS }), cls: "setting-item-description" });
+
+		for (const [i, value] of this.selected.entries()) {
+			const setting = new Setting(contentEl)
+				.setName(t("compare.column", { n: i + 1 }))
+				.addDropdown((dropdown) => {
+					for (const option of this.options) {
+						dropdown.addOption(option.value, option.label);
+					}
+					dropdown.setValue(value);
+					dropdown.onChange((newValue) => {
+						this.selected[i] = newValue;
+					});
+				});
+			if (this.selected.length > 2) {
+				setting.addExtraButton((btn) => {
+					btn.setIcon("x");
+					btn.setTooltip(t("compare.remove"));
+					btn.onClick(() => {
+						this.selected.splice(i, 1);
+						this.render();
+					});
+				});
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText(t("compare.add"));
+				btn.setDisabled(this.selected.length >= MAX_COMPARE_TARGETS || this.selected.length >= this.options.length);
+				btn.onClick(() => {
+					const next = this.options.find((o) => !this.selected.includes(o.value)) ?? this.options[0];
+					this.selected.push(next.value);
+					this.render();
+				});
+			})
+			.addButton((btn) => {
+				btn.setButtonText(t("compare.start"));
+				btn.setCta();
+				btn.onClick(() => {
+					// 同じモデルの重複は1つにまとめる
+					const targets = [...new Set(this.selected)].map((value) => {
+						const [provider, model] = value.split("::");
+						return { provider, model };
+					});
+					this.onSubmit(targets);
+					this.close();
+				});
+			});
+	}
+}
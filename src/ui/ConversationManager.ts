@@ -1,5 +1,7 @@
 import type { App } from "obsidian";
 import type { MessageData } from "./ChatMessage";
+import type { TokenUsage } from "../llm/LLMProvider";
+import type { ContextSummary } from "../llm/contextBudget";
 import { t } from "../i18n";
 
 export interface Conversation {
@@ -11,6 +13,10 @@ export interface Conversation {
 	createdAt: number;
 	updatedAt: number;
 	scope?: "active" | "local" | "vault";
+	/** 会話全体のトークン使用量（各メッセージの合計） */
+	usage?: TokenUsage;
+	/** コンテキストウィンドウに収めるために省略した古いターンの要約 */
+	contextSummary?: ContextSummary;
 }
 
 interface ConversationIndex {
@@ -0,0 +1,104 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { DebugExchange, DebugLog } from "../llm/debugLog";
+import { t } from "../i18n";
+
+/**
+ * リクエスト/レスポンスのインスペクター
+ * アシスタントメッセージの生成に使った HTTP リクエスト（リトライ・フォールバック・Tool Use の各ラウンド）を順に表示する
+ */
+export class DebugInspectorModal extends Modal {
+	private log: DebugLog;
+	private ids: string[];
+
+	constructor(app: App, log: DebugLog, ids: string[]) {
+		super(app);
+		this.log = log;
+		this.ids = ids;
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass("llm-debug-inspector-modal");
+
+		contentEl.createEl("h3", { text: t("debug.title") });
+
+		const exchanges = await this.log.find(this.ids);
+		if (exchanges.length === 0) {
+			contentEl.createEl("p", { text: t("debug.notFound"), cls: "llm-debug-empty" });
+			return;
+		}
+		if (exchanges.length < this.ids.length) {
+			contentEl.createEl("p", {
+				text: t("debug.partial", { found: exchanges.length, total: this.ids.length }),
+				cls: "llm-debug-empty",
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn.setButtonText(t("debug.copy"));
+				btn.onClick(() => {
+					void navigator.clipboard.writeText(JSON.stringify(exchanges, null, 2)).then(() => {
+						new Notice(t("debug.copied"));
+					});
+				});
+			});
+
+		for (const [i, exchange] of exchanges.entries()) {
+			this.renderExchange(contentEl, exchange, i + 1);
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderExchange(parentEl: HTMLElement, exchange: DebugExchange, n: number): void {
+		const itemEl = parentEl.createDiv({ cls: "llm-debug-exchange" });
+		if (exchange.error) itemEl.addClass("is-error");
+
+		const status = exchange.status !== undefined ? `HTTP ${exchange.status}` : t("debug.noResponse");
+		itemEl.createDiv({
+			cls: "llm-debug-summary",
+			text: `#${n} ${status} · ${exchange.provider} / ${exchange.model} · ${exchange.transport}`,
+		});
+		const timing = [new Date(exchange.timestamp).toLocaleTimeString()];
+		if (exchange.firstByteMs !== undefined) timing.push(t("debug.firstByte", { ms: exchange.firstByteMs }));
+		if (exchange.latencyMs !== undefined) timing.push(t("debug.latency", { ms: exchange.latencyMs }));
+		itemEl.createDiv({ cls: "llm-debug-meta", text: timing.join(" · ") });
+		itemEl.createDiv({ cls: "llm-debug-url", text: `POST ${exchange.url}` });
+
+		if (exchange.notes.length > 0) {
+			const notesEl = itemEl.createEl("ul", { cls: "llm-debug-notes" });
+			for (const note of exchange.notes) notesEl.createEl("li", { text: note });
+		}
+		if (exchange.error) {
+			itemEl.createDiv({ cls: "llm-debug-error", text: exchange.error });
+		}
+
+		this.renderSection(itemEl, t("debug.requestHeaders"), JSON.stringify(exchange.headers, null, 2));
+		this.renderSection(itemEl, t("debug.requestBody"), JSON.stringify(exchange.requestBody, null, 2));
+		if (exchange.events && exchange.events.length > 0) {
+			this.renderSection(itemEl, t("debug.events", { count: exchange.events.length }), exchange.events.join("\n"));
+		}
+		if (exchange.response) {
+			this.renderSection(itemEl, t("debug.response"), formatJson(exchange.response));
+		}
+	}
+
+	private renderSection(parentEl: HTMLElement, title: string, text: string): void {
+		const details = parentEl.createEl("details", { cls: "llm-debug-section" });
+		details.createEl("summary", { text: title });
+		details.createEl("pre").createEl("code", { text });
+	}
+}
+
+/** JSON として読めるレスポンスは整形して表示 */
+function formatJson(text: string): string {
+	try {
+		return JSON.stringify(JSON.parse(text), null, 2);
+	} catch {
+		return text;
+	}
+}
@@ -9,13 +9,16 @@ export class FilePickerModal extends FuzzySuggestModal<TFile> {
 	private onChoose: (file: TFile) => void;
 	private files: TFile[];
 
-	constructor(app: App, onChoose: (file: TFile) => void) {
+	/**
+	 * @param files 候補ファイル（省略時は全マークダウンファイル）
+	 */
+	constructor(app: App, onChoose: (file: TFile) => void, files?: TFile[], placeholder?: string) {
 		super(app);
 		this.onChoose = onChoose;
-		this.files = app.vault.getMarkdownFiles().sort((a, b) =>
+		this.files = (files ?? app.vault.getMarkdownFiles()).sort((a, b) =>
 			a.path.localeCompare(b.path)
 		);
-		this.setPlaceholder(t("filePicker.placeholder"));
+		this.setPlaceholder(placeholder ?? t("filePicker.placeholder"));
 	}
 
 	getItems(): TFile[] {
@@ -0,0 +1,215 @@
+import { Setting } from "obsidian";
+import type LLMAssistantPlugin from "../main";
+import type { SamplingParam } from "../llm/LLMProvider";
+import { acceptsParam, getModelCapabilities, type ModelCapabilities } from "../llm/capabilities";
+import {
+	generationOverrideKey,
+	hasGenerationOverrides,
+	parseOverrideValue,
+	resolveGenerationParams,
+	type GenerationOverrides,
+	type GenerationParams,
+	type NumericOverrideField,
+} from "../llm/generationParams";
+import { t } from "../i18n";
+
+const REASONING_LABELS: Record<"off" | "low" | "medium" | "high", string> = {
+	off: "settings.reasoningOff",
+	low: "settings.reasoningLow",
+	medium: "settings.reasoningMedium",
+	high: "settings.reasoningHigh",
+};
+
+/**
+ * 生成パラメータの上書きを編集するポップオーバー（チャット画面のモデル選択の横）
+ * 空欄の項目は上位（モデル → プロバイダー → 全体の設定）の値を使う
+ */
+export class GenerationParamsPopover {
+	private plugin: LLMAssistantPlugin;
+	private onChange: () => void;
+	private el: HTMLElement | null = null;
+	private anchorEl: HTMLElement | null = null;
+	private providerId = "";
+	private modelId = "";
+	/** 編集対象（モデル単位 / プロバイダー単位） */
+	private scope: "model" | "provider" = "model";
+
+	private onDocumentClick = (evt: MouseEvent): void => {
+		const target = evt.target as Node;
+		if (this.el?.contains(target) || this.anchorEl?.contains(target)) return;
+		this.close();
+	};
+
+	constructor(plugin: LLMAssistantPlugin, onChange: () => void) {
+		this.plugin = plugin;
+		this.onChange = onChange;
+	}
+
+	get isOpen(): boolean {
+		return this.el !== null;
+	}
+
+	/**
+	 * ポップオーバーを開く
+	 * @param parentEl 配置先（position: relative の要素）
+	 * @param anchorEl 開いたボタン（ボタン自体のクリックでは閉じない）
+	 * @param top 配置先の上端からの位置（px）
+	 */
+	open(parentEl: HTMLElement, anchorEl: HTMLElement, top: number, providerId: string, modelId: string): void {
+		this.close();
+		this.anchorEl = anchorEl;
+		this.providerId = providerId;
+		this.modelId = modelId;
+		this.scope = "model";
+		this.el = parentEl.createDiv({ cls: "llm-params-popover" });
+		this.el.style.setProperty("--llm-params-popover-top", `${top}px`);
+		this.el.addEventListener("keydown", (evt) => {
+			if (evt.key === "Escape") this.close();
+		});
+		document.addEventListener("mousedown", this.onDocumentClick);
+		this.render();
+	}
+
+	close(): void {
+		document.removeEventListener("mousedown", this.onDocumentClick);
+		this.el?.remove();
+		this.el = null;
+		this.anchorEl = null;
+	}
+
+	private get key(): string {
+		return this.scope === "model"
+			? generationOverrideKey(this.providerId, this.modelId)
+			: generationOverrideKey(this.providerId);
+	}
+
+	private get overrides(): GenerationOverrides {
+		return this.plugin.settings.generationOverrides[this.key] ?? {};
+	}
+
+	/** 編集中の上書きを除いた値（空欄時に使われる値。プレースホルダーに表示） */
+	private getInherited(): GenerationParams {
+		const { [this.key]: _current, ...rest } = this.plugin.settings.generationOverrides;
+		return resolveGenerationParams({ ...this.plugin.settings, generationOverrides: rest }, this.providerId, this.modelId);
+	}
+
+	private update<K extends keyof GenerationOverrides>(field: K, value: GenerationOverrides[K]): void {
+		const overrides: GenerationOverrides = { ...this.overrides, [field]: value };
+		if (value === undefined) delete overrides[field];
+		const all = this.plugin.settings.generationOverrides;
+		if (hasGenerationOverrides(overrides)) {
+			all[this.key] = overrides;
+		} else {
+			delete all[this.key];
+		}
+		void this.plugin.saveSettings();
+		this.onChange();
+	}
+
+	private render(): void {
+		const el = this.el;
+		if (!el) return;
+		el.empty();
+
+		const provider = this.plugin.providerRegistry.get(this.providerId);
+		const caps = provider ? getModelCapabilities(provider, this.modelId) : undefined;
+		const inherited = this.getInherited();
+		const overrides = this.overrides;
+
+		el.createDiv({ cls: "llm-params-popover-title", text: t("params.title") });
+
+		new Setting(el)
+			.setName(t("params.scope"))
+			.addDropdown((dropdown) => {
+				dropdown.addOption("model", t("params.scopeModel", { name: this.modelId }));
+				dropdown.addOption("provider", t("params.scopeProvider", { name: provider?.name ?? this.providerId }));
+				dropdown.setValue(this.scope);
+				dropdown.onChange((value) => {
+					this.scope = value as "model" | "provider";
+					this.render();
+				});
+			});
+
+		this.addNumberField(el, "temperature", t("params.temperature"), inherited.temperature, caps, "temperature");
+		this.addNumberField(el, "maxTokens", t("params.maxTokens"), inherited.maxTokens, caps);
+		this.addNumberField(el, "topP", t("params.topP"), inherited.topP, caps, "top_p");
+		this.addNumberField(el, "topK", t("params.topK"), inherited.topK, caps, "top_k");
+
+		const stopSupported = !caps || acceptsParam(caps, "stop");
+		new Setting(el)
+			.setName(t("params.stop"))
+			.setDesc(stopSupported ? "" : t("params.unsupported"))
+			.addTextArea((text) => {
+				text.inputEl.rows = 2;
+				text.setPlaceholder(inherited.stop?.join("\n") ?? t("params.stopPlaceholder"));
+				text.setValue(overrides.stop?.join("\n") ?? "");
+				text.setDisabled(!stopSupported);
+				text.onChange((value) => {
+					const stop = value.split("\n").filter((line) => line.length > 0);
+					this.update("stop", stop.length > 0 ? stop : undefined);
+				});
+			});
+
+		const reasoningSupported = !caps || caps.reasoning;
+		new Setting(el)
+			.setName(t("params.reasoning"))
+			.setDesc(reasoningSupported ? "" : t("params.unsupported"))
+			.addDropdown((dropdown) => {
+				const current = inherited.reasoning?.effort ?? "off";
+				dropdown.addOption("", t("params.inherit", { value: t(REASONING_LABELS[current]) }));
+				for (const [value, label] of Object.entries(REASONING_LABELS)) {
+					dropdown.addOption(value, t(label));
+				}
+				dropdown.setValue(overrides.reasoningEffort ?? "");
+				dropdown.setDisabled(!reasoningSupported);
+				dropdown.onChange((value) => {
+					this.update("reasoningEffort", value ? value as GenerationOverrides["reasoningEffort"] : undefined);
+				});
+			});
+		if (reasoningSupported) {
+			this.addNumberField(el, "reasoningBudget", t("params.reasoningBudget"), inherited.reasoning?.budgetTokens, caps);
+		}
+
+		this.addNumberField(el, "seed", t("params.seed"), inherited.seed, caps, "seed");
+
+		new Setting(el)
+			.setDesc(t("params.desc"))
+			.addButton((btn) => {
+				btn.setButtonText(t("params.reset"));
+				btn.setDisabled(!hasGenerationOverrides(overrides));
+				btn.onClick(() => {
+					delete this.plugin.settings.generationOverrides[this.key];
+					void this.plugin.saveSettings();
+					this.onChange();
+					this.render();
+				});
+			});
+	}
+
+	/**
+	 * 数値の入力欄（空欄・範囲外の値 = 上書きしない。モデルが受け付けないパラメータは無効化）
+	 */
+	private addNumberField(
+		el: HTMLElement,
+		field: NumericOverrideField,
+		name: string,
+		inherited: number | undefined,
+		caps: ModelCapabilities | undefined,
+		param?: SamplingParam,
+	): void {
+		const supported = !caps || !param || acceptsParam(caps, param);
+		const value = this.overrides[field];
+		new Setting(el)
+			.setName(name)
+			.setDesc(supported ? "" : t("params.unsupported"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text.setPlaceholder(inherited !== undefined ? String(inherited) : t("params.default"));
+				text.setValue(value !== undefined ? String(value) : "");
+				text.setDisabled(!supported);
+				text.onChange((input) => {
+					this.update(field, parseOverrideValue(field, input));
+				});
+			});
+	}
+}
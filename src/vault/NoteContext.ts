@@ -2,6 +2,7 @@ import type { TFile } from "obsidian";
 import type { VaultReader } from "./VaultReader";
 import { estimateTokens, formatTokenCount } from "../utils/TokenCounter";
 import { t } from "../i18n";
+import { PDF_MIME_TYPE, getImageMimeType } from "../llm/attachments";
 
 export interface ContextEntry {
 	file: TFile;
@@ -9,11 +10,25 @@ export interface ContextEntry {
 	tokens: number;
 }
 
+export interface AttachmentContextEntry {
+	file: TFile;
+	type: "image" | "pdf";
+	mimeType: string;
+	/** base64 */
+	data: string;
+	/** PDF: ページ数 */
+	pages?: number;
+	/** PDF: 抽出テキストの推定トークン数（ネイティブ非対応モデルではテキストで送信） */
+	tokens?: number;
+}
+
 /**
  * LLMに送信するコンテキストを構築・管理するクラス
  */
 export class NoteContext {
 	private entries: ContextEntry[] = [];
+	/** 添付の画像・PDF（次の送信で1回だけ使用） */
+	private attachments: AttachmentContextEntry[] = [];
 	private vaultReader: VaultReader;
 	private tokenLimit: number;
 
@@ -44,11 +59,50 @@ export class NoteContext {
 		return entry;
 	}
 
+	/**
+	 * 画像をコンテキストに追加（非対応形式・重複は null）
+	 */
+	async addImage(file: TFile): Promise<AttachmentContextEntry | null> {
+		const mimeType = getImageMimeType(file.extension);
+		if (!mimeType || this.hasAttachment(file.path)) {
+			return null;
+		}
+		const data = await this.vaultReader.readBinaryBase64(file);
+		const entry: AttachmentContextEntry = { file, type: "image", mimeType, data };
+		this.attachments.push(entry);
+		return entry;
+	}
+
+	/**
+	 * PDFをコンテキストに追加（重複・トークン上限超過は null）
+	 * トークン数は抽出テキストから概算する
+	 */
+	async addPdf(file: TFile): Promise<AttachmentContextEntry | null> {
+		if (file.extension.toLowerCase() !== "pdf" || this.hasAttachment(file.path)) {
+			return null;
+		}
+		const pdf = await this.vaultReader.readPdf(file);
+		const tokens = estimateTokens(pdf.text);
+		if (this.getTotalTokens() + tokens > this.tokenLimit) {
+			return null;
+		}
+		const entry: AttachmentContextEntry = {
+			file, type: "pdf", mimeType: PDF_MIME_TYPE, data: pdf.data, pages: pdf.pages, tokens,
+		};
+		this.attachments.push(entry);
+		return entry;
+	}
+
+	private hasAttachment(filePath: string): boolean {
+		return this.attachments.some((e) => e.file.path === filePath);
+	}
+
 	/**
 	 * ファイルをコンテキストから削除
 	 */
 	removeFile(filePath: string): void {
 		this.entries = this.entries.filter((e) => e.file.path !== filePath);
+		this.attachments = this.attachments.filter((e) => e.file.path !== filePath);
 	}
 
 	/**
@@ -56,6 +110,21 @@ export class NoteContext {
 	 */
 	clear(): void {
 		this.entries = [];
+		this.attachments = [];
+	}
+
+	/**
+	 * 添付の画像・PDFを取得
+	 */
+	getAttachments(): AttachmentContextEntry[] {
+		return [...this.attachments];
+	}
+
+	/**
+	 * 添付の画像・PDFをクリア（送信後）
+	 */
+	clearAttachments(): void {
+		this.attachments = [];
 	}
 
 	/**
@@ -82,7 +151,8 @@ export class NoteContext {
 	 * 合計トークン数を取得
 	 */
 	getTotalTokens(): number {
-		return this.entries.reduce((sum, e) => sum + e.tokens, 0);
+		const noteTokens = this.entries.reduce((sum, e) => sum + e.tokens, 0);
+		return this.attachments.reduce((sum, e) => sum + (e.tokens ?? 0), noteTokens);
 	}
 
 	/**
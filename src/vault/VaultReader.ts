@@ -1,4 +1,5 @@
-import { App, MarkdownView, TFile, TFolder, WorkspaceLeaf } from "obsidian";
+import { App, MarkdownView, TFile, TFolder, WorkspaceLeaf, arrayBufferToBase64, getLinkpath, loadPdfJs } from "obsidian";
+import { getImageMimeType } from "../llm/attachments";
 
 export interface FileContent {
 	path: string;
@@ -32,12 +33,35 @@ export interface VaultListResult {
 	hasMore: boolean;
 }
 
+export interface PdfContent {
+	/** base64 */
+	data: string;
+	pages: number;
+	/** 抽出テキスト（ページ間は空行区切り） */
+	text: string;
+}
+
+/** Obsidian 同梱の pdf.js のうち使用する部分 */
+interface PdfJsLib {
+	getDocument(src: { data: Uint8Array }): { promise: Promise<PdfJsDocument> };
+}
+
+interface PdfJsDocument {
+	numPages: number;
+	getPage(pageNumber: number): Promise<{
+		getTextContent(): Promise<{ items: Array<{ str?: string }> }>;
+	}>;
+	destroy(): Promise<void>;
+}
+
 /**
  * Vault読み取りクラス
  * app.vault APIを使用してファイル操作を行う（Node.js fs禁止）
  */
 export class VaultReader {
 	private app: App;
+	/** PDF抽出テキストのキャッシュ（path → mtime 時点の結果） */
+	private pdfTextCache: Map<string, { mtime: number; pages: number; text: string }> = new Map();
 
 	constructor(app: App) {
 		this.app = app;
@@ -64,6 +88,81 @@ export class VaultReader {
 		return this.app.vault.cachedRead(file);
 	}
 
+	/**
+	 * バイナリファイルを base64 で読み取り（画像添付用）
+	 */
+	async readBinaryBase64(file: TFile): Promise<string> {
+		return arrayBufferToBase64(await this.app.vault.readBinary(file));
+	}
+
+	/**
+	 * PDFを読み込み、base64・ページ数・抽出テキストを取得
+	 * テキスト抽出は重いため更新日時が変わるまでキャッシュする
+	 */
+	async readPdf(file: TFile): Promise<PdfContent> {
+		const buffer = await this.app.vault.readBinary(file);
+		const data = arrayBufferToBase64(buffer);
+
+		const cached = this.pdfTextCache.get(file.path);
+		if (cached && cached.mtime === file.stat.mtime) {
+			return { data, pages: cached.pages, text: cached.text };
+		}
+
+		const pdfjs = (await loadPdfJs()) as PdfJsLib;
+		const doc = await pdfjs.getDocument({ data: new Uint8Array(buffer.slice(0)) }).promise;
+		const pageTexts: string[] = [];
+		try {
+			for (let i = 1; i <= doc.numPages; i++) {
+				const page = await doc.getPage(i);
+				const content = await page.getTextContent();
+				pageTexts.push(content.items.map((item) => item.str ?? "").join(" ").trim());
+			}
+		} finally {
+			await doc.destroy();
+		}
+
+		const result = { mtime: file.stat.mtime, pages: doc.numPages, text: pageTexts.join("\n\n") };
+		this.pdfTextCache.set(file.path, result);
+		return { data, pages: result.pages, text: result.text };
+	}
+
+	/**
+	 * Vault内のPDFファイルを取得
+	 */
+	getPdfFiles(): TFile[] {
+		return this.app.vault.getFiles().filter((f) => f.extension.toLowerCase() === "pdf");
+	}
+
+	/**
+	 * 表示用のリソースURLを取得（サムネイル等）
+	 */
+	getResourcePath(file: TFile): string {
+		return this.app.vault.getResourcePath(file);
+	}
+
+	/**
+	 * Vault内の送信可能な画像ファイルを取得
+	 */
+	getImageFiles(): TFile[] {
+		return this.app.vault.getFiles().filter((f) => getImageMimeType(f.extension) !== undefined);
+	}
+
+	/**
+	 * ノートに埋め込まれた画像（![[image.png]]）を取得
+	 */
+	getEmbeddedImages(file: TFile): TFile[] {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache || !cache.embeds) return [];
+		const images: TFile[] = [];
+		for (const embed of cache.embeds) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), file.path);
+			if (target && getImageMimeType(target.extension) && !images.includes(target)) {
+				images.push(target);
+			}
+		}
+		return images;
+	}
+
 	/**
 	 * パスからファイルを取得
 	 */
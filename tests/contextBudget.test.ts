@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { computeBudget, estimateMessageTokens, fitToContext, hasTrimmed, toSystemBlocks, type ContextPart, type HistoryEntry } from "../src/llm/contextBudget";
+
+/** 100 トークン相当のテキスト（英語は約4文字 = 1トークン） */
+const TEXT = "a".repeat(400);
+
+// 各メッセージ 104 トークン（オーバーヘッド込み）、計 520
+const HISTORY: HistoryEntry[] = [
+	{ role: "user", content: TEXT },
+	{ role: "assistant", content: TEXT },
+	{ role: "user", content: TEXT },
+	{ role: "assistant", content: TEXT },
+	{ role: "user", content: TEXT },
+];
+
+// 各 100 トークン、計 400
+const PARTS: ContextPart[] = [
+	{ block: 0, kind: "fixed", text: TEXT },
+	{ block: 1, kind: "linked", text: TEXT, label: "Linked", header: "## Linked notes" },
+	{ block: 2, kind: "rag", text: TEXT, label: "RAG A", header: "## Related notes" },
+	{ block: 2, kind: "rag", text: TEXT, label: "RAG B", header: "## Related notes" },
+];
+
+describe("computeBudget", () => {
+	it("安全率を掛けたコンテキストウィンドウから応答・ツール定義の分を除く", () => {
+		expect(computeBudget(100_000, 4096, false)).toBe(90_000 - 4096);
+		expect(computeBudget(100_000, 4096, true)).toBe(90_000 - 4096 - 2000);
+		expect(computeBudget(4000, 8000, false)).toBe(0);
+	});
+});
+
+describe("estimateMessageTokens", () => {
+	it("画像・PDF の添付を含めて概算する", () => {
+		expect(estimateMessageTokens({ role: "user", content: TEXT })).toBe(104);
+		expect(estimateMessageTokens({
+			role: "user",
+			content: TEXT,
+			attachments: [{ type: "image" }, { type: "pdf", pages: 2 }, { type: "pdf" }],
+		})).toBe(104 + 1600 + 2 * 1500 + 3 * 1500);
+	});
+});
+
+describe("fitToContext", () => {
+	it("予算内なら何も削らない", () => {
+		const fit = fitToContext(HISTORY, PARTS, 1000);
+		expect(fit.start).toBe(0);
+		expect(fit.parts).toEqual(PARTS);
+		expect(hasTrimmed(fit.trim)).toBe(false);
+		expect(fit.trim.estimatedTokens).toBe(920);
+	});
+
+	it("まず古い会話ターンをユーザーメッセージ単位で削る", () => {
+		const fit = fitToContext(HISTORY, PARTS, 900);
+		expect(fit.start).toBe(2);
+		expect(fit.trim).toMatchObject({ messages: 2, rag: [], linked: [], estimatedTokens: 712 });
+		expect(fit.parts).toHaveLength(4);
+	});
+
+	it("最後のユーザーメッセージは残し、次に RAG 検索結果を後ろから削る", () => {
+		const fit = fitToContext(HISTORY, PARTS, 500);
+		expect(fit.start).toBe(4);
+		expect(fit.trim).toMatchObject({ messages: 4, rag: ["RAG B"], linked: [], estimatedTokens: 404 });
+		expect(fit.parts.map((p) => p.label)).toEqual([undefined, "Linked", "RAG A"]);
+	});
+
+	it("RAG 検索結果を全て削ってからリンク先ノートを削る", () => {
+		const fit = fitToContext(HISTORY, PARTS, 250);
+		expect(fit.trim).toMatchObject({ rag: ["RAG A", "RAG B"], linked: ["Linked"], estimatedTokens: 204 });
+		expect(fit.trim.overBudget).toBeUndefined();
+		expect(fit.parts.map((p) => p.kind)).toEqual(["fixed"]);
+	});
+
+	it("削れるものを全て削っても超える場合は overBudget", () => {
+		const fit = fitToContext(HISTORY, PARTS, 100);
+		expect(fit.trim.overBudget).toBe(true);
+		expect(hasTrimmed(fit.trim)).toBe(true);
+		expect(fit.parts.map((p) => p.kind)).toEqual(["fixed"]);
+	});
+});
+
+describe("toSystemBlocks", () => {
+	it("見出しは最初の要素の前にだけ出力し、前の2ブロックをキャッシュ対象にする", () => {
+		const blocks = toSystemBlocks([
+			{ block: 0, kind: "fixed", text: "instructions" },
+			{ block: 2, kind: "rag", text: "A", header: "## Related notes" },
+			{ block: 2, kind: "rag", text: "B", header: "## Related notes" },
+		]);
+		expect(blocks).toEqual([
+			{ text: "instructions", cache: true },
+			{ text: "", cache: true },
+			{ text: "## Related notes\n\nA\n\nB" },
+		]);
+	});
+
+	it("全て削った見出しは出力しない", () => {
+		const fit = fitToContext(HISTORY, PARTS, 250);
+		expect(toSystemBlocks(fit.parts)[2].text).not.toContain("## Related notes");
+	});
+});
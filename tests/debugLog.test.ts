@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { App } from "obsidian";
+import { DebugLog, redactHeaders, redactSecrets, redactUrl } from "../src/llm/debugLog";
+
+const API_KEY = "sk-test-0123456789abcdef";
+
+describe("redactUrl", () => {
+	it("Gemini の ?key= をマスクする", () => {
+		const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:streamGenerateContent?alt=sse&key=${API_KEY}`;
+		const redacted = redactUrl(url);
+		expect(redacted).not.toContain(API_KEY);
+		expect(redacted).toContain("alt=sse");
+		expect(redacted).toContain("key=[redacted]");
+	});
+
+	it("任意名のクエリパラメータに含まれる秘密の値をマスクする", () => {
+		const redacted = redactUrl(`https://gateway.example.com/v1?subscription=${API_KEY}`, [API_KEY]);
+		expect(redacted).toBe("https://gateway.example.com/v1?subscription=[redacted]");
+	});
+});
+
+describe("redactHeaders", () => {
+	it("認証用の名前のヘッダーはスキーム名を残してマスクする", () => {
+		expect(redactHeaders({ Authorization: `Bearer ${API_KEY}`, "Content-Type": "application/json" })).toEqual({
+			Authorization: "Bearer [redacted]",
+			"Content-Type": "application/json",
+		});
+	});
+
+	it("任意名の認証ヘッダーは値が秘密の値ならマスクする", () => {
+		const headers = {
+			"Ocp-Apim-Subscription-Key": API_KEY,
+			"X-Gateway-Auth": "gw-secret-value",
+			"X-Flag": "1",
+			"anthropic-version": "2023-06-01",
+		};
+		expect(redactHeaders(headers, [API_KEY, "gw-secret-value", "1"])).toEqual({
+			"Ocp-Apim-Subscription-Key": "[redacted]",
+			"X-Gateway-Auth": "[redacted]",
+			"X-Flag": "[redacted]",
+			"anthropic-version": "2023-06-01",
+		});
+	});
+});
+
+describe("redactSecrets", () => {
+	it("短い値は本文中ではマスクしない", () => {
+		expect(redactSecrets("count: 1", ["1"])).toBe("count: 1");
+	});
+});
+
+describe("DebugLog.begin", () => {
+	it("URL・ヘッダー・ボディ・レスポンス・エラーの全てから秘密の値を除く", () => {
+		const log = new DebugLog({} as App);
+		const trace = log.begin({
+			provider: "custom-1",
+			model: "m",
+			transport: "requestUrl",
+			url: `https://example.com/v1/chat?token=${API_KEY}`,
+			headers: { "X-Gateway-Auth": API_KEY },
+			body: { messages: [{ role: "user", content: `my key is ${API_KEY}` }] },
+			secrets: [API_KEY],
+		});
+		trace.response(`{"error":"invalid key ${API_KEY}"}`);
+		trace.event(`data: {"echo":"${API_KEY}"}`);
+		trace.error(new Error(`rejected ${API_KEY}`));
+		expect(JSON.stringify(trace.exchange)).not.toContain(API_KEY);
+	});
+});
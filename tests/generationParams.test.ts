@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { parseOverrideValue } from "../src/llm/generationParams";
+
+describe("parseOverrideValue", () => {
+	it("空欄・数値でない入力は上書きしない", () => {
+		expect(parseOverrideValue("temperature", "")).toBeUndefined();
+		expect(parseOverrideValue("maxTokens", "abc")).toBeUndefined();
+	});
+
+	it("temperature は 0〜2、topP は 0〜1", () => {
+		expect(parseOverrideValue("temperature", "0")).toBe(0);
+		expect(parseOverrideValue("temperature", "1.5")).toBe(1.5);
+		expect(parseOverrideValue("temperature", "-0.1")).toBeUndefined();
+		expect(parseOverrideValue("temperature", "3")).toBeUndefined();
+		expect(parseOverrideValue("topP", "0.9")).toBe(0.9);
+		expect(parseOverrideValue("topP", "1.2")).toBeUndefined();
+	});
+
+	it("maxTokens・topK・reasoningBudget は正の整数", () => {
+		expect(parseOverrideValue("maxTokens", "4096")).toBe(4096);
+		expect(parseOverrideValue("maxTokens", "-1")).toBeUndefined();
+		expect(parseOverrideValue("topK", "0")).toBeUndefined();
+		expect(parseOverrideValue("topK", "2.5")).toBeUndefined();
+		expect(parseOverrideValue("reasoningBudget", "0")).toBeUndefined();
+		expect(parseOverrideValue("reasoningBudget", "8000")).toBe(8000);
+	});
+
+	it("seed は整数", () => {
+		expect(parseOverrideValue("seed", "42")).toBe(42);
+		expect(parseOverrideValue("seed", "0")).toBe(0);
+		expect(parseOverrideValue("seed", "1.5")).toBeUndefined();
+	});
+});
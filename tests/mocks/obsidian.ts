@@ -0,0 +1,7 @@
+/**
+ * テスト用の obsidian モジュール
+ * 通信は各テストで vi.mock("obsidian", ...) により差し替える
+ */
+export function requestUrl(): never {
+	throw new Error("requestUrl is not available in tests");
+}
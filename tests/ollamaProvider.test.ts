@@ -0,0 +1,23 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("obsidian", () => ({ Platform: { isDesktop: true }, requestUrl: vi.fn() }));
+
+const { OllamaProvider } = await import("../src/llm/OllamaProvider");
+
+describe("OllamaProvider.configure", () => {
+	const contextWindow = (provider: InstanceType<typeof OllamaProvider>, id: string) =>
+		provider.models.find((m) => m.id === id)?.contextWindow;
+
+	it("num_ctx を変更・解除するとモデル本来のコンテキスト長から計算し直す", () => {
+		const provider = new OllamaProvider();
+		provider.configure({ numCtx: 8192, keepAlive: "" });
+		expect(contextWindow(provider, "llama3.3")).toBe(8192);
+
+		provider.configure({ numCtx: 32768, keepAlive: "" });
+		expect(contextWindow(provider, "llama3.3")).toBe(32768);
+		expect(contextWindow(provider, "phi4")).toBe(16384);
+
+		provider.configure({ numCtx: 0, keepAlive: "" });
+		expect(contextWindow(provider, "llama3.3")).toBe(128000);
+	});
+});
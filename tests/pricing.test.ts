@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import type { ModelInfo } from "../src/llm/LLMProvider";
+import { calculateCost, findModelPricing, formatCost } from "../src/llm/pricing";
+
+const MODELS: ModelInfo[] = [
+	{ id: "gpt-5", name: "GPT-5", contextWindow: 400000, pricing: { input: 1.25, output: 10 } },
+	{ id: "gpt-5.4", name: "GPT-5.4", contextWindow: 1050000, pricing: { input: 2.5, output: 15, cacheRead: 0.25 } },
+	{ id: "gpt-5.4-mini", name: "GPT-5.4 Mini", contextWindow: 400000, pricing: { input: 0.75, output: 4.5 } },
+	{ id: "claude-sonnet-4-6", name: "Claude Sonnet 4.6", contextWindow: 200000, pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 } },
+	{ id: "local-model", name: "Local", contextWindow: 8192 },
+];
+
+describe("findModelPricing", () => {
+	it("完全一致のモデルの価格を返す", () => {
+		expect(findModelPricing(MODELS, "gpt-5.4-mini")).toEqual({ input: 0.75, output: 4.5 });
+	});
+
+	it("日付付きスナップショットは元のモデルの価格を返す", () => {
+		expect(findModelPricing(MODELS, "claude-sonnet-4-6-20260101")?.input).toBe(3);
+		expect(findModelPricing(MODELS, "gpt-5.4-2026-03-05")?.input).toBe(2.5);
+		expect(findModelPricing(MODELS, "gpt-5.4-mini-2026-03-17")?.input).toBe(0.75);
+	});
+
+	it("別のモデルを前方一致で同じ価格とみなさない", () => {
+		expect(findModelPricing(MODELS, "gpt-5.3")).toBeUndefined();
+		expect(findModelPricing(MODELS, "gpt-5-mini")).toBeUndefined();
+		expect(findModelPricing(MODELS, "gpt-5.4-pro")).toBeUndefined();
+	});
+
+	it("価格情報のないモデルは undefined", () => {
+		expect(findModelPricing(MODELS, "local-model")).toBeUndefined();
+		expect(findModelPricing(MODELS, "unknown")).toBeUndefined();
+	});
+});
+
+describe("calculateCost", () => {
+	it("入力・出力を 1M トークンあたりの単価で計算する", () => {
+		expect(calculateCost({ inputTokens: 1_000_000, outputTokens: 100_000 }, { input: 3, output: 15 })).toBeCloseTo(4.5);
+	});
+
+	it("キャッシュ読み込み・書き込み分はそれぞれの単価で計算する", () => {
+		const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 600_000, cacheWriteTokens: 200_000 };
+		// 未キャッシュ 200k × 3 + 読み込み 600k × 0.3 + 書き込み 200k × 3.75
+		expect(calculateCost(usage, { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 })).toBeCloseTo(0.6 + 0.18 + 0.75);
+	});
+
+	it("キャッシュの単価がなければ入力の単価で計算する", () => {
+		const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 500_000 };
+		expect(calculateCost(usage, { input: 2, output: 8 })).toBeCloseTo(2);
+	});
+});
+
+describe("formatCost", () => {
+	it("少額は4桁、それ以外は2桁で表示する", () => {
+		expect(formatCost(0)).toBe("$0");
+		expect(formatCost(0.00123)).toBe("$0.0012");
+		expect(formatCost(1.234)).toBe("$1.23");
+	});
+});
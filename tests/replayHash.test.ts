@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { ChatRequest } from "../src/llm/LLMProvider";
+import { hashRequest, normalizeRequest } from "../src/llm/ReplayProvider";
+
+const BASE: ChatRequest = {
+	model: "gpt-5.4",
+	systemPrompt: "You are a helpful assistant.",
+	messages: [{ role: "user", content: "Hello" }],
+	temperature: 0.7,
+	maxTokens: 1024,
+};
+
+describe("normalizeRequest", () => {
+	it("キー順を揃え、undefined の項目を除く", () => {
+		const normalized = normalizeRequest(BASE);
+		expect(Object.keys(normalized)).toEqual(["maxTokens", "messages", "model", "systemPrompt", "temperature"]);
+		expect(JSON.stringify(normalized)).not.toContain("rawContent");
+	});
+
+	it("長い添付データは長さと両端で識別する", () => {
+		const data = "A".repeat(64) + "B".repeat(1000) + "C".repeat(64);
+		const normalized = normalizeRequest({
+			...BASE,
+			messages: [{ role: "user", content: "", attachments: [{ type: "image", mimeType: "image/png", name: "a.png", data }] }],
+		});
+		const messages = normalized.messages as Array<{ attachments: Array<{ data: string }> }>;
+		expect(messages[0].attachments[0].data).toBe(`${data.length}:${"A".repeat(64)}…${"C".repeat(64)}`);
+	});
+});
+
+describe("hashRequest", () => {
+	it("32文字の16進で、応答に影響しない項目では変わらない", async () => {
+		const hash = await hashRequest(BASE);
+		expect(hash).toMatch(/^[0-9a-f]{32}$/);
+		expect(await hashRequest({ ...BASE, stream: true, promptCaching: true, systemBlocks: [{ text: "x", cache: true }] })).toBe(hash);
+		expect(await hashRequest({ ...BASE, topP: undefined, seed: undefined })).toBe(hash);
+	});
+
+	it("サンプリングパラメータが異なれば別のハッシュになる", async () => {
+		const hash = await hashRequest(BASE);
+		const variants: Partial<ChatRequest>[] = [{ topP: 0.9 }, { topK: 40 }, { stop: ["\n\n"] }, { seed: 42 }, { temperature: 0.2 }];
+		const hashes = await Promise.all(variants.map((v) => hashRequest({ ...BASE, ...v })));
+		for (const h of hashes) expect(h).not.toBe(hash);
+		expect(new Set(hashes).size).toBe(variants.length);
+	});
+
+	it("メッセージ・モデルが異なれば別のハッシュになる", async () => {
+		const hash = await hashRequest(BASE);
+		expect(await hashRequest({ ...BASE, model: "gpt-5" })).not.toBe(hash);
+		expect(await hashRequest({ ...BASE, messages: [{ role: "user", content: "Hi" }] })).not.toBe(hash);
+	});
+});
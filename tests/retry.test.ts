@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "../src/llm/LLMProvider";
+import { MAX_ATTEMPTS, computeRetryDelay, isRetryableStatus, parseRetryDelay } from "../src/llm/retry";
+
+const { requestUrl } = vi.hoisted(() => ({ requestUrl: vi.fn() }));
+vi.mock("obsidian", () => ({ requestUrl }));
+
+const { sendRequest } = await import("../src/llm/streaming");
+
+const NOW = Date.parse("2026-01-01T00:00:00Z");
+
+describe("parseRetryDelay", () => {
+	it("retry-after-ms を優先する", () => {
+		expect(parseRetryDelay(429, { "retry-after-ms": "1500", "retry-after": "30" }, undefined, NOW)).toBe(1500);
+	});
+
+	it("retry-after の秒数と HTTP-date に対応する", () => {
+		expect(parseRetryDelay(429, { "Retry-After": "30" }, undefined, NOW)).toBe(30_000);
+		expect(parseRetryDelay(503, { "retry-after": "Thu, 01 Jan 2026 00:00:10 GMT" }, undefined, NOW)).toBe(10_000);
+	});
+
+	it("Anthropic のリセット時刻は使い切ったバケットのうち最も遅いものに合わせる", () => {
+		const headers = {
+			"anthropic-ratelimit-requests-remaining": "0",
+			"anthropic-ratelimit-requests-reset": "2026-01-01T00:00:05Z",
+			"anthropic-ratelimit-input-tokens-remaining": "0",
+			"anthropic-ratelimit-input-tokens-reset": "2026-01-01T00:00:20Z",
+		};
+		expect(parseRetryDelay(429, headers, undefined, NOW)).toBe(20_000);
+	});
+
+	it("429 で一部のバケットだけ使い切った場合はそのバケットのリセットに合わせる", () => {
+		const headers = {
+			"x-ratelimit-remaining-requests": "0",
+			"x-ratelimit-reset-requests": "1m30s",
+			"x-ratelimit-remaining-tokens": "12000",
+			"x-ratelimit-reset-tokens": "6m0s",
+		};
+		expect(parseRetryDelay(429, headers, undefined, NOW)).toBe(90_000);
+		expect(parseRetryDelay(429, { "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "20ms" }, undefined, NOW)).toBe(20);
+	});
+
+	it("残量ヘッダーがないバケットのリセットは使わない", () => {
+		expect(parseRetryDelay(429, { "x-ratelimit-reset-tokens": "6m0s" }, undefined, NOW)).toBeUndefined();
+	});
+
+	it("x-ratelimit-reset はエポックの秒とミリ秒の両方に対応する", () => {
+		expect(parseRetryDelay(429, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(NOW + 5000) }, undefined, NOW)).toBe(5000);
+		expect(parseRetryDelay(429, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(NOW / 1000 + 5) }, undefined, NOW)).toBe(5000);
+	});
+
+	it("429 以外ではレート制限のリセット時刻を使わない", () => {
+		const headers = { "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "6m0s" };
+		expect(parseRetryDelay(503, headers, undefined, NOW)).toBeUndefined();
+		expect(parseRetryDelay(503, { ...headers, "retry-after": "2" }, undefined, NOW)).toBe(2000);
+	});
+
+	it("ヘッダーがなければ Gemini のエラー本文の retryDelay を使う", () => {
+		const body = JSON.stringify({ error: { details: [{ retryDelay: "12s" }] } });
+		expect(parseRetryDelay(429, {}, body, NOW)).toBe(12_000);
+	});
+
+	it("指定がなければ undefined", () => {
+		expect(parseRetryDelay(429, { "content-type": "application/json" }, "{}", NOW)).toBeUndefined();
+	});
+});
+
+describe("computeRetryDelay", () => {
+	it("サーバー指定の待機時間に従い、上限を超える場合はリトライしない", () => {
+		expect(computeRetryDelay(1, 5000)).toBe(5000);
+		expect(computeRetryDelay(1, 120_000)).toBeUndefined();
+	});
+
+	it("指定がなければ指数バックオフの半分から全体の範囲", () => {
+		for (const [attempt, exp] of [[1, 1000], [3, 4000], [10, 30_000]]) {
+			const delay = computeRetryDelay(attempt);
+			expect(delay).toBeGreaterThanOrEqual(exp / 2);
+			expect(delay).toBeLessThanOrEqual(exp);
+		}
+	});
+});
+
+describe("isRetryableStatus", () => {
+	it("レート制限・5xx・過負荷のみ対象", () => {
+		for (const status of [408, 429, 500, 502, 503, 504, 529]) expect(isRetryableStatus(status)).toBe(true);
+		for (const status of [400, 401, 403, 404]) expect(isRetryableStatus(status)).toBe(false);
+	});
+});
+
+describe("sendRequest のリトライ", () => {
+	const provider = {
+		id: "test",
+		supportsCORS: false,
+		buildRequestBody: () => ({}),
+		buildHeaders: () => ({}),
+		getEndpointUrl: () => "https://api.example.com/v1/chat",
+	} as unknown as LLMProvider;
+	const params = { model: "test-model", messages: [{ role: "user" as const, content: "hi" }] };
+
+	afterEach(() => {
+		requestUrl.mockReset();
+	});
+
+	it("一時的なエラーは最大試行回数まで再送して諦める", async () => {
+		requestUrl.mockResolvedValue({ status: 503, headers: { "retry-after-ms": "0" }, text: "overloaded", json: {} });
+		await expect(sendRequest(provider, params, "key")).rejects.toThrow("503");
+		expect(requestUrl).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+	});
+
+	it("リトライ対象外のエラーは再送しない", async () => {
+		requestUrl.mockResolvedValue({ status: 401, headers: {}, text: "unauthorized", json: {} });
+		await expect(sendRequest(provider, params, "key")).rejects.toThrow();
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	it("5xx はレート制限のリセットが長くてもバックオフで再送する", async () => {
+		vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+		try {
+			requestUrl.mockResolvedValue({
+				status: 503,
+				headers: { "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "6m0s" },
+				text: "unavailable",
+				json: {},
+			});
+			const result = expect(sendRequest(provider, params, "key")).rejects.toThrow("503");
+			await vi.runAllTimersAsync();
+			await result;
+			expect(requestUrl).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("サーバー指定の待機時間が長すぎる場合は再送しない", async () => {
+		requestUrl.mockResolvedValue({ status: 429, headers: { "retry-after": "600" }, text: "rate limited", json: {} });
+		await expect(sendRequest(provider, params, "key")).rejects.toThrow();
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+});
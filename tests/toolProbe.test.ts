@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "../src/llm/LLMProvider";
+
+const { requestUrl } = vi.hoisted(() => ({ requestUrl: vi.fn() }));
+vi.mock("obsidian", () => ({ requestUrl }));
+
+const { probeToolSupport } = await import("../src/llm/toolProbe");
+
+const provider = {
+	id: "custom",
+	name: "Custom",
+	supportsCORS: false,
+	buildRequestBody: () => ({}),
+	buildHeaders: () => ({}),
+	getEndpointUrl: () => "http://localhost:8080/v1/chat/completions",
+	parseResponse: () => ({ content: "", toolUses: [{ id: "1", name: "ping", input: {} }] }),
+} as unknown as LLMProvider;
+
+const errorResponse = (status: number, message: string) => ({ status, headers: {}, text: message, json: { error: { message } } });
+
+describe("probeToolSupport", () => {
+	afterEach(() => {
+		requestUrl.mockReset();
+	});
+
+	it("ツール呼び出しが返れば対応", async () => {
+		requestUrl.mockResolvedValue({ status: 200, headers: {}, text: "{}", json: {} });
+		expect(await probeToolSupport(provider, "model", "")).toBe(true);
+	});
+
+	it("一時的なエラーはリトライせず判定不能とする", async () => {
+		requestUrl.mockResolvedValue(errorResponse(503, "loading model"));
+		expect(await probeToolSupport(provider, "model", "")).toBeUndefined();
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	it("ツールと無関係な 400 はツールなしで再送せず判定不能とする", async () => {
+		requestUrl.mockResolvedValue(errorResponse(400, "model 'llama9' not found"));
+		expect(await probeToolSupport(provider, "llama9", "")).toBeUndefined();
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	it("tools の非対応を示す 400・422 は非対応", async () => {
+		requestUrl.mockResolvedValue(errorResponse(400, "registry.ollama.ai/library/gemma2:latest does not support tools"));
+		expect(await probeToolSupport(provider, "gemma2", "")).toBe(false);
+		requestUrl.mockResolvedValue(errorResponse(400, "tools param requires --jinja flag"));
+		expect(await probeToolSupport(provider, "model", "")).toBe(false);
+		requestUrl.mockResolvedValue(errorResponse(422, "Unprocessable Entity"));
+		expect(await probeToolSupport(provider, "model", "")).toBe(false);
+	});
+});
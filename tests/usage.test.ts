@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { sumUsage } from "../src/llm/LLMProvider";
+
+describe("sumUsage", () => {
+	it("片方がなければもう片方の複製を返す", () => {
+		const usage = { inputTokens: 10, outputTokens: 5 };
+		expect(sumUsage(undefined, undefined)).toBeUndefined();
+		expect(sumUsage(usage, undefined)).toEqual(usage);
+		expect(sumUsage(undefined, usage)).toEqual(usage);
+		expect(sumUsage(undefined, usage)).not.toBe(usage);
+	});
+
+	it("入力・出力トークン数を合算する", () => {
+		expect(sumUsage({ inputTokens: 10, outputTokens: 5 }, { inputTokens: 20, outputTokens: 7 })).toEqual({ inputTokens: 30, outputTokens: 12 });
+	});
+
+	it("キャッシュ・コストは片方にだけあっても合算し、どちらにもなければ含めない", () => {
+		const sum = sumUsage(
+			{ inputTokens: 100, outputTokens: 10, cacheReadTokens: 80, cost: 0.01 },
+			{ inputTokens: 50, outputTokens: 5, cacheWriteTokens: 40 },
+		);
+		expect(sum).toEqual({ inputTokens: 150, outputTokens: 15, cacheReadTokens: 80, cacheWriteTokens: 40, cost: 0.01 });
+		expect(sumUsage({ inputTokens: 1, outputTokens: 1 }, { inputTokens: 1, outputTokens: 1 })).not.toHaveProperty("cost");
+	});
+});
@@ -0,0 +1,12 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	test: {
+		include: ["tests/**/*.test.ts"],
+		// obsidian パッケージは型定義のみのため、実行時はテスト用の代替モジュールに差し替える
+		alias: {
+			obsidian: fileURLToPath(new URL("./tests/mocks/obsidian.ts", import.meta.url)),
+		},
+	},
+});